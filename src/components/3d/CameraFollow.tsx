@@ -0,0 +1,24 @@
+import { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// Drags the camera and its orbit target along with a moving object, so the user keeps their
+// viewing angle while a fast aircraft flies out of the scene. Needs <OrbitControls makeDefault />.
+export default function CameraFollow({ target, enabled }: { target: [number, number, number], enabled: boolean }) {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as unknown as { target: THREE.Vector3; update: () => void } | null;
+  const last = useRef<THREE.Vector3 | null>(null);
+
+  useFrame(() => {
+    if (!controls) return;
+    const goal = enabled ? new THREE.Vector3(...target) : new THREE.Vector3(0, 0, 0);
+    if (!last.current) last.current = controls.target.clone();
+    const delta = goal.clone().sub(last.current);
+    camera.position.add(delta);
+    controls.target.add(delta);
+    controls.update();
+    last.current = goal;
+  });
+
+  return null;
+}
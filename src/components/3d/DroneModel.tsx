@@ -1,7 +1,8 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Box, Cylinder, Sphere } from '@react-three/drei';
 import * as THREE from 'three';
+import { FrameLayout, layoutMotors } from '../../lib/sim/frames';
 
 export interface BuildState {
   frame: boolean;
@@ -12,8 +13,11 @@ export interface BuildState {
   props: boolean;
   camera: boolean;
   wings?: boolean;
+  pusher?: boolean; // Quadplane cruise motor
 }
 
+export type DroneType = 'multirotor' | 'fixed-wing' | 'quadplane';
+
 // Helper component for scale-in animation
 function ScaleIn({ children, delay = 0 }: { children: React.ReactNode, delay?: number }) {
   const groupRef = useRef<THREE.Group>(null);
@@ -33,92 +37,194 @@ function ScaleIn({ children, delay = 0 }: { children: React.ReactNode, delay?: n
 
 interface DroneModelProps {
   buildState: BuildState;
-  isHovering?: boolean;
+  propRpm?: number[]; // Per motor in the airframe's motor order, signed by spin direction
   position?: [number, number, number];
   rotation?: [number, number, number];
-  type?: 'quadcopter' | 'fixed-wing';
+  type?: DroneType;
+  layout?: FrameLayout; // Multirotor motor arrangement
+  crashed?: boolean;
 }
 
+const TUMBLE_GRAVITY = 9.81;
+const TUMBLE_BOUNCE = 0.3; // Fraction of vertical speed kept on each bounce
+const UNITS_PER_METRE = 16.6; // Model scale for multirotor arms, so a 5" quad X keeps its 2.5-unit arms
+const HUB_RADIUS = 0.16; // Model units from the centre to where the arms start
+const PROP_ANIMATION_SCALE = 0.002; // Rendered rad/s per RPM
+
 export default function DroneModel({ 
   buildState, 
-  isHovering = false, 
+  propRpm = [], 
   position = [0, 0, 0], 
   rotation = [0, 0, 0],
-  type = 'quadcopter'
+  type = 'multirotor',
+  layout = 'quad-x',
+  crashed = false
 }: DroneModelProps) {
   const groupRef = useRef<THREE.Group>(null);
-  const propRefs = [
-    useRef<THREE.Mesh>(null),
-    useRef<THREE.Mesh>(null),
-    useRef<THREE.Mesh>(null),
-    useRef<THREE.Mesh>(null),
-  ];
-
-  // Smoothly interpolate position and rotation
-  useFrame((state, delta) => {
-    if (groupRef.current) {
-      // Target position and rotation from props
-      const targetPos = new THREE.Vector3(...position);
-      const targetRot = new THREE.Euler(...rotation);
-      
-      groupRef.current.position.lerp(targetPos, delta * 3);
-      
-      // Simple rotation lerp
-      const currentQuat = groupRef.current.quaternion;
-      const targetQuat = new THREE.Quaternion().setFromEuler(targetRot);
-      currentQuat.slerp(targetQuat, delta * 3);
-
-      // Hover bobbing effect only if flying and near target
-      if (isHovering && groupRef.current.position.distanceTo(targetPos) < 0.5) {
-        groupRef.current.position.y += Math.sin(state.clock.elapsedTime * 4) * 0.005;
-        // Slight tilt for realism
-        groupRef.current.rotation.x += Math.sin(state.clock.elapsedTime * 2) * 0.002;
-        groupRef.current.rotation.z += Math.cos(state.clock.elapsedTime * 2.5) * 0.002;
+  const tumbleRef = useRef<{ velocity: THREE.Vector3; spin: THREE.Vector3 } | null>(null);
+  // One per motor, in the airframe's motor order
+  const propRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const motors = useMemo(() => layoutMotors(layout), [layout]);
+  // Coaxial motors share an arm; group them by position
+  const arms = useMemo(() => {
+    const byArm = new Map<string, number[]>();
+    motors.forEach((m, i) => {
+      const key = `${m.position[0].toFixed(3)},${m.position[2].toFixed(3)}`;
+      byArm.set(key, [...(byArm.get(key) ?? []), i]);
+    });
+    return [...byArm.values()];
+  }, [motors]);
+
+  // Pose comes straight from the physics engine, so render it as-is.
+  // After a crash the physics stops and the wreck tumbles to the ground from its last pose.
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (group && crashed) {
+      if (!tumbleRef.current) {
+        tumbleRef.current = {
+          velocity: new THREE.Vector3((Math.random() - 0.5) * 2, 0, (Math.random() - 0.5) * 2),
+          spin: new THREE.Vector3((Math.random() - 0.5) * 12, (Math.random() - 0.5) * 6, (Math.random() - 0.5) * 12),
+        };
+      }
+      const { velocity, spin } = tumbleRef.current;
+      const dt = Math.min(delta, 0.05);
+      velocity.y -= TUMBLE_GRAVITY * dt;
+      group.position.addScaledVector(velocity, dt);
+      group.rotation.x += spin.x * dt;
+      group.rotation.y += spin.y * dt;
+      group.rotation.z += spin.z * dt;
+      if (group.position.y <= 0) {
+        group.position.y = 0;
+        velocity.y = Math.abs(velocity.y) > 0.5 ? -velocity.y * TUMBLE_BOUNCE : 0;
+        // Ground friction bleeds off the slide and spin
+        velocity.x *= Math.exp(-4 * dt);
+        velocity.z *= Math.exp(-4 * dt);
+        spin.multiplyScalar(Math.exp(-4 * dt));
       }
+      return;
+    }
+    tumbleRef.current = null;
+    if (group) {
+      group.position.set(...position);
+      group.rotation.set(...rotation);
     }
 
-    // Spin propellers if they exist and drone is hovering/flying
-    if (buildState.props && isHovering) {
-      propRefs.forEach((ref, index) => {
-        if (ref.current) {
-          const direction = index % 2 === 0 ? 1 : -1;
-          ref.current.rotation.y += 30 * direction * delta;
+    // Each prop turns with its motor's RPM, slowed down so it reads on screen instead of strobing.
+    // Lift props turn about the vertical; a pusher about the nose, counter-clockwise seen from behind.
+    if (buildState.props) {
+      propRefs.current.forEach((prop, index) => {
+        if (prop) {
+          const rate = (propRpm[index] ?? 0) * PROP_ANIMATION_SCALE * delta;
+          const pusher = type === 'fixed-wing' || (type === 'quadplane' && index === 4);
+          if (pusher) prop.rotation.z -= rate;
+          else prop.rotation.y += rate;
         }
       });
     }
   });
 
-  const armLength = 2.5;
   const armWidth = 0.15;
   const motorRadius = 0.25;
   const propLength = 2.8;
 
   if (!buildState.frame) return null;
 
-  if (type === 'fixed-wing') {
-    return (
-      <group ref={groupRef}>
-        {/* Fuselage */}
-        <Box args={[0.4, 0.4, 3]} position={[0, 0, 0]}>
-          <meshStandardMaterial color="#1f2937" metalness={0.8} roughness={0.2} />
+  // Fuselage, wing and V-tail shared by the fixed-wing and the quadplane
+  const airframe = (
+    <>
+      {/* Fuselage */}
+      <Box args={[0.4, 0.4, 3]} position={[0, 0, 0]}>
+        <meshStandardMaterial color="#1f2937" metalness={0.8} roughness={0.2} />
+      </Box>
+      {/* Wings */}
+      {buildState.wings && (
+        <Box args={[4, 0.05, 0.8]} position={[0, 0.2, 0.2]}>
+          <meshStandardMaterial color="#3b82f6" metalness={0.5} roughness={0.5} />
         </Box>
-        {/* Wings */}
-        {buildState.wings && (
-          <Box args={[4, 0.05, 0.8]} position={[0, 0.2, 0.2]}>
+      )}
+      {/* V-Tail */}
+      {buildState.wings && (
+        <group position={[0, 0.2, -1.3]}>
+          <Box args={[1.2, 0.05, 0.4]} rotation={[0, 0, Math.PI / 6]} position={[0.5, 0.2, 0]}>
             <meshStandardMaterial color="#3b82f6" metalness={0.5} roughness={0.5} />
           </Box>
-        )}
-        {/* V-Tail */}
-        {buildState.wings && (
-          <group position={[0, 0.2, -1.3]}>
-            <Box args={[1.2, 0.05, 0.4]} rotation={[0, 0, Math.PI / 6]} position={[0.5, 0.2, 0]}>
-              <meshStandardMaterial color="#3b82f6" metalness={0.5} roughness={0.5} />
-            </Box>
-            <Box args={[1.2, 0.05, 0.4]} rotation={[0, 0, -Math.PI / 6]} position={[-0.5, 0.2, 0]}>
-              <meshStandardMaterial color="#3b82f6" metalness={0.5} roughness={0.5} />
-            </Box>
+          <Box args={[1.2, 0.05, 0.4]} rotation={[0, 0, -Math.PI / 6]} position={[-0.5, 0.2, 0]}>
+            <meshStandardMaterial color="#3b82f6" metalness={0.5} roughness={0.5} />
+          </Box>
+        </group>
+      )}
+    </>
+  );
+
+  if (type === 'quadplane') {
+    return (
+      <group ref={groupRef}>
+        {airframe}
+        {/* Booms under the wing carrying the lift motors fore and aft */}
+        {[1, -1].map(x => (
+          <Box key={x} args={[0.12, 0.12, 3]} position={[x * 1.2, 0.1, 0.2]}>
+            <meshStandardMaterial color="#374151" metalness={0.9} roughness={0.1} />
+          </Box>
+        ))}
+        {[
+          [1, 1],
+          [1, -1],
+          [-1, 1],
+          [-1, -1],
+        ].map(([x, z], index) => (
+          <group key={index} position={[x * 1.2, 0.1, 0.2 + z * 1.4]}>
+            {buildState.motors && (
+              <ScaleIn>
+                <Cylinder args={[motorRadius, motorRadius, 0.3, 16]} position={[0, 0.2, 0]}>
+                  <meshStandardMaterial color="#b45309" metalness={0.6} roughness={0.4} />
+                </Cylinder>
+              </ScaleIn>
+            )}
+            {buildState.props && (
+              <ScaleIn>
+                <Box ref={el => { propRefs.current[index] = el; }} args={[propLength * 0.8, 0.02, 0.2]} position={[0, 0.4, 0]}>
+                  <meshStandardMaterial color="#06b6d4" transparent opacity={0.7} />
+                </Box>
+              </ScaleIn>
+            )}
           </group>
+        ))}
+        {/* Pusher */}
+        {buildState.pusher && (
+          <ScaleIn>
+            <Cylinder args={[0.15, 0.15, 0.4]} position={[0, 0.1, -1.6]} rotation={[Math.PI / 2, 0, 0]}>
+              <meshStandardMaterial color="#9ca3af" metalness={0.9} roughness={0.1} />
+            </Cylinder>
+            {buildState.props && (
+              <Box ref={el => { propRefs.current[4] = el; }} args={[1.5, 0.05, 0.05]} position={[0, 0.1, -1.8]}>
+                <meshStandardMaterial color="#ef4444" />
+              </Box>
+            )}
+          </ScaleIn>
+        )}
+        {buildState.fc && (
+          <Box args={[0.2, 0.05, 0.2]} position={[0, 0.25, 0]}>
+            <meshStandardMaterial color="#8b5cf6" />
+          </Box>
+        )}
+        {buildState.battery && (
+          <Box args={[0.25, 0.15, 0.5]} position={[0, 0.25, 0.5]}>
+            <meshStandardMaterial color="#10b981" />
+          </Box>
+        )}
+        {buildState.camera && (
+          <Sphere args={[0.15]} position={[0, -0.2, 1.2]}>
+            <meshStandardMaterial color="#10b981" metalness={0.8} roughness={0.2} />
+          </Sphere>
         )}
+      </group>
+    );
+  }
+
+  if (type === 'fixed-wing') {
+    return (
+      <group ref={groupRef}>
+        {airframe}
         {/* Motor (Pusher) */}
         {buildState.motors && (
           <Cylinder args={[0.15, 0.15, 0.4]} position={[0, 0, -1.6]} rotation={[Math.PI / 2, 0, 0]}>
@@ -127,7 +233,7 @@ export default function DroneModel({
         )}
         {/* Propeller */}
         {buildState.props && (
-          <Box ref={propRefs[0]} args={[1.5, 0.05, 0.05]} position={[0, 0, -1.8]}>
+          <Box ref={el => { propRefs.current[0] = el; }} args={[1.5, 0.05, 0.05]} position={[0, 0, -1.8]}>
             <meshStandardMaterial color="#ef4444" />
           </Box>
         )}
@@ -162,41 +268,44 @@ export default function DroneModel({
         <meshStandardMaterial color="#1f2937" metalness={0.8} roughness={0.2} />
       </Box>
 
-      {/* Arms */}
-      {[
-        [1, 1],
-        [1, -1],
-        [-1, 1],
-        [-1, -1],
-      ].map(([x, z], index) => (
-        <group key={index} position={[x * armLength * 0.4, 0.15, z * armLength * 0.4]} rotation={[0, Math.atan2(x, z), 0]}>
-          <Box args={[armWidth, armWidth, armLength]}>
-            <meshStandardMaterial color="#374151" metalness={0.9} roughness={0.1} />
-          </Box>
-          
-          {/* Motors */}
-          {buildState.motors && (
-            <ScaleIn>
-              <Cylinder args={[motorRadius, motorRadius, 0.3, 16]} position={[0, 0.2, armLength / 2]}>
-                <meshStandardMaterial color="#b45309" metalness={0.6} roughness={0.4} />
-              </Cylinder>
-            </ScaleIn>
-          )}
-
-          {/* Propellers */}
-          {buildState.props && (
-            <ScaleIn>
-              <Box 
-                ref={propRefs[index]} 
-                args={[propLength, 0.02, 0.2]} 
-                position={[0, 0.4, armLength / 2]}
-              >
-                <meshStandardMaterial color="#06b6d4" transparent opacity={0.7} />
-              </Box>
-            </ScaleIn>
-          )}
-        </group>
-      ))}
+      {/* Arms, running out from the hub to each motor position */}
+      {arms.map(indices => {
+        const [x, , z] = motors[indices[0]].position;
+        const reach = Math.hypot(x, z) * UNITS_PER_METRE;
+        const armLength = reach - HUB_RADIUS;
+        const mid = (HUB_RADIUS + reach) / 2 / reach;
+        return (
+          <group key={indices[0]} position={[x * UNITS_PER_METRE * mid, 0.15, z * UNITS_PER_METRE * mid]} rotation={[0, Math.atan2(x, z), 0]}>
+            <Box args={[armWidth, armWidth, armLength]}>
+              <meshStandardMaterial color="#374151" metalness={0.9} roughness={0.1} />
+            </Box>
+
+            {/* Motors and propellers; on a coaxial arm the second pair hangs underneath */}
+            {indices.map((index, level) => (
+              <group key={index} position={[0, 0, armLength / 2]} scale={[1, level === 0 ? 1 : -1, 1]}>
+                {buildState.motors && (
+                  <ScaleIn>
+                    <Cylinder args={[motorRadius, motorRadius, 0.3, 16]} position={[0, 0.2, 0]}>
+                      <meshStandardMaterial color="#b45309" metalness={0.6} roughness={0.4} />
+                    </Cylinder>
+                  </ScaleIn>
+                )}
+                {buildState.props && (
+                  <ScaleIn>
+                    <Box 
+                      ref={el => { propRefs.current[index] = el; }} 
+                      args={[propLength, 0.02, 0.2]} 
+                      position={[0, 0.4, 0]}
+                    >
+                      <meshStandardMaterial color="#06b6d4" transparent opacity={0.7} />
+                    </Box>
+                  </ScaleIn>
+                )}
+              </group>
+            ))}
+          </group>
+        );
+      })}
 
       {/* ESC (4-in-1 under FC) */}
       {buildState.esc && (
@@ -0,0 +1,45 @@
+import React from 'react';
+import * as THREE from 'three';
+import { Geofence } from '../../lib/sim/failsafe';
+import { Vec3 } from '../../lib/sim/math';
+
+const FENCE_COLOR = '#ef4444';
+
+function Wall({ from, to, base, height }: { from: [number, number], to: [number, number], base: number, height: number }) {
+  const [dx, dz] = [to[0] - from[0], to[1] - from[1]];
+  return (
+    <mesh position={[(from[0] + to[0]) / 2, base + height / 2, (from[1] + to[1]) / 2]} rotation={[0, Math.atan2(-dz, dx), 0]}>
+      <planeGeometry args={[Math.hypot(dx, dz), height]} />
+      <meshBasicMaterial color={FENCE_COLOR} transparent opacity={0.08} side={THREE.DoubleSide} depthWrite={false} />
+    </mesh>
+  );
+}
+
+// The fence as translucent walls up to its ceiling: a cylinder around home, or the polygon on the map
+export default function GeofenceWalls({ fence, home }: { fence: Geofence, home: Vec3 }) {
+  if (fence.type === 'none') return null;
+  const height = fence.maxAltitude;
+
+  if (fence.type === 'cylinder') {
+    return (
+      <group position={home}>
+        <mesh position={[0, height / 2, 0]}>
+          <cylinderGeometry args={[fence.radius, fence.radius, height, 96, 1, true]} />
+          <meshBasicMaterial color={FENCE_COLOR} transparent opacity={0.08} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+        <mesh position={[0, 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[fence.radius - 0.3, fence.radius, 96]} />
+          <meshBasicMaterial color={FENCE_COLOR} transparent opacity={0.6} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      </group>
+    );
+  }
+
+  return (
+    <group>
+      {fence.polygon.map((corner, i) => (
+        <Wall key={i} from={corner} to={fence.polygon[(i + 1) % fence.polygon.length]} base={home[1]} height={height} />
+      ))}
+    </group>
+  );
+}
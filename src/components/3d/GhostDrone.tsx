@@ -0,0 +1,36 @@
+import React from 'react';
+import { Box } from '@react-three/drei';
+import * as THREE from 'three';
+import { Vec3 } from '../../lib/sim/math';
+
+const ARM_LENGTH = 5; // Model units, about the span of the drone model
+const GHOST_COLOR = '#38bdf8';
+
+// Where the flight controller thinks the drone is: a translucent X at the estimated pose,
+// with a level ring around it at twice the horizontal 1σ uncertainty
+export default function GhostDrone({ position, rotation, sigma }: {
+  position: Vec3,
+  rotation: Vec3, // Euler XYZ
+  sigma: number // Horizontal 1σ, m
+}) {
+  const radius = Math.max(2 * sigma, 0.05);
+  return (
+    <group>
+      <group position={position} rotation={rotation}>
+        {[Math.PI / 4, -Math.PI / 4].map(yaw => (
+          <Box key={yaw} args={[0.3, 0.15, ARM_LENGTH]} rotation={[0, yaw, 0]}>
+            <meshBasicMaterial color={GHOST_COLOR} transparent opacity={0.3} depthWrite={false} />
+          </Box>
+        ))}
+        {/* Nose marker */}
+        <Box args={[0.3, 0.3, 0.6]} position={[0, 0, 1]}>
+          <meshBasicMaterial color={GHOST_COLOR} transparent opacity={0.5} depthWrite={false} />
+        </Box>
+      </group>
+      <mesh position={position} rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[radius * 0.9, radius, 64]} />
+        <meshBasicMaterial color={GHOST_COLOR} transparent opacity={0.4} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,52 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Cone, Cylinder } from '@react-three/drei';
+import * as THREE from 'three';
+import { Vec3 } from '../../lib/sim/math';
+
+const SPACING = 3;
+const RANGE = 2; // Arrows from -RANGE to RANGE in each horizontal direction
+const HEIGHTS = [1, 4];
+const POINTS: Vec3[] = HEIGHTS.flatMap(y =>
+  Array.from({ length: (2 * RANGE + 1) ** 2 }, (_, i): Vec3 => [
+    (Math.floor(i / (2 * RANGE + 1)) - RANGE) * SPACING,
+    y,
+    ((i % (2 * RANGE + 1)) - RANGE) * SPACING,
+  ])
+);
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Grid of arrows showing the wind field; each arrow points downwind and grows with speed
+export default function WindField({ sample }: { sample: (position: Vec3) => Vec3 }) {
+  const arrowRefs = useRef<(THREE.Group | null)[]>([]);
+  const dir = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(() => {
+    POINTS.forEach((point, i) => {
+      const arrow = arrowRefs.current[i];
+      if (!arrow) return;
+      dir.set(...sample(point));
+      const speed = dir.length();
+      arrow.visible = speed > 0.05;
+      if (!arrow.visible) return;
+      arrow.quaternion.setFromUnitVectors(UP, dir.normalize());
+      arrow.scale.setScalar(Math.min(speed * 0.15, 2));
+    });
+  });
+
+  return (
+    <group>
+      {POINTS.map((point, i) => (
+        <group key={i} position={point} ref={el => { arrowRefs.current[i] = el; }}>
+          <Cylinder args={[0.04, 0.04, 1.2, 6]} position={[0, 0.6, 0]}>
+            <meshBasicMaterial color="#38bdf8" transparent opacity={0.35} />
+          </Cylinder>
+          <Cone args={[0.12, 0.35, 8]} position={[0, 1.35, 0]}>
+            <meshBasicMaterial color="#38bdf8" transparent opacity={0.5} />
+          </Cone>
+        </group>
+      ))}
+    </group>
+  );
+}
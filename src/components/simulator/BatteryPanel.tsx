@@ -0,0 +1,118 @@
+import React from 'react';
+import { Battery, RefreshCw } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+  BatterySpec, BatteryState, CELL_CRITICAL, CELL_LOW, DISCHARGE_CURVE,
+  batteryWarning, maxCurrent, remainingFlightTime, stateOfCharge,
+} from '../../lib/sim/battery';
+
+const CURVE_W = 300;
+const CURVE_H = 100;
+const V_MIN = 3.2;
+const V_MAX = 4.25;
+
+const OPTIONS: { key: keyof BatterySpec; label: string; values: number[]; unit: string }[] = [
+  { key: 'cells', label: 'Cells', values: [3, 4, 5, 6], unit: 'S' },
+  { key: 'capacityMah', label: 'Capacity', values: [850, 1300, 1500, 2200, 3000], unit: 'mAh' },
+  { key: 'cRating', label: 'C Rating', values: [25, 50, 75, 100, 120], unit: 'C' },
+  { key: 'internalResistance', label: 'IR / cell', values: [0.004, 0.008, 0.015, 0.03], unit: 'Ω' },
+];
+
+export const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const WARNING_COLORS = {
+  ok: 'text-emerald-500',
+  low: 'text-yellow-500',
+  critical: 'text-red-500',
+  depleted: 'text-red-500',
+};
+
+function DischargeCurve({ soc, restingPerCell, loadedPerCell }: { soc: number, restingPerCell: number, loadedPerCell: number }) {
+  const x = (s: number) => (1 - s) * CURVE_W; // Discharge runs left to right
+  const y = (v: number) => CURVE_H - ((v - V_MIN) / (V_MAX - V_MIN)) * CURVE_H;
+  const cx = x(Math.max(0, soc));
+
+  return (
+    <svg viewBox={`0 0 ${CURVE_W} ${CURVE_H}`} className="w-full h-24 bg-[#1e1e1e] rounded-lg border border-border font-mono">
+      <line x1={0} y1={y(CELL_LOW)} x2={CURVE_W} y2={y(CELL_LOW)} stroke="#eab308" strokeOpacity="0.4" strokeDasharray="3 3" />
+      <line x1={0} y1={y(CELL_CRITICAL)} x2={CURVE_W} y2={y(CELL_CRITICAL)} stroke="#ef4444" strokeOpacity="0.4" strokeDasharray="3 3" />
+      <polyline points={DISCHARGE_CURVE.map(([s, v]) => `${x(s)},${y(v)}`).join(' ')} fill="none" stroke="#ef4444" strokeWidth="1.5" />
+      {/* Gap between the resting and loaded dot is the I·R sag */}
+      <line x1={cx} y1={y(restingPerCell)} x2={cx} y2={y(loadedPerCell)} stroke="#f97316" strokeWidth="1.5" />
+      <circle cx={cx} cy={y(restingPerCell)} r="3" fill="#ef4444" />
+      <circle cx={cx} cy={y(loadedPerCell)} r="3" fill="#f97316" />
+      <text x={4} y={10} fill="#71717a" fontSize="8">{V_MAX}V/cell</text>
+      <text x={CURVE_W - 4} y={CURVE_H - 4} fill="#71717a" fontSize="8" textAnchor="end">empty</text>
+    </svg>
+  );
+}
+
+export default function BatteryPanel({ spec, state, canConfigure, onSpecChange, onSwap }: {
+  spec: BatterySpec,
+  state: BatteryState,
+  canConfigure: boolean,
+  onSpecChange: (spec: BatterySpec) => void,
+  onSwap: () => void
+}) {
+  const soc = stateOfCharge(state, spec);
+  const warning = batteryWarning(state, spec);
+  const sag = state.restingVoltage - state.voltage;
+  const cDraw = state.current / (spec.capacityMah / 1000);
+
+  return (
+    <div className="bg-red-500/5 p-5 rounded-xl border border-red-500/20">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-bold text-red-500 flex items-center gap-2"><Battery className="w-4 h-4"/> Battery Chemistry</h3>
+        <button
+          onClick={onSwap}
+          disabled={!canConfigure}
+          className="px-2 py-1 text-xs font-bold rounded-lg flex items-center gap-1 text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Swap in a fully charged pack"
+        >
+          <RefreshCw className="w-3 h-3" /> Swap
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Simulating a {spec.cells}S LiPo ({(spec.cells * 4.2).toFixed(1)}V max). The motors draw the power their thrust demands; the pack's Internal Resistance (IR) makes the voltage sag under that current, and the sag costs thrust.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {OPTIONS.map(opt => (
+          <label key={opt.key} className="text-xs text-muted-foreground flex flex-col gap-1">
+            {opt.label}
+            <select
+              value={spec[opt.key]}
+              disabled={!canConfigure}
+              onChange={(e) => onSpecChange({ ...spec, [opt.key]: parseFloat(e.target.value) })}
+              className="bg-secondary text-foreground text-xs rounded-lg px-2 py-1.5 border border-border/50 focus:outline-none focus:border-primary disabled:opacity-50"
+            >
+              {opt.values.map(v => <option key={v} value={v}>{v}{opt.unit}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <DischargeCurve soc={soc} restingPerCell={state.restingVoltage / spec.cells} loadedPerCell={state.voltage / spec.cells} />
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 mt-4 text-sm">
+        <span>Resting Voltage:</span>
+        <span className="font-mono text-right">{state.restingVoltage.toFixed(2)}V</span>
+        <span>Loaded Voltage:</span>
+        <span className={cn("font-mono font-bold text-right", WARNING_COLORS[warning])}>{state.voltage.toFixed(2)}V</span>
+        <span>Sag (I·R):</span>
+        <span className="font-mono text-right">{sag.toFixed(2)}V</span>
+        <span>Current:</span>
+        <span className={cn("font-mono text-right", state.current > maxCurrent(spec) && "text-red-500")}>{state.current.toFixed(1)}A ({cDraw.toFixed(1)}C)</span>
+        <span>Used:</span>
+        <span className="font-mono text-right">{state.usedMah.toFixed(0)} / {spec.capacityMah}mAh</span>
+        <span>Remaining:</span>
+        <span className="font-mono text-right">{formatDuration(remainingFlightTime(state, spec))}</span>
+      </div>
+    </div>
+  );
+}
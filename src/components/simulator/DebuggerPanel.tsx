@@ -0,0 +1,70 @@
+import React from 'react';
+import { Bug, Pause, Play, StepForward } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { PausedAt } from '../../lib/script/debugger';
+import { formatValue } from '../../lib/script/interpreter';
+
+export default function DebuggerPanel({ running, paused, currentLine, breakpointCount, canStart, onPause, onResume, onStep }: {
+  running: boolean,
+  paused: PausedAt | null,
+  currentLine: number | null,
+  breakpointCount: number,
+  canStart: boolean,
+  onPause: () => void,
+  onResume: () => void,
+  onStep: () => void // Starts the script paused on its first line when it isn't running
+}) {
+  const status = paused ? `Paused at line ${paused.line}${paused.functionName ? ` in ${paused.functionName}()` : ''}`
+    : running ? `Running${currentLine !== null ? ` line ${currentLine}` : ''}`
+    : breakpointCount ? `${breakpointCount} breakpoint${breakpointCount === 1 ? '' : 's'} set`
+    : 'Click a line number to set a breakpoint';
+
+  return (
+    <div className="mt-3 p-3 rounded-xl border border-border/50 bg-secondary/30 shrink-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn("text-xs font-bold flex items-center gap-2", paused ? "text-amber-500" : "text-muted-foreground")}>
+          <Bug className="w-4 h-4"/> {status}
+        </span>
+        <div className="flex gap-1">
+          {running && !paused && (
+            <button onClick={onPause} title="Pause before the next statement" className="p-1.5 rounded-lg bg-secondary hover:bg-secondary/80 transition-colors">
+              <Pause className="w-4 h-4" />
+            </button>
+          )}
+          {paused && (
+            <button onClick={onResume} title="Continue to the next breakpoint" className="p-1.5 rounded-lg bg-secondary hover:bg-secondary/80 transition-colors">
+              <Play className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={onStep}
+            disabled={running ? !paused : !canStart}
+            title="Run one statement"
+            className="p-1.5 rounded-lg bg-secondary hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <StepForward className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {paused && (
+        <div className="mt-2 max-h-32 overflow-y-auto custom-scrollbar font-mono text-xs">
+          {paused.variables.length === 0 ? (
+            <p className="text-muted-foreground">No variables yet.</p>
+          ) : (
+            <table className="w-full">
+              <tbody>
+                {paused.variables.map(({ name, value, local }) => (
+                  <tr key={`${local}-${name}`}>
+                    <td className="pr-3 text-primary whitespace-nowrap">{name}{local && <span className="text-muted-foreground"> (local)</span>}</td>
+                    <td className="text-foreground/80 break-all">{formatValue(value, true)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import type { NavigationError } from '../../lib/sim/ekf';
+
+export interface SigmaSample {
+  time: number; // Sim seconds
+  sigma: NavigationError;
+}
+
+const PLOT_W = 300;
+const PLOT_H = 140;
+// Log scale: the uncertainty spans centimetres with GPS to hundreds of metres without it
+const DECADES = [-2, -1, 0, 1, 2, 3];
+const SERIES: { key: keyof NavigationError; label: string; color: string; scale: number }[] = [
+  { key: 'horizontal', label: 'σ horiz (m)', color: '#38bdf8', scale: 1 },
+  { key: 'vertical', label: 'σ vert (m)', color: '#10b981', scale: 1 },
+  { key: 'heading', label: 'σ heading (°)', color: '#f59e0b', scale: 180 / Math.PI },
+];
+
+function SigmaPlot({ samples, window }: { samples: SigmaSample[], window: number }) {
+  const end = samples.length ? samples[samples.length - 1].time : 0;
+  const x = (t: number) => ((t - end + window) / window) * PLOT_W;
+  const lo = DECADES[0];
+  const hi = DECADES[DECADES.length - 1];
+  const y = (v: number) => PLOT_H - ((Math.log10(Math.max(v, 10 ** lo)) - lo) / (hi - lo)) * PLOT_H;
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} className="w-full h-36 bg-[#1e1e1e] rounded-lg border border-border font-mono">
+      {DECADES.map(d => (
+        <g key={d}>
+          <line x1={0} y1={y(10 ** d)} x2={PLOT_W} y2={y(10 ** d)} stroke="#27272a" strokeWidth="1" />
+          <text x={PLOT_W - 4} y={y(10 ** d) - 2} fill="#71717a" fontSize="8" textAnchor="end">{10 ** d}</text>
+        </g>
+      ))}
+      {SERIES.map(({ key, color, scale }) => (
+        <polyline
+          key={key}
+          points={samples.map(s => `${x(s.time).toFixed(1)},${y(s.sigma[key] * scale).toFixed(1)}`).join(' ')}
+          fill="none" stroke={color} strokeWidth="1.5"
+        />
+      ))}
+      {SERIES.map(({ key, label, color }, i) => (
+        <text key={key} x={4} y={12 + i * 12} fill={color} fontSize="9">{label}</text>
+      ))}
+      <text x={4} y={PLOT_H - 4} fill="#71717a" fontSize="9">-{window}s</text>
+    </svg>
+  );
+}
+
+export default function EstimatorPanel({ samples, window, error }: {
+  samples: SigmaSample[],
+  window: number, // Seconds of history shown
+  error: NavigationError
+}) {
+  const sigma = samples[samples.length - 1]?.sigma;
+  const rows: [string, string, string][] = [
+    ['Position', `${error.horizontal.toFixed(2)}m`, sigma ? `${sigma.horizontal.toFixed(2)}m` : '—'],
+    ['Altitude', `${error.vertical >= 0 ? '+' : ''}${error.vertical.toFixed(2)}m`, sigma ? `${sigma.vertical.toFixed(2)}m` : '—'],
+    ['Heading', `${(error.heading * 180 / Math.PI).toFixed(1)}°`, sigma ? `${(sigma.heading * 180 / Math.PI).toFixed(1)}°` : '—'],
+  ];
+
+  return (
+    <div>
+      <label className="text-sm font-bold flex items-center gap-2 mb-2"><Crosshair className="w-4 h-4 text-sky-400"/> State Estimator (EKF)</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        An extended Kalman filter integrates the IMU and corrects it with GPS, barometer and compass readings. The controller flies on its estimate, drawn as the ghost drone. Without GPS it dead-reckons and its uncertainty grows.
+      </p>
+
+      <SigmaPlot samples={samples} window={window} />
+
+      {/* Actual error against the filter's own 1σ */}
+      <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-xs bg-background/50 p-3 rounded-lg border border-border/50 mt-3">
+        <div className="text-[10px] text-muted-foreground uppercase"></div>
+        <div className="text-[10px] text-muted-foreground uppercase text-right">Error</div>
+        <div className="text-[10px] text-muted-foreground uppercase text-right">1σ</div>
+        {rows.map(([label, actual, expected]) => (
+          <React.Fragment key={label}>
+            <div className="text-muted-foreground">{label}</div>
+            <div className="font-mono text-right">{actual}</div>
+            <div className="font-mono text-right text-muted-foreground">{expected}</div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { FAILSAFES, FAILSAFE_ACTIONS, FailsafeAction, FailsafeConfig, FailsafeId, FailsafeState, FenceType, Geofence } from '../../lib/sim/failsafe';
+
+const FENCE_TYPES: { id: FenceType; label: string; desc: string }[] = [
+  { id: 'none', label: 'Off', desc: 'No fence. Scripts can send the drone anywhere.' },
+  { id: 'cylinder', label: 'Cylinder', desc: 'A circle around home with an altitude ceiling, the usual first fence.' },
+  { id: 'polygon', label: 'Polygon', desc: 'The boundary of the flying field, fixed on the map. Home has to be inside it.' },
+];
+
+const SLIDERS: { key: 'radius' | 'maxAltitude'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'radius', label: 'Radius', min: 10, max: 500, step: 10 },
+  { key: 'maxAltitude', label: 'Altitude Ceiling', min: 10, max: 120, step: 5 },
+];
+
+export default function FailsafePanel({ config, triggered, onChange }: {
+  config: FailsafeConfig,
+  triggered: FailsafeState['triggered'],
+  onChange: (config: FailsafeConfig) => void
+}) {
+  const setAction = (id: FailsafeId, action: FailsafeAction) => onChange({ ...config, actions: { ...config.actions, [id]: action } });
+  const setFence = (fence: Partial<Geofence>) => onChange({ ...config, fence: { ...config.fence, ...fence } });
+
+  return (
+    <div className="bg-sky-500/5 p-5 rounded-xl border border-sky-500/20">
+      <h3 className="text-sm font-bold text-sky-400 flex items-center gap-2 mb-2"><ShieldAlert className="w-4 h-4"/> Failsafes & Geofence</h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        What the autopilot does on its own when something goes wrong, whatever the pilot or script is doing. Each failsafe fires once its condition has lasted a moment, and again only after it clears.
+      </p>
+
+      <div className="space-y-2 mb-3">
+        {(Object.keys(FAILSAFES) as FailsafeId[]).map(id => (
+          <div key={id} className={cn("p-3 rounded-lg border transition-colors", triggered[id] !== undefined ? "bg-sky-500/10 border-sky-500/50" : "bg-background/50 border-border/50")}>
+            <label className="flex justify-between items-center gap-2">
+              <span className={cn("text-xs font-bold", triggered[id] !== undefined && "text-sky-400")}>{FAILSAFES[id].label}</span>
+              <select
+                value={config.actions[id]}
+                onChange={(e) => setAction(id, e.target.value as FailsafeAction)}
+                className="bg-secondary text-foreground text-xs rounded-lg px-2 py-1 border border-border/50 focus:outline-none focus:border-primary"
+              >
+                {(Object.keys(FAILSAFE_ACTIONS) as FailsafeAction[]).map(action => <option key={action} value={action}>{FAILSAFE_ACTIONS[action].label}</option>)}
+              </select>
+            </label>
+            <p className="text-xs text-muted-foreground mt-1">{FAILSAFES[id].desc}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs mb-5">
+        {(Object.keys(FAILSAFE_ACTIONS) as FailsafeAction[]).map(action => (
+          <React.Fragment key={action}>
+            <span className="font-bold">{FAILSAFE_ACTIONS[action].label}</span>
+            <span className="text-muted-foreground">{FAILSAFE_ACTIONS[action].desc}</span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <span className="text-xs font-bold block mb-2">Geofence</span>
+      <div className="grid grid-cols-3 gap-1 bg-background/50 p-1 rounded-lg border border-border/50 mb-2">
+        {FENCE_TYPES.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setFence({ type: id })}
+            className={cn("py-1.5 text-xs font-bold rounded-md transition-all", config.fence.type === id ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground")}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">{FENCE_TYPES.find(f => f.id === config.fence.type)?.desc}</p>
+
+      {config.fence.type !== 'none' && (
+        <div className="space-y-4">
+          {SLIDERS.filter(s => s.key !== 'radius' || config.fence.type === 'cylinder').map(({ key, label, min, max, step }) => (
+            <div key={key}>
+              <div className="flex justify-between mb-1">
+                <span className="text-xs font-bold">{label}</span>
+                <span className="text-xs font-mono text-primary">{config.fence[key]}m</span>
+              </div>
+              <input
+                type="range"
+                min={min} max={max} step={step}
+                value={config.fence[key]}
+                onChange={(e) => setFence({ [key]: parseFloat(e.target.value) })}
+                className="w-full accent-primary"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
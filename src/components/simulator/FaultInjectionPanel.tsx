@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Zap, X } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { FAULTS, FaultId, FaultState } from '../../lib/sim/faults';
+
+export default function FaultInjectionPanel({ active, motorCount, quad, onInject, onClear }: {
+  active: FaultState['active'],
+  motorCount: number,
+  quad: boolean, // Four motors: losing one can't be flown out
+  onInject: (id: FaultId, motor: number) => void,
+  onClear: (id?: FaultId) => void
+}) {
+  const [motor, setMotor] = useState(0);
+  const activeCount = Object.keys(active).length;
+
+  return (
+    <div className="bg-amber-500/5 p-5 rounded-xl border border-amber-500/20">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-bold text-amber-500 flex items-center gap-2"><Zap className="w-4 h-4"/> Fault Injection</h3>
+        <button
+          onClick={() => onClear()}
+          disabled={activeCount === 0}
+          className="px-2 py-1 text-xs font-bold rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Clear All
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Break something mid-flight and watch how the drone (and your script) copes. Scripts can do the same with <code className="text-amber-500">inject_fault("gps_loss")</code> or <code className="text-amber-500">inject_fault("motor_failure", 2)</code>.
+      </p>
+
+      <label className="text-xs text-muted-foreground flex items-center justify-between gap-2 mb-3">
+        Target motor (motor faults)
+        <select
+          value={motor}
+          onChange={(e) => setMotor(parseInt(e.target.value))}
+          className="bg-secondary text-foreground text-xs rounded-lg px-2 py-1.5 border border-border/50 focus:outline-none focus:border-primary"
+        >
+          {Array.from({ length: motorCount }, (_, i) => <option key={i} value={i}>Motor {i + 1}</option>)}
+        </select>
+      </label>
+
+      <div className="space-y-2">
+        {(Object.keys(FAULTS) as FaultId[]).map(id => {
+          const fault = active[id];
+          return (
+            <div key={id} className={cn("p-3 rounded-lg border transition-colors", fault ? "bg-amber-500/10 border-amber-500/50" : "bg-background/50 border-border/50")}>
+              <div className="flex justify-between items-center gap-2">
+                <span className={cn("text-xs font-bold", fault && "text-amber-500")}>
+                  {FAULTS[id].label}{fault && FAULTS[id].perMotor ? ` (Motor ${fault.motor + 1})` : ''}
+                </span>
+                {fault ? (
+                  <button onClick={() => onClear(id)} className="px-2 py-1 text-xs font-bold rounded-md flex items-center gap-1 text-amber-500 hover:bg-amber-500/20 transition-colors">
+                    <X className="w-3 h-3" /> Clear
+                  </button>
+                ) : (
+                  <button onClick={() => onInject(id, motor)} className="px-2 py-1 text-xs font-bold rounded-md bg-secondary text-muted-foreground hover:text-foreground transition-colors">
+                    Inject
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{FAULTS[id].desc}</p>
+              {id === 'motor_failure' && quad && (
+                <p className="text-xs text-amber-500 mt-1">On a quad (X, plus or H) this always ends in a crash: the other three can't hold it level. Pick a hexa- or octocopter frame to fly one out.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import type { MotorSpec } from '../../lib/sim/airframe';
+import { GRAVITY } from '../../lib/sim/math';
+import type { MotorTelemetry } from '../../lib/sim/propulsion';
+
+// Short position label: F/R for front or rear, L/R for the side, and top/bottom for coaxial pairs
+function motorLabel(motor: MotorSpec): string {
+  if (motor.axis && motor.axis[1] < 0.9) return 'Pusher';
+  const [x, y, z] = motor.position;
+  const r = Math.hypot(x, z);
+  const label = (z > 0.3 * r ? 'F' : z < -0.3 * r ? 'R' : '') + (x > 0.3 * r ? 'L' : x < -0.3 * r ? 'R' : '');
+  return label + (y > 0 ? ' top' : y < 0 ? ' btm' : '');
+}
+
+export default function MotorPanel({ motors, specs }: {
+  motors: MotorTelemetry[],
+  specs: MotorSpec[]
+}) {
+  return (
+    <div className="absolute bottom-4 left-4 bg-background/80 backdrop-blur-md border border-border/50 p-4 rounded-xl pointer-events-none min-w-[280px]">
+      <h3 className="font-mono text-primary text-sm mb-3 uppercase tracking-wider border-b border-border/50 pb-2">Motors</h3>
+      <div className="grid grid-cols-[auto_1fr_auto_auto_auto] gap-x-3 gap-y-1.5 items-center text-xs font-mono">
+        <div className="text-[10px] text-muted-foreground uppercase">Motor</div>
+        <div className="text-[10px] text-muted-foreground uppercase">Command</div>
+        <div className="text-[10px] text-muted-foreground uppercase text-right">RPM</div>
+        <div className="text-[10px] text-muted-foreground uppercase text-right">Amps</div>
+        <div className="text-[10px] text-muted-foreground uppercase text-right">Thrust</div>
+        {motors.map((m, i) => {
+          const Spin = specs[i]?.spin === -1 ? RotateCw : RotateCcw;
+          return (
+            <React.Fragment key={i}>
+              <div className="flex items-center gap-1 text-muted-foreground whitespace-nowrap">
+                M{i + 1} <Spin className="w-3 h-3" /> {specs[i] && motorLabel(specs[i])}
+              </div>
+              {/* Mixer command; the bar turns red when the motor is saturated */}
+              <div className="h-2 bg-secondary rounded-full overflow-hidden min-w-[60px]">
+                <div
+                  className={cn("h-full rounded-full", m.command >= 0.99 ? "bg-red-500" : "bg-primary")}
+                  style={{ width: `${Math.min(m.command, 1) * 100}%` }}
+                />
+              </div>
+              <div className="text-right">{(m.rpm / 1000).toFixed(1)}k</div>
+              <div className="text-right">{m.current.toFixed(1)}A</div>
+              <div className="text-right text-muted-foreground">{(m.thrust / GRAVITY * 1000).toFixed(0)}g</div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
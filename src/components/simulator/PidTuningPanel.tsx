@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Target, RotateCcw } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { ControlLoop, ControllerGains, DEFAULT_GAINS } from '../../lib/sim/flightController';
+import { PidGains } from '../../lib/sim/pid';
+
+const LOOPS: { id: ControlLoop; label: string; desc: string }[] = [
+  { id: 'rate', label: 'Rate', desc: 'Innermost loop. Gyro rate error to angular acceleration. Runs fastest; too much P rings against the gyro filter lag.' },
+  { id: 'attitude', label: 'Attitude', desc: 'Angle error to a body-rate setpoint for the rate loop. Must stay slower than the rate loop.' },
+  { id: 'velocity', label: 'Velocity', desc: 'Velocity error to an acceleration, which becomes a lean angle. The I-term trims out steady wind.' },
+  { id: 'position', label: 'Position', desc: 'Outermost loop. Position error to a velocity setpoint, capped at the maximum speed.' },
+];
+
+// Slider ranges per loop: [max, step] for P, I, D and the integrator limit
+const RANGES: Record<ControlLoop, Record<keyof PidGains, [number, number]>> = {
+  rate: { kp: [200, 1], ki: [50, 0.5], kd: [3, 0.05], iLimit: [50, 1] },
+  attitude: { kp: [30, 0.5], ki: [10, 0.1], kd: [2, 0.05], iLimit: [10, 0.5] },
+  velocity: { kp: [10, 0.1], ki: [5, 0.1], kd: [2, 0.05], iLimit: [10, 0.5] },
+  position: { kp: [5, 0.1], ki: [2, 0.05], kd: [2, 0.05], iLimit: [5, 0.1] },
+};
+
+const TERMS: { key: keyof PidGains; label: string }[] = [
+  { key: 'kp', label: 'P' },
+  { key: 'ki', label: 'I' },
+  { key: 'kd', label: 'D' },
+  { key: 'iLimit', label: 'I-Limit' },
+];
+
+export default function PidTuningPanel({ gains, onChange }: { gains: ControllerGains, onChange: (gains: ControllerGains) => void }) {
+  const [loop, setLoop] = useState<ControlLoop>('rate');
+  const loopGains = gains[loop] as Record<string, PidGains>;
+  const activeLoop = LOOPS.find(l => l.id === loop)!;
+
+  const setTerm = (axis: string, term: keyof PidGains, value: number) => {
+    onChange({
+      ...gains,
+      [loop]: { ...loopGains, [axis]: { ...loopGains[axis], [term]: value } },
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-bold flex items-center gap-2"><Target className="w-4 h-4 text-purple-500"/> Cascaded PID Tuning</label>
+        <button
+          onClick={() => onChange(DEFAULT_GAINS)}
+          className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+          title="Reset to defaults"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3 font-mono">u(t) = Kp·e + Ki·∫e dt + Kd·de/dt</p>
+
+      <div className="flex bg-background/50 p-1 rounded-lg border border-border/50 mb-3">
+        {LOOPS.map(l => (
+          <button
+            key={l.id}
+            onClick={() => setLoop(l.id)}
+            className={cn("flex-1 py-1.5 text-xs font-bold rounded-md transition-all", loop === l.id ? "bg-purple-500 text-white" : "text-muted-foreground hover:text-foreground")}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">{activeLoop.desc}</p>
+
+      <div className="space-y-4">
+        {Object.entries(loopGains).map(([axis, pid]) => (
+          <div key={axis} className="p-3 bg-background/50 rounded-lg border border-border/50">
+            <div className="text-xs font-bold uppercase tracking-wider text-purple-500 mb-2">{axis}</div>
+            <div className="space-y-2">
+              {TERMS.map(({ key, label }) => {
+                const [max, step] = RANGES[loop][key];
+                return (
+                  <div key={key} className="grid grid-cols-[3.5rem_1fr_3rem] items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{label}</span>
+                    <input
+                      type="range"
+                      min="0" max={max} step={step}
+                      value={pid[key]}
+                      onChange={(e) => setTerm(axis, key, parseFloat(e.target.value))}
+                      className="w-full accent-purple-500"
+                    />
+                    <span className="text-xs font-mono text-right text-purple-500">{pid[key]}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
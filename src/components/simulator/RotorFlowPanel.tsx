@@ -0,0 +1,56 @@
+import React from 'react';
+import { Tornado } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { RotorFlow, VRS_LIFT_LOSS, VRS_ONSET } from '../../lib/sim/rotorFlow';
+
+const ACTIVE_GROUND_EFFECT = 1.01;
+
+function Indicator({ label, status, detail, level }: { label: string, status: string, detail: string, level: 'ok' | 'active' | 'danger' }) {
+  return (
+    <div className={cn(
+      "p-3 rounded-lg border transition-colors",
+      level === 'danger' ? "bg-red-500/10 border-red-500/50" : level === 'active' ? "bg-sky-500/10 border-sky-500/50" : "bg-background/50 border-border/50",
+    )}>
+      <div className="text-[10px] text-muted-foreground uppercase">{label}</div>
+      <div className={cn("text-sm font-bold font-mono", level === 'danger' ? "text-red-500 animate-pulse" : level === 'active' ? "text-sky-400" : "text-muted-foreground")}>{status}</div>
+      <div className="text-[10px] text-muted-foreground font-mono">{detail}</div>
+    </div>
+  );
+}
+
+export default function RotorFlowPanel({ flow, inducedVelocity }: {
+  flow: RotorFlow,
+  inducedVelocity: number // Hover induced velocity, m/s; infinite without lift rotors
+}) {
+  const gain = (flow.groundEffect - 1) * 100;
+  const ring = flow.vortexRing;
+
+  return (
+    <div>
+      <label className="text-sm font-bold flex items-center gap-2 mb-2"><Tornado className="w-4 h-4 text-primary"/> Rotor Aerodynamics</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        Thrust depends on the air the props work in. Within about a prop diameter of the floor the downwash cushions against it and thrust rises. Coming straight down too fast, the props sink into their own downwash and lose lift, and more throttle doesn't help.
+        {Number.isFinite(inducedVelocity) && ` On this airframe that starts at about ${(inducedVelocity * VRS_ONSET).toFixed(1)} m/s of vertical descent.`}
+      </p>
+
+      {Number.isFinite(inducedVelocity) ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Indicator
+            label="Ground Effect"
+            status={flow.groundEffect > ACTIVE_GROUND_EFFECT ? `+${gain.toFixed(0)}% thrust` : 'Out of effect'}
+            detail={flow.groundEffect > ACTIVE_GROUND_EFFECT ? 'Cushion under the props' : 'Clear of the ground'}
+            level={flow.groundEffect > ACTIVE_GROUND_EFFECT ? 'active' : 'ok'}
+          />
+          <Indicator
+            label="Vortex Ring State"
+            status={ring > 0.5 ? 'VORTEX RING' : ring > 0.1 ? 'Onset' : 'Clear'}
+            detail={`sink ${(Math.max(flow.descentRatio, 0) * inducedVelocity).toFixed(1)} m/s, lift −${(ring * VRS_LIFT_LOSS * 100).toFixed(0)}%`}
+            level={ring > 0.5 ? 'danger' : ring > 0.1 ? 'active' : 'ok'}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground bg-background/50 p-3 rounded-lg border border-border/50">A fixed-wing has no lift rotors; its wing flies through clean air.</p>
+      )}
+    </div>
+  );
+}
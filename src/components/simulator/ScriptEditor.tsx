@@ -0,0 +1,374 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Span, SpanKind, highlight } from '../../lib/script/highlight';
+import { Finding, Severity } from '../../lib/script/preflight';
+import { Completion, ReferenceDoc, ScriptLanguage, completionsAt, docAt, mavlinkUrl, signatureAt } from '../../lib/script/reference';
+import { cn } from '../../lib/utils';
+
+// Fixed metrics, so the gutter, the highlighting and the popups stay aligned with the textarea's text
+const LINE_HEIGHT = 20; // px, leading-5
+const PADDING = 16; // px, p-4
+const HOVER_DELAY = 400; // ms the mouse rests on a name before its docs show
+const INDENT: Record<ScriptLanguage, string> = { python: '    ', typescript: '  ' };
+
+const SPAN_COLORS: Record<SpanKind, string> = {
+  plain: 'text-zinc-200',
+  keyword: 'text-violet-400',
+  builtin: 'text-sky-400',
+  definition: 'text-yellow-200',
+  string: 'text-amber-300',
+  number: 'text-orange-300',
+  comment: 'text-zinc-500 italic',
+};
+
+const FINDING_STYLES: Record<Severity, { text: string; squiggle: string }> = {
+  error: { text: 'text-red-400', squiggle: 'decoration-red-500' },
+  warning: { text: 'text-amber-400', squiggle: 'decoration-amber-500' },
+  info: { text: 'text-sky-400/70', squiggle: 'decoration-sky-500/60' },
+};
+const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+const COMPLETION_BADGES: Record<Completion['kind'], string> = {
+  command: 'cmd', query: 'tel', function: 'fn', keyword: 'kw', variable: 'var', parameter: 'arg', module: 'mod',
+};
+
+// Guide text with its `backticked` code set as code
+export function GuideText({ text }: { text: string }) {
+  return <>{text.split('`').map((part, i) => (i % 2 ? <code key={i}>{part}</code> : part))}</>;
+}
+
+// Where a finding's squiggle runs on its line, from 0: over the name, number or string at its column
+function findingRange(text: string, column: number): [number, number] | null {
+  if (!text.trim()) return null;
+  const start = Math.min(column - 1, text.length - 1);
+  const token = text.slice(start).match(/^([A-Za-z_]\w*|\d+\.?\d*|"[^"]*"?|'[^']*'?)/);
+  return [start, start + (token ? token[0].length : 1)];
+}
+
+type Squiggle = { start: number; end: number; severity: Severity };
+
+// Splits a line's spans where squiggles start and end, marking each piece with the worst one over it
+function decorate(spans: Span[], squiggles: Squiggle[]): (Span & { severity?: Severity })[] {
+  if (!squiggles.length) return spans;
+  const bounds = squiggles.flatMap(s => [s.start, s.end]);
+  const out: (Span & { severity?: Severity })[] = [];
+  let pos = 0;
+  for (const span of spans) {
+    const end = pos + span.text.length;
+    for (let at = pos; at < end;) {
+      const next = Math.min(end, ...bounds.filter(b => b > at));
+      const over = squiggles.filter(s => s.start <= at && at < s.end).map(s => s.severity);
+      out.push({ text: span.text.slice(at - pos, next - pos), kind: span.kind, severity: SEVERITY_ORDER.find(s => over.includes(s)) });
+      at = next;
+    }
+    pos = end;
+  }
+  return out;
+}
+
+// Line and column of an offset in the code, both from 0
+function position(code: string, offset: number) {
+  const before = code.slice(0, offset);
+  return { line: before.split('\n').length - 1, column: offset - before.lastIndexOf('\n') - 1 };
+}
+
+interface CompletionState {
+  from: number;
+  items: Completion[];
+  selected: number;
+}
+
+interface Hover {
+  from: number;
+  to: number;
+  doc: ReferenceDoc | null;
+  findings: Finding[];
+}
+
+// The script editor: a textarea over a syntax-highlighted copy of its text, with a line-number
+// gutter. Clicking a line number toggles a breakpoint, where the language has a debugger; the line
+// being run is highlighted, amber while paused there. Pre-flight findings are squiggled, with the
+// worst on each line at the right. Typing a name offers completions, a call's parameters show while
+// its arguments are typed, and resting the mouse on a built-in shows its entry from the code guide.
+export default function ScriptEditor({ code, onChange, language, readOnly, currentLine, paused, breakpoints, onToggleBreakpoint, findings = [] }: {
+  code: string,
+  onChange: (code: string) => void,
+  language: ScriptLanguage,
+  readOnly: boolean,
+  currentLine: number | null,
+  paused: boolean,
+  breakpoints: Set<number>,
+  onToggleBreakpoint?: (line: number) => void,
+  findings?: Finding[]
+}) {
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [charWidth, setCharWidth] = useState(8.4); // px, measured once mounted
+  const [caret, setCaret] = useState<number | null>(null); // null while the editor isn't focused
+  const [completion, setCompletion] = useState<CompletionState | null>(null);
+  const [hover, setHover] = useState<Hover | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingCaret = useRef<number | null>(null); // Where an edit of the editor's own leaves the caret
+  const hoverTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const lines = useMemo(() => highlight(code, language), [code, language]);
+  const lineTexts = useMemo(() => code.split('\n'), [code]);
+
+  // The findings on each line, worst first
+  const byLine = new Map<number, Finding[]>();
+  for (const finding of [...findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))) {
+    byLine.set(finding.line, [...(byLine.get(finding.line) ?? []), finding]);
+  }
+  const squiggles = (line: number): Squiggle[] => (byLine.get(line) ?? []).flatMap(({ column, severity }) => {
+    const range = findingRange(lineTexts[line - 1] ?? '', column);
+    return range ? [{ start: range[0], end: range[1], severity }] : [];
+  });
+
+  useLayoutEffect(() => {
+    if (measureRef.current) setCharWidth(measureRef.current.getBoundingClientRect().width / 100);
+  }, []);
+  useLayoutEffect(() => {
+    if (pendingCaret.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    setCaret(pendingCaret.current);
+    pendingCaret.current = null;
+  }, [code]);
+
+  // Opens a popup below the line of an offset's character, or above it in the lower half of the editor
+  const popupStyle = (offset: number, gap = 0): React.CSSProperties => {
+    const { line, column } = position(code, offset);
+    const left = PADDING + column * charWidth - scroll.left;
+    const top = PADDING + line * LINE_HEIGHT - scroll.top;
+    const height = textareaRef.current?.clientHeight ?? Infinity;
+    return top > height / 2 ? { left, bottom: height - top + gap } : { left, top: top + LINE_HEIGHT + gap };
+  };
+
+  const edit = (text: string, from: number, to: number, caretAt: number) => {
+    pendingCaret.current = caretAt;
+    onChange(code.slice(0, from) + text + code.slice(to));
+  };
+
+  const suggest = (text: string, at: number) => {
+    const found = completionsAt(text, at, language);
+    setCompletion(found && { ...found, selected: 0 });
+  };
+
+  const accept = (item: Completion) => {
+    if (!completion || caret === null) return;
+    // Doesn't double the parentheses when completing a name that's already called
+    const called = item.insert.endsWith('()') && code[caret] === '(';
+    const text = called ? item.insert.slice(0, -2) : item.insert;
+    edit(text, completion.from, caret, completion.from + (called ? text.length + 1 : item.caret));
+    setCompletion(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly) return;
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+    if (completion) {
+      const move = e.key === 'ArrowDown' ? 1 : e.key === 'ArrowUp' ? -1 : 0;
+      if (move || e.key === 'Enter' || e.key === 'Tab' || e.key === 'Escape') e.preventDefault();
+      if (move) return setCompletion({ ...completion, selected: (completion.selected + move + completion.items.length) % completion.items.length });
+      if (e.key === 'Enter' || e.key === 'Tab') return accept(completion.items[completion.selected]);
+      if (e.key === 'Escape') return setCompletion(null);
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      suggest(code, start);
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      edit(INDENT[language], start, end, start + INDENT[language].length);
+    } else if (e.key === 'Enter') {
+      // Keeps the line's indentation, one level deeper where a block opens
+      e.preventDefault();
+      const line = code.slice(code.lastIndexOf('\n', start - 1) + 1, start);
+      const opens = language === 'python' ? /:\s*(#.*)?$/.test(line) : /[{([]\s*$/.test(line);
+      const indent = line.match(/^[ \t]*/)![0] + (opens ? INDENT[language] : '');
+      edit(`\n${indent}`, start, end, start + 1 + indent.length);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    const at = e.target.selectionStart;
+    setCaret(at);
+    const typed = (e.nativeEvent as InputEvent).inputType === 'insertText';
+    if (typed || completion) suggest(e.target.value, at);
+  };
+
+  // The offset of the character under the mouse, or null past the end of its line
+  const offsetAt = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const line = Math.floor((e.clientY - rect.top - PADDING + scroll.top) / LINE_HEIGHT);
+    const column = Math.floor((e.clientX - rect.left - PADDING + scroll.left) / charWidth);
+    if (line < 0 || line >= lineTexts.length || column < 0 || column >= lineTexts[line].length) return null;
+    return lineTexts.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0) + column;
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const offset = offsetAt(e);
+    clearTimeout(hoverTimer.current);
+    if (hover && (offset === null || offset < hover.from || offset >= hover.to)) setHover(null);
+    if (offset === null || hover) return;
+    hoverTimer.current = setTimeout(() => {
+      const { line, column } = position(code, offset);
+      const ranges = (byLine.get(line + 1) ?? []).map(f => ({ finding: f, range: findingRange(lineTexts[line], f.column)! }))
+        .filter(({ range }) => range[0] <= column && column < range[1]);
+      const doc = docAt(code, offset, language);
+      if (!doc && !ranges.length) return;
+      const [from, to] = doc ? [doc.from, doc.to] : ranges[0].range.map(c => offset - column + c);
+      setHover({ from, to, doc, findings: ranges.map(r => r.finding) });
+    }, HOVER_DELAY);
+  };
+
+  const signature = caret !== null && !completion && !readOnly ? signatureAt(code, caret, language) : null;
+
+  return (
+    <div className="flex h-full font-mono text-sm leading-5">
+      <div className="w-12 shrink-0 overflow-hidden border-r border-border/50 bg-black/20 select-none">
+        <div style={{ transform: `translateY(${PADDING - scroll.top}px)` }}>
+          {lineTexts.map((_, i) => i + 1).map(line => (
+            <button
+              key={line}
+              onClick={() => onToggleBreakpoint?.(line)}
+              disabled={!onToggleBreakpoint}
+              title={byLine.get(line)?.map(f => f.message).join('\n') ?? (onToggleBreakpoint && (breakpoints.has(line) ? 'Remove breakpoint' : 'Add breakpoint'))}
+              className={cn(
+                "w-full h-5 flex items-center justify-end gap-1 pr-2 text-xs hover:text-foreground",
+                byLine.has(line) ? FINDING_STYLES[byLine.get(line)![0].severity].text : "text-muted-foreground/60"
+              )}
+            >
+              <span className={cn("w-2 h-2 rounded-full", breakpoints.has(line) ? "bg-red-500" : "bg-transparent")} />
+              {line}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="relative flex-1 overflow-hidden">
+        <span ref={measureRef} className="invisible absolute whitespace-pre">{'0'.repeat(100)}</span>
+        {currentLine !== null && (
+          <div
+            className={cn("absolute inset-x-0 pointer-events-none", paused ? "bg-amber-500/20 border-l-2 border-amber-500" : "bg-accent/15")}
+            style={{ top: PADDING + (currentLine - 1) * LINE_HEIGHT - scroll.top, height: LINE_HEIGHT }}
+          />
+        )}
+        <pre
+          aria-hidden
+          className="absolute top-0 left-0 m-0 p-4 font-mono whitespace-pre pointer-events-none [tab-size:4]"
+          style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}
+        >
+          {lines.map((spans, i) => (
+            <div key={i} className="h-5">
+              {decorate(spans, squiggles(i + 1)).map((span, j) => (
+                <span
+                  key={j}
+                  className={cn(SPAN_COLORS[span.kind], span.severity && cn("underline decoration-wavy underline-offset-4", FINDING_STYLES[span.severity].squiggle))}
+                >
+                  {span.text}
+                </span>
+              ))}
+            </div>
+          ))}
+        </pre>
+        {[...byLine].map(([line, [worst, ...rest]]) => (
+          <div
+            key={line}
+            className="absolute right-0 max-w-[50%] flex items-center pr-4 pointer-events-none"
+            style={{ top: PADDING + (line - 1) * LINE_HEIGHT - scroll.top, height: LINE_HEIGHT }}
+          >
+            <span className={cn("truncate pl-2 bg-[#1e1e1e]/90 text-xs", FINDING_STYLES[worst.severity].text)}>
+              {worst.message}{rest.length > 0 && ` (+${rest.length} more)`}
+            </span>
+          </div>
+        ))}
+        <textarea
+          ref={textareaRef}
+          value={code}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onFocus={(e) => setCaret(e.currentTarget.selectionStart)}
+          onBlur={() => {
+            setCaret(null);
+            setCompletion(null);
+          }}
+          onClick={() => setCompletion(null)}
+          onScroll={(e) => {
+            setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft });
+            setHover(null);
+          }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => clearTimeout(hoverTimer.current)}
+          readOnly={readOnly}
+          wrap="off"
+          className="relative w-full h-full p-4 bg-transparent text-transparent caret-white selection:bg-sky-500/30 resize-none focus:outline-none whitespace-pre overflow-auto [tab-size:4]"
+          spellCheck={false}
+        />
+
+        {completion && caret !== null && (
+          <div className="absolute z-20 min-w-56 max-h-48 overflow-y-auto rounded-lg border border-border/50 bg-[#252526] py-1 shadow-xl text-xs" style={popupStyle(completion.from)}>
+            {completion.items.map((item, i) => (
+              <button
+                key={`${item.kind}:${item.label}`}
+                ref={i === completion.selected ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                onMouseDown={(e) => {
+                  e.preventDefault(); // Keeps the textarea focused
+                  accept(item);
+                }}
+                className={cn("w-full flex items-center gap-2 px-2 py-0.5 text-left", i === completion.selected ? "bg-sky-500/25" : "hover:bg-white/5")}
+              >
+                <span className="w-7 shrink-0 text-[10px] text-muted-foreground">{COMPLETION_BADGES[item.kind]}</span>
+                <span className="text-zinc-100">{item.label}</span>
+                {item.detail && <span className="ml-auto pl-4 truncate text-muted-foreground">{item.detail}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {signature && caret !== null && (
+          <div
+            className="absolute z-10 whitespace-nowrap rounded border border-border/50 bg-[#252526] px-2 py-0.5 text-xs text-zinc-300 shadow-lg pointer-events-none"
+            style={popupStyle(caret, 2)}
+          >
+            {signature.name}(
+            {signature.params.map((param, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && ', '}
+                <span className={cn(i === signature.active && "font-bold text-sky-300")}>{param}</span>
+              </React.Fragment>
+            ))}
+            )
+          </div>
+        )}
+
+        {hover && (
+          <div
+            className="absolute z-20 max-w-sm space-y-1.5 rounded-lg border border-border/50 bg-[#252526] p-2 font-sans text-xs leading-snug shadow-xl"
+            style={popupStyle(hover.from)}
+            onMouseLeave={() => setHover(null)}
+          >
+            {hover.findings.map((f, i) => (
+              <p key={i} className={FINDING_STYLES[f.severity].text}>{f.message}</p>
+            ))}
+            {hover.doc && (
+              <>
+                <code className="block font-mono text-sky-300">{hover.doc.signature}</code>
+                {hover.doc.text && <p className="text-zinc-300"><GuideText text={hover.doc.text} /></p>}
+                {hover.doc.mavlink.length > 0 && (
+                  <p className="text-muted-foreground">
+                    MAVLink:{' '}
+                    {hover.doc.mavlink.map((name, i) => (
+                      <React.Fragment key={name}>
+                        {i > 0 && ', '}
+                        <a href={mavlinkUrl(name)} target="_blank" rel="noreferrer" className="font-mono text-accent hover:underline">{name}</a>
+                      </React.Fragment>
+                    ))}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
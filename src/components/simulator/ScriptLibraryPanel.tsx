@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, FileText, FolderOpen, History, Save, Trash2, Upload } from 'lucide-react';
+import { EXAMPLE_SCRIPTS, SavedScript, exportScript, latest } from '../../lib/script/library';
+import { languageOf } from '../../lib/script/reference';
+import { cn } from '../../lib/utils';
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// The script library: saved scripts with their revisions, the built-in examples, and import and
+// export of script files. Opening a script puts it in a tab; saving keeps the active tab's code.
+export default function ScriptLibraryPanel({ library, activeName, activeCode, disabled, onSave, onOpen, onRestore, onDuplicate, onDelete, onImport }: {
+  library: SavedScript[],
+  activeName: string,
+  activeCode: string,
+  disabled: boolean, // While a script runs
+  onSave: () => void,
+  onOpen: (name: string, code: string) => void, // Switches to the script's tab if it's open
+  onRestore: (name: string, code: string) => void, // Replaces the tab's code with a revision's
+  onDuplicate: (name: string) => void,
+  onDelete: (name: string) => void,
+  onImport: (files: File[]) => void
+}) {
+  const [history, setHistory] = useState<string | null>(null); // The script whose revisions are shown
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const saved = library.find(s => s.name === activeName);
+  const upToDate = saved !== undefined && latest(saved).code === activeCode;
+
+  const iconButton = "p-1 rounded hover:bg-white/10 disabled:opacity-50";
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onSave}
+          disabled={upToDate}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary/20 text-primary font-bold hover:bg-primary/30 disabled:opacity-50"
+          title="Ctrl+S in the editor"
+        >
+          <Save className="w-3.5 h-3.5" /> {upToDate ? 'Saved' : `Save ${activeName}`}
+        </button>
+        <button onClick={() => fileInput.current?.click()} disabled={disabled} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80 disabled:opacity-50">
+          <Upload className="w-3.5 h-3.5" /> Import
+        </button>
+        <button onClick={() => exportScript(activeName, activeCode)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80">
+          <Download className="w-3.5 h-3.5" /> Export
+        </button>
+        {languageOf(activeName) === 'python' && (
+          <button onClick={() => exportScript(activeName, activeCode, true)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80">
+            <FileText className="w-3.5 h-3.5" /> As .txt
+          </button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".py,.txt,.ts,.js"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            onImport([...(e.target.files ?? [])]);
+            e.target.value = ''; // So the same file can be imported again
+          }}
+        />
+      </div>
+
+      <div>
+        <h5 className="font-bold text-accent mb-1">Saved Scripts</h5>
+        {library.length === 0 && <p className="text-muted-foreground">Nothing saved yet. Saved scripts stay in this browser, with every revision.</p>}
+        <div className="space-y-1">
+          {library.map(script => (
+            <div key={script.name} className="rounded-lg bg-black/20 border border-border/30">
+              <div className="flex items-center gap-2 px-2 py-1">
+                <button
+                  onClick={() => onOpen(script.name, latest(script).code)}
+                  disabled={disabled}
+                  className={cn("font-mono font-bold hover:underline disabled:opacity-50 truncate", script.name === activeName && "text-primary")}
+                >
+                  {script.name}
+                </button>
+                <span className="text-muted-foreground truncate">{formatTime(latest(script).savedAt)}</span>
+                <div className="ml-auto flex items-center gap-0.5 shrink-0">
+                  <button
+                    onClick={() => setHistory(history === script.name ? null : script.name)}
+                    title={`${script.revisions.length} revision${script.revisions.length === 1 ? '' : 's'}`}
+                    className={cn(iconButton, "flex items-center gap-1", history === script.name && "text-accent")}
+                  >
+                    <History className="w-3.5 h-3.5" /> {script.revisions.length}
+                  </button>
+                  <button onClick={() => onDuplicate(script.name)} title="Duplicate" className={iconButton}>
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => exportScript(script.name, latest(script).code)} title="Export" className={iconButton}>
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                  {confirmDelete === script.name ? (
+                    <button
+                      onClick={() => {
+                        onDelete(script.name);
+                        setConfirmDelete(null);
+                      }}
+                      onBlur={() => setConfirmDelete(null)}
+                      autoFocus
+                      className="px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 font-bold"
+                    >
+                      Delete?
+                    </button>
+                  ) : (
+                    <button onClick={() => setConfirmDelete(script.name)} title="Delete, with its history" className={cn(iconButton, "hover:text-red-400")}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {history === script.name && (
+                <div className="border-t border-border/30 px-2 py-1 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                  {[...script.revisions].reverse().map((revision, i) => (
+                    <div key={revision.savedAt + ':' + i} className="flex items-center gap-2">
+                      <span className="w-8 text-muted-foreground">r{script.revisions.length - i}</span>
+                      <span className="flex-1">{formatTime(revision.savedAt)}</span>
+                      <span className="text-muted-foreground">{revision.code.split('\n').length} lines</span>
+                      <button
+                        onClick={() => onRestore(script.name, revision.code)}
+                        disabled={disabled}
+                        title="Open this revision; saving it makes it the newest"
+                        className={iconButton}
+                      >
+                        <FolderOpen className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h5 className="font-bold text-accent mb-1">Examples</h5>
+        <div className="space-y-1">
+          {EXAMPLE_SCRIPTS.map(example => (
+            <div key={example.name} className="flex items-center gap-2 px-2 py-1 rounded-lg bg-black/20 border border-border/30">
+              <button onClick={() => onOpen(example.name, example.code)} disabled={disabled} className="font-mono font-bold hover:underline disabled:opacity-50">
+                {example.name}
+              </button>
+              <span className="text-muted-foreground truncate">{example.description}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+export interface ScriptFile {
+  name: string; // Its extension picks the language: .py, or .ts/.js
+  code: string;
+}
+
+export const SCRIPT_FILE_NAME = /^[\w\- ]+\.(py|ts|js)$/;
+
+// The open scripts as tabs. Double-clicking a tab renames it; the last one can't be closed. A dot
+// marks a saved script edited since its last save.
+export default function ScriptTabs({ files, active, disabled, onSelect, onNew, onClose, onRename, modified = new Set() }: {
+  files: ScriptFile[],
+  active: string,
+  disabled: boolean, // While a script runs
+  onSelect: (name: string) => void,
+  onNew: () => void,
+  onClose: (name: string) => void,
+  onRename: (name: string, to: string) => void,
+  modified?: Set<string>
+}) {
+  const [renaming, setRenaming] = useState<{ name: string; value: string } | null>(null);
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const to = renaming.value.trim();
+    if (to !== renaming.name && SCRIPT_FILE_NAME.test(to) && !files.some(f => f.name === to)) onRename(renaming.name, to);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="flex items-end gap-1 overflow-x-auto custom-scrollbar shrink-0">
+      {files.map(({ name }) => (
+        <div
+          key={name}
+          className={cn(
+            "group flex items-center gap-1 pl-3 pr-1 py-1 rounded-t-lg border border-b-0 text-xs font-mono whitespace-nowrap",
+            name === active ? "bg-[#1e1e1e] border-border/50 text-foreground" : "bg-secondary/40 border-transparent text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {renaming?.name === name ? (
+            <input
+              autoFocus
+              value={renaming.value}
+              onChange={(e) => setRenaming({ name, value: e.target.value })}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              className="w-32 bg-black/40 px-1 rounded focus:outline-none"
+            />
+          ) : (
+            <button
+              onClick={() => onSelect(name)}
+              onDoubleClick={() => !disabled && setRenaming({ name, value: name })}
+              disabled={disabled && name !== active}
+              title="Double-click to rename"
+              className="disabled:opacity-50"
+            >
+              {name}
+            </button>
+          )}
+          {modified.has(name) && <span className="w-1.5 h-1.5 rounded-full bg-primary" title="Edited since it was saved" />}
+          <button
+            onClick={() => onClose(name)}
+            disabled={disabled || files.length === 1}
+            title="Close"
+            className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-white/10 disabled:hidden"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        title="New script"
+        className="p-1.5 mb-0.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50"
+      >
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Satellite } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { SENSOR_PRESETS, SensorConfig, SensorPresetId, SensorReadings } from '../../lib/sim/sensors';
+
+type Slider = { key: keyof SensorConfig; label: string; max: number; step: number; unit: string };
+
+const GROUPS: { title: string; sliders: Slider[] }[] = [
+  {
+    title: 'IMU',
+    sliders: [
+      { key: 'gyroNoise', label: 'Gyro Noise', max: 0.05, step: 0.001, unit: 'rad/s' },
+      { key: 'gyroBias', label: 'Gyro Bias', max: 0.05, step: 0.001, unit: 'rad/s' },
+      { key: 'accelNoise', label: 'Accel Noise', max: 0.5, step: 0.01, unit: 'm/s²' },
+      { key: 'accelBias', label: 'Accel Bias', max: 1, step: 0.05, unit: 'm/s²' },
+      { key: 'vibration', label: 'Vibration (full throttle)', max: 10, step: 0.5, unit: 'm/s²' },
+    ],
+  },
+  {
+    title: 'Barometer',
+    sliders: [
+      { key: 'baroNoise', label: 'Noise', max: 0.5, step: 0.01, unit: 'm' },
+      { key: 'baroDrift', label: 'Drift', max: 3, step: 0.1, unit: 'm' },
+    ],
+  },
+  {
+    title: 'GPS',
+    sliders: [
+      { key: 'gpsRate', label: 'Update Rate', max: 10, step: 1, unit: 'Hz' },
+      { key: 'hdop', label: 'HDOP', max: 5, step: 0.1, unit: '' },
+      { key: 'gpsUere', label: 'Range Error (UERE)', max: 5, step: 0.1, unit: 'm' },
+      { key: 'gpsVelocityNoise', label: 'Velocity Noise', max: 1, step: 0.05, unit: 'm/s' },
+    ],
+  },
+  {
+    title: 'Magnetometer',
+    sliders: [
+      { key: 'magNoise', label: 'Noise', max: 3, step: 0.1, unit: 'µT' },
+      { key: 'hardIron', label: 'Hard-Iron Offset', max: 20, step: 0.5, unit: 'µT' },
+    ],
+  },
+];
+
+export default function SensorPanel({ config, preset, readings, onChange }: {
+  config: SensorConfig,
+  preset: SensorPresetId | 'custom',
+  readings: SensorReadings,
+  onChange: (config: SensorConfig, preset: SensorPresetId | 'custom') => void
+}) {
+  return (
+    <div>
+      <label className="text-sm font-bold flex items-center gap-2 mb-2"><Satellite className="w-4 h-4 text-primary"/> Sensors</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        The flight controller never sees the true state, only its sensors: an IMU for rotation rates and acceleration, GPS for position, the barometer for altitude and the compass for heading, each with its own errors.
+      </p>
+
+      <div className="grid grid-cols-3 gap-1 bg-background/50 p-1 rounded-lg border border-border/50 mb-2">
+        {(Object.keys(SENSOR_PRESETS) as SensorPresetId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(SENSOR_PRESETS[id].config, id)}
+            className={cn("py-1.5 text-xs font-bold rounded-md transition-all", preset === id ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground")}
+          >
+            {SENSOR_PRESETS[id].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-4 min-h-[2rem]">
+        {preset === 'custom' ? 'Custom sensor settings.' : SENSOR_PRESETS[preset].desc}
+      </p>
+
+      {/* What the sensors report right now */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs bg-background/50 p-3 rounded-lg border border-border/50 mb-4">
+        <div className="text-muted-foreground">GPS</div>
+        <div className={cn("font-mono text-right", readings.gps ? "text-emerald-500" : "text-red-500")}>
+          {readings.gps ? `3D fix, HDOP ${readings.gps.hdop.toFixed(1)}` : 'NO FIX'}
+        </div>
+        <div className="text-muted-foreground">Baro altitude</div>
+        <div className="font-mono text-right">{readings.baroAltitude.toFixed(2)}m</div>
+        <div className="text-muted-foreground">Accel Z</div>
+        <div className="font-mono text-right">{readings.accel[1].toFixed(2)}m/s²</div>
+      </div>
+
+      <div className="space-y-5">
+        {GROUPS.map(({ title, sliders }) => (
+          <div key={title} className="space-y-3">
+            <div className="text-xs font-bold uppercase tracking-wider text-muted-foreground">{title}</div>
+            {sliders.map(({ key, label, max, step, unit }) => (
+              <div key={key}>
+                <div className="flex justify-between mb-1">
+                  <span className="text-xs font-bold">{label}</span>
+                  <span className="text-xs font-mono text-primary">{config[key]}{unit}</span>
+                </div>
+                <input
+                  type="range"
+                  min={key === 'gpsRate' ? 1 : 0} max={max} step={step}
+                  value={config[key]}
+                  onChange={(e) => onChange({ ...config, [key]: parseFloat(e.target.value) }, 'custom')}
+                  className="w-full accent-primary"
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Activity, Play } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { STEP_UNITS, StepAxis, StepMetrics, StepTest, analyzeStepResponse } from '../../lib/sim/stepResponse';
+
+const AXES: { id: StepAxis; label: string; magnitude: number }[] = [
+  { id: 'roll', label: 'Roll', magnitude: 10 },
+  { id: 'pitch', label: 'Pitch', magnitude: 10 },
+  { id: 'yaw', label: 'Yaw', magnitude: 45 },
+  { id: 'altitude', label: 'Altitude', magnitude: 1 },
+];
+
+const MAX_RUNS = 5;
+const PLOT_W = 300;
+const PLOT_H = 140;
+
+interface StepRun {
+  id: number;
+  test: StepTest;
+  metrics: StepMetrics;
+}
+
+function ResponsePlot({ run, previous }: { run: StepRun, previous?: StepRun }) {
+  const { test } = run;
+  const values = [test.initial, test.target, ...test.samples.map(s => s.measured)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = (max - min) * 0.1 || 1;
+  const x = (t: number) => (t / test.duration) * PLOT_W;
+  const y = (v: number) => PLOT_H - ((v - (min - pad)) / (max - min + 2 * pad)) * PLOT_H;
+  const line = (t: StepTest) => t.samples.map(s => `${x(s.t).toFixed(1)},${y(s.measured - t.initial + test.initial).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} className="w-full h-36 bg-[#1e1e1e] rounded-lg border border-border font-mono">
+      {[0.25, 0.5, 0.75].map(f => (
+        <line key={f} x1={f * PLOT_W} y1={0} x2={f * PLOT_W} y2={PLOT_H} stroke="#27272a" strokeWidth="1" />
+      ))}
+      <polyline points={`0,${y(test.initial)} 0,${y(test.target)} ${PLOT_W},${y(test.target)}`} fill="none" stroke="#a855f7" strokeWidth="1.5" strokeDasharray="4 3" />
+      {previous && previous.test.axis === test.axis && (
+        <polyline points={line(previous.test)} fill="none" stroke="#10b981" strokeOpacity="0.3" strokeWidth="1.5" />
+      )}
+      <polyline points={line(test)} fill="none" stroke="#10b981" strokeWidth="2" />
+      <text x={4} y={12} fill="#a855f7" fontSize="9">setpoint</text>
+      <text x={4} y={24} fill="#10b981" fontSize="9">measured</text>
+      <text x={PLOT_W - 4} y={PLOT_H - 4} fill="#71717a" fontSize="9" textAnchor="end">{test.duration}s</text>
+    </svg>
+  );
+}
+
+const fmt = (v: number | null, digits = 2, unit = 's') => (v === null ? '—' : `${v.toFixed(digits)}${unit}`);
+
+export default function StepResponsePanel({ canRun, onRunTest }: {
+  canRun: boolean,
+  onRunTest: (axis: StepAxis, magnitude: number) => Promise<StepTest | null>
+}) {
+  const [axis, setAxis] = useState<StepAxis>('roll');
+  const [magnitude, setMagnitude] = useState(10);
+  const [running, setRunning] = useState(false);
+  const [runs, setRuns] = useState<StepRun[]>([]);
+
+  const selectAxis = (id: StepAxis) => {
+    setAxis(id);
+    setMagnitude(AXES.find(a => a.id === id)!.magnitude);
+  };
+
+  const runTest = async () => {
+    setRunning(true);
+    const test = await onRunTest(axis, magnitude);
+    setRunning(false);
+    if (!test) return;
+    setRuns(prev => [{ id: (prev[0]?.id ?? 0) + 1, test, metrics: analyzeStepResponse(test) }, ...prev].slice(0, MAX_RUNS));
+  };
+
+  const latest = runs[0];
+  const unit = latest ? STEP_UNITS[latest.test.axis] : '';
+
+  return (
+    <div>
+      <label className="text-sm font-bold flex items-center gap-2 mb-2"><Activity className="w-4 h-4 text-emerald-500"/> Step Response Analyzer</label>
+      <p className="text-xs text-muted-foreground mb-3">Commands a sudden step and records how the controller tracks it. Hover first, then compare runs as you change gains.</p>
+
+      <div className="flex bg-background/50 p-1 rounded-lg border border-border/50 mb-3">
+        {AXES.map(a => (
+          <button
+            key={a.id}
+            onClick={() => selectAxis(a.id)}
+            className={cn("flex-1 py-1.5 text-xs font-bold rounded-md transition-all", axis === a.id ? "bg-emerald-500 text-white" : "text-muted-foreground hover:text-foreground")}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <div className="flex-1 flex items-center gap-2 bg-background/50 rounded-lg border border-border/50 px-3">
+          <span className="text-xs text-muted-foreground">Step</span>
+          <input
+            type="number"
+            value={magnitude}
+            step={axis === 'altitude' ? 0.5 : 5}
+            onChange={(e) => setMagnitude(parseFloat(e.target.value) || 0)}
+            className="w-full bg-transparent text-sm font-mono py-1.5 focus:outline-none"
+          />
+          <span className="text-xs text-muted-foreground">{STEP_UNITS[axis]}</span>
+        </div>
+        <button
+          onClick={runTest}
+          disabled={!canRun || running}
+          className="px-4 flex items-center gap-2 rounded-lg bg-emerald-500 text-white text-xs font-bold hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Play className="w-3 h-3" /> {running ? 'Recording...' : 'Run'}
+        </button>
+      </div>
+      {!canRun && <p className="text-xs text-yellow-500 mb-3">Take off and hover before running a step test.</p>}
+
+      {latest && (
+        <>
+          <ResponsePlot run={latest} previous={runs[1]} />
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            {[
+              ['Rise Time', fmt(latest.metrics.riseTime)],
+              ['Overshoot', `${latest.metrics.overshoot.toFixed(1)}%`],
+              ['Settling Time', fmt(latest.metrics.settlingTime)],
+              ['SS Error', fmt(latest.metrics.steadyStateError, 2, unit)],
+            ].map(([label, value]) => (
+              <div key={label} className="p-2 bg-background rounded-lg border border-border/50">
+                <div className="text-[10px] text-muted-foreground uppercase tracking-wider">{label}</div>
+                <div className="font-mono text-sm font-bold">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {runs.length > 1 && (
+            <table className="w-full mt-3 text-xs font-mono">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-normal">#</th><th className="font-normal">Axis</th><th className="font-normal">Rise</th><th className="font-normal">OS</th><th className="font-normal">Settle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.id} className={run === latest ? "text-emerald-500" : "text-foreground/70"}>
+                    <td>{run.id}</td>
+                    <td>{run.test.axis}</td>
+                    <td>{fmt(run.metrics.riseTime)}</td>
+                    <td>{run.metrics.overshoot.toFixed(0)}%</td>
+                    <td>{fmt(run.metrics.settlingTime)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Wind } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { WIND_PRESETS, WindConfig, WindPresetId } from '../../lib/sim/wind';
+
+const SLIDERS: { key: keyof WindConfig; label: string; max: number; step: number; unit: string }[] = [
+  { key: 'speed', label: 'Mean Wind (at 10m)', max: 15, step: 0.5, unit: 'm/s' },
+  { key: 'direction', label: 'Direction (from)', max: 355, step: 5, unit: '°' },
+  { key: 'gustStrength', label: 'Gust Strength', max: 8, step: 0.5, unit: 'm/s' },
+  { key: 'turbulence', label: 'Turbulence (RMS)', max: 3, step: 0.1, unit: 'm/s' },
+  { key: 'shearExponent', label: 'Shear Exponent', max: 0.4, step: 0.01, unit: '' },
+];
+
+export default function WindPanel({ config, preset, onChange }: {
+  config: WindConfig,
+  preset: WindPresetId | 'custom',
+  onChange: (config: WindConfig, preset: WindPresetId | 'custom') => void
+}) {
+  return (
+    <div>
+      <label className="text-sm font-bold flex items-center gap-2 mb-2"><Wind className="w-4 h-4 text-primary"/> Wind & Turbulence</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        Wind pushes on the airframe through drag, so the controller has to lean into it. Speed grows with height (shear), gusts arrive every few seconds, and Dryden turbulence adds random buffeting.
+      </p>
+
+      <div className="grid grid-cols-4 gap-1 bg-background/50 p-1 rounded-lg border border-border/50 mb-2">
+        {(Object.keys(WIND_PRESETS) as WindPresetId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(WIND_PRESETS[id].config, id)}
+            className={cn("py-1.5 text-xs font-bold rounded-md transition-all", preset === id ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground")}
+          >
+            {WIND_PRESETS[id].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-4 min-h-[2rem]">
+        {preset === 'custom' ? 'Custom wind settings.' : WIND_PRESETS[preset].desc}
+      </p>
+
+      <div className="space-y-4">
+        {SLIDERS.map(({ key, label, max, step, unit }) => (
+          <div key={key}>
+            <div className="flex justify-between mb-1">
+              <span className="text-xs font-bold">{label}</span>
+              <span className="text-xs font-mono text-primary">{config[key]}{unit}</span>
+            </div>
+            <input
+              type="range"
+              min="0" max={max} step={step}
+              value={config[key]}
+              onChange={(e) => onChange({ ...config, [key]: parseFloat(e.target.value) }, 'custom')}
+              className="w-full accent-primary"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { BuiltinParam } from './interpreter';
+
+// The flight commands a script can call, with their parameters. The simulator supplies what
+// each one does; defaults left out here depend on the airframe and are filled in there.
+export const FLIGHT_COMMANDS = {
+  takeoff: [{ name: 'altitude', type: 'number', optional: true }],
+  land: [{ name: 'speed', type: 'number', optional: true }],
+  hover: [{ name: 'seconds', type: 'number', default: 1 }],
+  forward: [{ name: 'distance', type: 'number', optional: true }],
+  backward: [{ name: 'distance', type: 'number', default: 1 }],
+  left: [{ name: 'distance', type: 'number', default: 1 }],
+  right: [{ name: 'distance', type: 'number', default: 1 }],
+  yaw: [{ name: 'degrees', type: 'number', default: 90 }],
+  waypoint: [{ name: 'x', type: 'number' }, { name: 'z', type: 'number' }],
+  set_mode: [{ name: 'mode', type: 'string' }],
+  launch: [{ name: 'kind', type: 'string', default: 'hand' }],
+  loiter: [{ name: 'radius', type: 'number', default: 30 }, { name: 'turns', type: 'number', default: 1 }],
+  climbing_turn: [{ name: 'degrees', type: 'number', default: 90 }, { name: 'climb', type: 'number', default: 5 }],
+  set_airspeed: [{ name: 'speed', type: 'number', optional: true }],
+  transition_forward: [],
+  transition_back: [],
+  inject_fault: [{ name: 'fault', type: 'string' }, { name: 'motor', type: 'number', default: 1 }],
+  clear_faults: [],
+  print_telemetry: [],
+} satisfies Record<string, BuiltinParam[]>;
+
+export type FlightCommand = keyof typeof FLIGHT_COMMANDS;
+
+// Live readings a script can query. Position, heading and speed are the flight controller's
+// estimate, as a ground station would receive them.
+export const TELEMETRY_QUERIES = {
+  altitude: [],
+  position: [],
+  heading: [],
+  groundspeed: [],
+  battery_voltage: [],
+  battery_percent: [],
+  wind: [],
+  mission_status: [],
+} satisfies Record<string, BuiltinParam[]>;
+
+export type TelemetryQuery = keyof typeof TELEMETRY_QUERIES;
+
+export type MissionStatus = 'none' | 'in_progress' | 'complete';
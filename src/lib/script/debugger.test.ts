@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'node:events';
+import { test } from 'node:test';
+import { PausedAt, createScriptDebugger, debugStatement, resumeScript, toggleBreakpoint } from './debugger';
+import { StatementEvent, Value, runScript } from './interpreter';
+import { parse } from './parser';
+
+const statement = (line: number, globals: [string, Value][] = []): StatementEvent =>
+  ({ line, column: 1, globals: new Map(globals), locals: null, functionName: null });
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('pauses at a breakpoint with the variables in view, until resumed', async () => {
+  const dbg = createScriptDebugger();
+  toggleBreakpoint(dbg, 2);
+  const pauses: (PausedAt | null)[] = [];
+  let done = false;
+  debugStatement(dbg, statement(2, [['x', 1]]), new AbortController().signal, at => pauses.push(at)).then(() => { done = true; });
+  await tick();
+  assert.equal(done, false);
+  assert.deepEqual(pauses, [{ line: 2, functionName: null, variables: [{ name: 'x', value: 1, local: false }] }]);
+  resumeScript(dbg, false);
+  await tick();
+  assert.equal(done, true);
+  assert.deepEqual(pauses.at(-1), null);
+  assert.equal(dbg.resume, null);
+});
+
+test('other lines run straight through', async () => {
+  const dbg = createScriptDebugger();
+  toggleBreakpoint(dbg, 2);
+  toggleBreakpoint(dbg, 2);
+  let paused = false;
+  await debugStatement(dbg, statement(2), new AbortController().signal, () => { paused = true; });
+  assert.equal(paused, false);
+});
+
+test('stepping pauses at every statement, and stopping releases the pause', async () => {
+  const dbg = createScriptDebugger();
+  dbg.pauseRequested = true;
+  const controller = new AbortController();
+  const lines: number[] = [];
+  const run = runScript(parse('x = 1\ny = 2\nz = 3'), {
+    builtins: {},
+    shouldStop: () => controller.signal.aborted,
+    onStatement: event => debugStatement(dbg, event, controller.signal, at => { if (at) lines.push(at.line); }),
+  });
+  await tick();
+  resumeScript(dbg, true);
+  await tick();
+  controller.abort();
+  await run;
+  assert.deepEqual(lines, [1, 2]);
+});
+
+test('resuming removes the abort listener, so a long step-through leaves none behind', async () => {
+  const dbg = createScriptDebugger();
+  const { signal } = new AbortController();
+  for (let i = 0; i < 50; i++) {
+    dbg.pauseRequested = true;
+    const paused = debugStatement(dbg, statement(i + 1), signal, () => {});
+    assert.equal(getEventListeners(signal, 'abort').length, 1);
+    resumeScript(dbg, false);
+    await paused;
+  }
+  assert.equal(getEventListeners(signal, 'abort').length, 0);
+});
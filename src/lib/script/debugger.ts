@@ -0,0 +1,59 @@
+import { StatementEvent, Value, isScriptObject } from './interpreter';
+
+// Breakpoints and stepping for a running script, driven through the interpreter's onStatement hook.
+// Pausing is an unresolved promise the interpreter awaits; resuming resolves it.
+export interface ScriptDebugger {
+  breakpoints: Set<number>; // Lines to pause before
+  pauseRequested: boolean; // Pause before the next statement, wherever it is: Pause, and Step once resumed
+  resume: (() => void) | null; // Set while paused
+}
+
+export interface PausedAt {
+  line: number;
+  functionName: string | null;
+  variables: { name: string; value: Value; local: boolean }[];
+}
+
+export const createScriptDebugger = (): ScriptDebugger => ({ breakpoints: new Set(), pauseRequested: false, resume: null });
+
+export function toggleBreakpoint(dbg: ScriptDebugger, line: number) {
+  if (dbg.breakpoints.has(line)) dbg.breakpoints.delete(line);
+  else dbg.breakpoints.add(line);
+}
+
+// The variables in view, locals first. Functions and modules are left out; they don't change as a
+// script runs.
+const isFixture = (value: Value) => value !== null && typeof value === 'object' && !Array.isArray(value)
+  && (value.kind === 'function' || value.kind === 'builtin' || (isScriptObject(value) && value.typeName === 'module'));
+
+function visibleVariables({ globals, locals }: StatementEvent): PausedAt['variables'] {
+  const listed = (scope: Map<string, Value>, local: boolean) => [...scope]
+    .filter(([, value]) => !isFixture(value))
+    .map(([name, value]) => ({ name, value, local }));
+  const shadowed = (name: string) => locals?.has(name);
+  return [...(locals ? listed(locals, true) : []), ...listed(globals, false).filter(v => !shadowed(v.name))];
+}
+
+// The onStatement hook: pauses before a breakpoint line or when asked to, and waits there until
+// resumed or the script is stopped
+export async function debugStatement(dbg: ScriptDebugger, event: StatementEvent, signal: AbortSignal, onPause: (at: PausedAt | null) => void) {
+  if (signal.aborted || !(dbg.pauseRequested || dbg.breakpoints.has(event.line))) return;
+  dbg.pauseRequested = false;
+  onPause({ line: event.line, functionName: event.functionName, variables: visibleVariables(event) });
+  let stop = () => {};
+  await new Promise<void>(resolve => {
+    dbg.resume = resolve;
+    stop = () => resolve();
+    signal.addEventListener('abort', stop, { once: true });
+  });
+  // Resumed or stepped: the listener goes, so stepping through a long loop doesn't pile them up
+  signal.removeEventListener('abort', stop);
+  dbg.resume = null;
+  onPause(null);
+}
+
+// Continues a paused script. Stepping runs one statement and pauses again before the next.
+export function resumeScript(dbg: ScriptDebugger, step: boolean) {
+  dbg.pauseRequested = step;
+  dbg.resume?.();
+}
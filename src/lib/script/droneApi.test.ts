@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SandboxMethod, checkSandboxCall } from './droneApi';
+
+test('calls from the worker are checked and their defaults filled in', () => {
+  assert.deepEqual(checkSandboxCall('hover', []), [1]);
+  assert.deepEqual(checkSandboxCall('takeoff', []), [undefined]);
+  assert.deepEqual(checkSandboxCall('waypoint', [3, -4]), [3, -4]);
+  assert.throws(() => checkSandboxCall('waypoint', [3]), /missing its 'z' argument/);
+  assert.throws(() => checkSandboxCall('forward', ['far']), /expects a number/);
+  assert.throws(() => checkSandboxCall('forward', [Infinity]), /expects a number/);
+  assert.throws(() => checkSandboxCall('hover', [1, 2]), /at most 1 arguments?/);
+});
+
+test('anything else is an unknown drone command, Object.prototype names included', () => {
+  for (const name of ['fly', 'toString', 'constructor', '__proto__']) {
+    assert.throws(() => checkSandboxCall(name as SandboxMethod, []), /^Error: Unknown drone command/, name);
+  }
+});
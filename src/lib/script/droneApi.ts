@@ -0,0 +1,138 @@
+import { FAULTS } from '../sim/faults';
+import { FLIGHT_MODES } from '../sim/flightModes';
+import { FLIGHT_COMMANDS, FlightCommand, TELEMETRY_QUERIES, TelemetryQuery } from './commands';
+import { BuiltinParam, Value } from './interpreter';
+
+// The typed Drone API for TypeScript and JavaScript scripts. Scripts run in a Web Worker and reach
+// the simulator only through these messages; each drone method is one call the host answers.
+export type HostMessage =
+  | { type: 'start'; code: string } // Compiled JavaScript, run as the body of an async function
+  | { type: 'result'; id: number; value: Value }
+  | { type: 'failure'; id: number; message: string }; // The call was refused; it throws in the script
+
+export type WorkerMessage =
+  | { type: 'call'; id: number; method: SandboxMethod; args: unknown[] }
+  | { type: 'log'; text: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// What the host carries out: the script language's commands and queries, plus sleep
+export type SandboxMethod = FlightCommand | TelemetryQuery | 'sleep';
+
+// Drone methods by their camelCase name. goto(), position() and waitUntil() are adapted in the worker.
+export const DRONE_METHODS: Record<string, FlightCommand | TelemetryQuery> = {
+  takeoff: 'takeoff',
+  land: 'land',
+  hover: 'hover',
+  forward: 'forward',
+  backward: 'backward',
+  left: 'left',
+  right: 'right',
+  yaw: 'yaw',
+  setMode: 'set_mode',
+  launch: 'launch',
+  loiter: 'loiter',
+  climbingTurn: 'climbing_turn',
+  setAirspeed: 'set_airspeed',
+  transitionForward: 'transition_forward',
+  transitionBack: 'transition_back',
+  injectFault: 'inject_fault',
+  clearFaults: 'clear_faults',
+  printTelemetry: 'print_telemetry',
+  altitude: 'altitude',
+  heading: 'heading',
+  groundspeed: 'groundspeed',
+  batteryVoltage: 'battery_voltage',
+  batteryPercent: 'battery_percent',
+  wind: 'wind',
+  missionStatus: 'mission_status',
+};
+
+const SLEEP_PARAMS: BuiltinParam[] = [{ name: 'seconds', type: 'number' }];
+
+// Checks a call from the worker against the method's parameters and fills in defaults. Worker
+// arguments are untyped at run time, whatever the .d.ts promised. Throws with the reason if wrong.
+export function checkSandboxCall(method: SandboxMethod, args: unknown[]): (Value | undefined)[] {
+  const params: BuiltinParam[] = method === 'sleep' ? SLEEP_PARAMS
+    : Object.hasOwn(FLIGHT_COMMANDS, method) ? FLIGHT_COMMANDS[method as FlightCommand]
+    : Object.hasOwn(TELEMETRY_QUERIES, method) ? TELEMETRY_QUERIES[method as TelemetryQuery]
+    : null;
+  if (!params) throw new Error(`Unknown drone command ${method}()`);
+  if (args.length > params.length) throw new Error(`${method}() takes at most ${params.length} arguments, got ${args.length}`);
+  return params.map((param, i) => {
+    const arg = args[i];
+    if (arg === undefined || arg === null) {
+      if (param.default === undefined && !param.optional) throw new Error(`${method}() is missing its '${param.name}' argument`);
+      return param.default;
+    }
+    const ok = param.type === 'number' ? typeof arg === 'number' && Number.isFinite(arg) : param.type === 'string' ? typeof arg === 'string' : true;
+    if (!ok) throw new Error(`${method}() expects a ${param.type} for ${param.name}, got ${JSON.stringify(arg)}`);
+    return arg as Value;
+  });
+}
+
+const union = (names: string[]) => names.map(n => `'${n}'`).join(' | ');
+
+// Declarations for the editor and for checking scripts locally, as drone.d.ts
+export const DRONE_API_DTS = `// Flight script API. Every method returns a promise that settles once the
+// drone has carried the command out (or it was refused, which the terminal explains).
+
+type FlightModeName = ${union(Object.keys(FLIGHT_MODES))};
+type FaultName = ${union(Object.keys(FAULTS))};
+
+interface Position {
+  x: number; // m, +x is left of the launch heading
+  y: number; // m, altitude
+  z: number; // m, +z is north
+}
+
+interface Drone {
+  /** Arms and climbs to the altitude in meters (2 by default). MAV_CMD_NAV_TAKEOFF */
+  takeoff(altitude?: number): Promise<void>;
+  /** Lands and disarms; a speed above 0.5 m/s comes down faster until the last 2 m. MAV_CMD_NAV_LAND */
+  land(speed?: number): Promise<void>;
+  /** Holds position for the given seconds */
+  hover(seconds?: number): Promise<void>;
+  forward(distance?: number): Promise<void>;
+  backward(distance?: number): Promise<void>;
+  left(distance?: number): Promise<void>;
+  right(distance?: number): Promise<void>;
+  /** Turns left by the given degrees; negative turns right. MAV_CMD_CONDITION_YAW */
+  yaw(degrees?: number): Promise<void>;
+  /** Flies to a point at the current altitude. MAV_CMD_NAV_WAYPOINT */
+  goto(target: { x: number; z: number }): Promise<void>;
+  setMode(mode: FlightModeName): Promise<void>;
+
+  /** Fixed-wing: hand-throws or catapults the plane and climbs out */
+  launch(kind?: 'hand' | 'catapult'): Promise<void>;
+  loiter(radius?: number, turns?: number): Promise<void>;
+  climbingTurn(degrees?: number, climb?: number): Promise<void>;
+  setAirspeed(speed?: number): Promise<void>;
+  /** Quadplane: from hover to wing-borne flight, and back */
+  transitionForward(): Promise<void>;
+  transitionBack(): Promise<void>;
+
+  injectFault(fault: FaultName, motor?: number): Promise<void>;
+  clearFaults(): Promise<void>;
+  printTelemetry(): Promise<void>;
+
+  /** Live telemetry from the flight controller's estimate */
+  altitude(): Promise<number>;
+  position(): Promise<Position>;
+  /** Compass degrees, clockwise from north */
+  heading(): Promise<number>;
+  groundspeed(): Promise<number>;
+  batteryVoltage(): Promise<number>;
+  batteryPercent(): Promise<number>;
+  /** Wind speed at the drone, m/s */
+  wind(): Promise<number>;
+  missionStatus(): Promise<'none' | 'in_progress' | 'complete'>;
+
+  /** Re-checks the condition every 50 ms; false if the timeout (seconds, 10 by default) passes first */
+  waitUntil(condition: () => boolean | Promise<boolean>, timeout?: number): Promise<boolean>;
+}
+
+declare const drone: Drone;
+/** Waits without blocking the script's time limit */
+declare function sleep(seconds: number): Promise<void>;
+`;
@@ -0,0 +1,73 @@
+import { DRONE_METHODS, HostMessage, SandboxMethod, WorkerMessage } from './droneApi';
+
+// Runs a TypeScript/JavaScript flight script inside a Web Worker. The worker is the sandbox: it has
+// no DOM and no access to the page. A script can still reach the worker's globals, so it may post
+// messages of its own; the protection is the host checking every call with checkSandboxCall().
+
+const CONDITION_POLL = 0.05; // s between checks in waitUntil()
+
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+let nextId = 0;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+function call(method: SandboxMethod, args: unknown[]): Promise<unknown> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    post({ type: 'call', id, method, args });
+  });
+}
+
+const sleep = (seconds: number) => call('sleep', [seconds]) as Promise<void>;
+
+const drone: Record<string, (...args: unknown[]) => Promise<unknown>> = Object.fromEntries(
+  Object.entries(DRONE_METHODS).map(([name, method]) => [name, (...args: unknown[]) => call(method, args)]),
+);
+drone.goto = (target) => {
+  const { x, z } = (target ?? {}) as { x?: unknown; z?: unknown };
+  return call('waypoint', [x, z]);
+};
+drone.position = async () => {
+  const [x, y, z] = await call('position', []) as number[];
+  return { x, y, z };
+};
+drone.waitUntil = async (condition, timeout = 10) => {
+  if (typeof condition !== 'function') throw new TypeError('waitUntil() needs a function, e.g. async () => (await drone.altitude()) > 5');
+  const start = performance.now();
+  for (;;) {
+    if (await condition()) return true;
+    if (performance.now() - start >= (timeout as number) * 1000) return false;
+    await sleep(CONDITION_POLL);
+  }
+};
+
+const format = (values: unknown[]) => values.map(v => (typeof v === 'string' ? v : JSON.stringify(v))).join(' ');
+const scriptConsole = {
+  log: (...values: unknown[]) => post({ type: 'log', text: format(values) }),
+  warn: (...values: unknown[]) => post({ type: 'log', text: `WARNING: ${format(values)}` }),
+  error: (...values: unknown[]) => post({ type: 'log', text: `ERROR: ${format(values)}` }),
+};
+
+// Names the script sees as undefined in place of the worker's own, so it doesn't use them by
+// accident. This isn't a barrier: Function('return this')() still returns the real global scope.
+const SHADOWED = ['self', 'globalThis', 'postMessage', 'onmessage', 'close', 'importScripts', 'fetch', 'XMLHttpRequest', 'WebSocket', 'indexedDB', 'caches'];
+
+self.onmessage = async (event: MessageEvent<HostMessage>) => {
+  const message = event.data;
+  if (message.type === 'result' || message.type === 'failure') {
+    const waiting = pending.get(message.id);
+    pending.delete(message.id);
+    if (message.type === 'result') waiting?.resolve(message.value);
+    else waiting?.reject(new Error(message.message));
+    return;
+  }
+
+  try {
+    const run = new Function('drone', 'sleep', 'console', ...SHADOWED, `"use strict"; return (async () => {\n${message.code}\n})();`);
+    await run(drone, sleep, scriptConsole, ...SHADOWED.map(() => undefined));
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? `${error.name}: ${error.message}` : String(error) });
+  }
+};
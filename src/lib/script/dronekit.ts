@@ -0,0 +1,292 @@
+import { hasPositionFix } from '../sim/faults';
+import { FLIGHT_MODES, FlightMode, Sticks } from '../sim/flightModes';
+import { Vec3, toYawPitchRoll, wrapAngle } from '../sim/math';
+import { FlightSim } from '../sim/simulation';
+import { Builtin, BuiltinFunction, BuiltinParam, ScriptObject, Value, formatValue, isScriptObject } from './interpreter';
+
+// A DroneKit-compatible layer for the Python-like language, so a companion-computer script such as
+// `vehicle.mode = VehicleMode("GUIDED")` can be rehearsed unchanged. Scripts reach it through
+// `from dronekit import connect, VehicleMode` and `import time`.
+
+// What the layer needs from the simulator. Unlike the flight commands, DroneKit's simple_takeoff()
+// and simple_goto() return at once and leave the script to poll the vehicle.
+export interface VehicleLink {
+  sim: () => FlightSim; // Live, re-read on every access
+  batteryPercent: () => number;
+  setMode: (mode: FlightMode) => boolean; // Logs why if refused
+  setArmed: (armed: boolean) => boolean;
+  takeoff: (altitude: number) => void;
+  goto: (target: Vec3) => void;
+  setStick: (axis: keyof Sticks, value: number) => void; // An RC override on channels 1-4
+  sleep: (seconds: number) => Promise<void>; // Ends early when the script is stopped
+  log: (text: string) => void;
+}
+
+// Where the simulator's origin sits on the globe: ArduPilot SITL's default home at Canberra
+export const HOME_LOCATION = { lat: -35.363261, lon: 149.16523, alt: 584 }; // degrees, degrees, m above sea level
+const METERS_PER_DEGREE = 111319.5; // Along a meridian, on the WGS84 equatorial radius
+const EAST_METERS_PER_DEGREE = METERS_PER_DEGREE * Math.cos(HOME_LOCATION.lat * Math.PI / 180);
+
+// Local metres to latitude and longitude. +Z is north and +X is west.
+const toLatLon = ([x, , z]: Vec3) => ({
+  lat: HOME_LOCATION.lat + z / METERS_PER_DEGREE,
+  lon: HOME_LOCATION.lon - x / EAST_METERS_PER_DEGREE,
+});
+
+// ArduCopter's default channel order (AETR). Low PWM on the pitch channel pitches forward.
+const STICK_CHANNELS: Record<string, { axis: keyof Sticks; sign: number }> = {
+  1: { axis: 'roll', sign: 1 },
+  2: { axis: 'pitch', sign: -1 },
+  3: { axis: 'throttle', sign: 1 },
+  4: { axis: 'yaw', sign: 1 },
+};
+const CHANNELS = 8;
+const PWM_CENTER = 1500; // µs
+const PWM_RANGE = 500; // µs from centre to full stick
+
+// Copter modes by their DroneKit names. GUIDED flies to the script's targets, which Loiter holds here.
+const GUIDED = 'GUIDED';
+const modeNames = () => [GUIDED, ...Object.keys(FLIGHT_MODES)].join(', ');
+
+const none = (value: Value | undefined) => value === undefined || value === null;
+
+const method = (name: string, params: BuiltinParam[], call: Builtin['call']): BuiltinFunction => ({ kind: 'builtin', name, builtin: { params, call } });
+
+// Read-only state whose attributes are computed when read, like DroneKit's attribute classes
+function liveObject(typeName: string, attributes: Record<string, () => Value>, repr?: () => string): ScriptObject {
+  return { kind: 'object', typeName, get: name => Object.hasOwn(attributes, name) ? attributes[name]() : undefined, repr };
+}
+
+// A plain data class, such as a location a script builds: fixed fields it can read and change
+function dataObject(typeName: string, fields: Record<string, Value>, repr: () => string): ScriptObject {
+  return {
+    kind: 'object',
+    typeName,
+    get: name => Object.hasOwn(fields, name) ? fields[name] : undefined,
+    set: (name, value) => {
+      if (!Object.hasOwn(fields, name)) throw new Error(`${typeName} has no attribute '${name}'`);
+      fields[name] = value;
+    },
+    repr,
+  };
+}
+
+const location = (typeName: string, lat: Value, lon: Value, alt: Value) => {
+  const fields = { lat, lon, alt };
+  return dataObject(typeName, fields, () => `${typeName}:lat=${formatValue(fields.lat)},lon=${formatValue(fields.lon)},alt=${formatValue(fields.alt)}`);
+};
+
+const vehicleMode = (name: string) => dataObject('VehicleMode', { name }, () => `VehicleMode:${name}`);
+
+function createVehicle(link: VehicleLink): ScriptObject {
+  let guided = false; // The script asked for GUIDED, flown as Loiter
+  const overrides = new Map<string, number>(); // PWM by channel number
+
+  const modeName = () => {
+    const { mode } = link.sim().flightMode;
+    if (mode !== 'LOITER') guided = false; // Left by a failsafe or the pilot
+    return guided ? GUIDED : mode;
+  };
+  // ArduPilot only takes position targets from a companion computer in GUIDED
+  const requireGuided = (what: string) => {
+    if (modeName() === GUIDED) return true;
+    link.log(`ERROR: ${what} refused: the vehicle must be in GUIDED mode (now ${modeName()}).`);
+    return false;
+  };
+
+  const setMode = (value: Value) => {
+    const name = isScriptObject(value) && value.typeName === 'VehicleMode' ? value.get('name') : undefined;
+    if (typeof name !== 'string') throw new Error('vehicle.mode must be set to a VehicleMode, e.g. VehicleMode("GUIDED")');
+    const mode = name.toUpperCase();
+    if (mode !== GUIDED && !(mode in FLIGHT_MODES)) throw new Error(`Mode ${name} isn't simulated. Use one of: ${modeNames()}`);
+    if (link.setMode(mode === GUIDED ? 'LOITER' : mode as FlightMode)) guided = mode === GUIDED;
+  };
+
+  const channel = (key: Value) => {
+    const number = typeof key === 'string' ? Number(key) : key;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < 1 || number > CHANNELS) {
+      throw new Error(`RC channel must be 1-${CHANNELS}, got ${formatValue(key, true)}`);
+    }
+    return String(number);
+  };
+  // Sets or, with None or 0, releases one channel. Channels 1-4 move the sticks; the rest, such as a
+  // payload servo on channel 8, are only logged.
+  const override = (key: Value, value: Value) => {
+    const ch = channel(key);
+    if (value !== null && (typeof value !== 'number' || value < 0)) throw new Error(`Channel ${ch} override must be a PWM value in µs or None, got ${formatValue(value, true)}`);
+    const pwm = typeof value === 'number' && value > 0 ? value : null;
+    if (pwm === (overrides.get(ch) ?? null)) return;
+    if (pwm === null) overrides.delete(ch);
+    else overrides.set(ch, pwm);
+    const stick = STICK_CHANNELS[ch];
+    if (stick) link.setStick(stick.axis, pwm === null ? 0 : Math.max(-1, Math.min(1, stick.sign * (pwm - PWM_CENTER) / PWM_RANGE)));
+    link.log(pwm === null ? `RC override released on channel ${ch}` : `RC override: channel ${ch} = ${pwm} µs`);
+  };
+  const overridesObject: ScriptObject = {
+    kind: 'object',
+    typeName: 'ChannelsOverride',
+    get: () => undefined,
+    getItem: key => overrides.get(channel(key)) ?? null,
+    setItem: override,
+    repr: () => `{${[...overrides].map(([ch, pwm]) => `'${ch}': ${pwm}`).join(', ')}}`,
+  };
+  // What the flight controller receives on a channel: the override, else the pilot's stick
+  const channelPwm = (ch: string) => {
+    const stick = STICK_CHANNELS[ch];
+    const fallback = stick ? Math.round(PWM_CENTER + stick.sign * link.sim().sticks[stick.axis] * PWM_RANGE) : 1000;
+    return overrides.get(ch) ?? fallback;
+  };
+  const channels: ScriptObject = {
+    kind: 'object',
+    typeName: 'Channels',
+    get: name => name === 'overrides' ? overridesObject : undefined,
+    // `vehicle.channels.overrides = {'3': 1500}` replaces every override; `= {}` releases them all
+    set: (name, value) => {
+      if (name !== 'overrides') throw new Error(`Channels has no settable attribute '${name}'`);
+      if (value === null || typeof value !== 'object' || Array.isArray(value) || value.kind !== 'dict') {
+        throw new Error('vehicle.channels.overrides must be set to a dict, e.g. {"3": 1500}');
+      }
+      const wanted = new Map([...value.entries].filter(([, pwm]) => !none(pwm) && pwm !== 0).map(([key, pwm]) => [channel(key), pwm]));
+      for (const ch of [...overrides.keys()]) if (!wanted.has(ch)) override(ch, null);
+      for (const [ch, pwm] of wanted) override(ch, pwm);
+    },
+    getItem: key => channelPwm(channel(key)),
+    repr: () => `{${Array.from({ length: CHANNELS }, (_, i) => `'${i + 1}': ${channelPwm(String(i + 1))}`).join(', ')}}`,
+  };
+
+  const position = () => link.sim().estimate.position;
+  const globalLocation = (typeName: string, altitude: number) => {
+    const { lat, lon } = toLatLon(position());
+    return location(typeName, lat, lon, altitude);
+  };
+  const frames = liveObject('Locations', {
+    global_frame: () => globalLocation('LocationGlobal', HOME_LOCATION.alt + position()[1]),
+    global_relative_frame: () => globalLocation('LocationGlobalRelative', position()[1]),
+    local_frame: () => {
+      const [x, y, z] = position();
+      return dataObject('LocationLocal', { north: z, east: -x, down: -y }, () => `LocationLocal:north=${formatValue(z)},east=${formatValue(-x)},down=${formatValue(-y)}`);
+    },
+  });
+
+  // DroneKit reports angles in the NED frame: yaw clockwise from north, pitch nose-up
+  const attitude = () => {
+    const { yaw, pitch, roll } = toYawPitchRoll(link.sim().estimate.attitude);
+    const fields = { pitch: -pitch, yaw: wrapAngle(-yaw), roll };
+    return dataObject('Attitude', fields, () => `Attitude:pitch=${formatValue(fields.pitch)},yaw=${formatValue(fields.yaw)},roll=${formatValue(fields.roll)}`);
+  };
+  const groundspeed = () => {
+    const [vx, , vz] = link.sim().estimate.velocity;
+    return Math.hypot(vx, vz);
+  };
+
+  const attributes: Record<string, () => Value> = {
+    mode: () => vehicleMode(modeName()),
+    armed: () => link.sim().armed,
+    is_armable: () => !link.sim().crash && hasPositionFix(link.sim().faults),
+    ekf_ok: () => hasPositionFix(link.sim().faults),
+    system_status: () => {
+      const state = link.sim().crash ? 'EMERGENCY' : link.sim().armed ? 'ACTIVE' : 'STANDBY';
+      return dataObject('SystemStatus', { state }, () => `SystemStatus:${state}`);
+    },
+    location: () => frames,
+    attitude,
+    heading: () => Math.round(((-toYawPitchRoll(link.sim().estimate.attitude).yaw * 180 / Math.PI) % 360 + 360) % 360) % 360,
+    groundspeed,
+    airspeed: groundspeed, // No airspeed sensor on a multirotor; ArduPilot reports its estimate
+    velocity: () => {
+      const [vx, vy, vz] = link.sim().estimate.velocity;
+      return [vz, -vx, -vy];
+    },
+    battery: () => {
+      const { voltage, current } = link.sim().battery;
+      const level = Math.round(link.batteryPercent());
+      return dataObject('Battery', { voltage, current, level }, () => `Battery:voltage=${formatValue(voltage)},current=${formatValue(current)},level=${level}`);
+    },
+    gps_0: () => {
+      const [fix_type, satellites_visible] = hasPositionFix(link.sim().faults) ? [3, 10] : [0, 0];
+      return dataObject('GPSInfo', { fix_type, satellites_visible }, () => `GPSInfo:fix=${fix_type},num_sat=${satellites_visible}`);
+    },
+    home_location: () => {
+      const home = link.sim().flightMode.home;
+      return home && location('LocationGlobal', toLatLon(home).lat, toLatLon(home).lon, HOME_LOCATION.alt + home[1]);
+    },
+    channels: () => channels,
+
+    simple_takeoff: () => method('simple_takeoff', [{ name: 'alt', type: 'number' }], ([alt]) => {
+      if (!link.sim().armed) return link.log('ERROR: Takeoff refused: the vehicle is not armed.');
+      if (requireGuided('simple_takeoff()')) link.takeoff(alt as number);
+    }),
+    simple_goto: () => method('simple_goto', [
+      { name: 'location', type: 'any' },
+      { name: 'airspeed', type: 'number', optional: true },
+      { name: 'groundspeed', type: 'number', optional: true },
+    ], ([target]) => {
+      if (!isScriptObject(target) || (target.typeName !== 'LocationGlobalRelative' && target.typeName !== 'LocationGlobal')) {
+        throw new Error('expects a LocationGlobalRelative or LocationGlobal');
+      }
+      const [lat, lon, alt] = ['lat', 'lon', 'alt'].map(name => target.get(name));
+      if (typeof lat !== 'number' || typeof lon !== 'number') throw new Error(`${target.typeName} needs a lat and lon`);
+      const altitude = typeof alt !== 'number' ? link.sim().setpoint.position[1]
+        : target.typeName === 'LocationGlobal' ? alt - HOME_LOCATION.alt
+        : alt;
+      if (requireGuided('simple_goto()')) {
+        link.goto([-(lon - HOME_LOCATION.lon) * EAST_METERS_PER_DEGREE, altitude, (lat - HOME_LOCATION.lat) * METERS_PER_DEGREE]);
+      }
+    }),
+    wait_ready: () => method('wait_ready', [{ name: 'types', type: 'any', optional: true }], () => true),
+    flush: () => method('flush', [], () => null),
+    close: () => method('close', [], () => link.log('Vehicle connection closed.')),
+  };
+
+  const vehicle: ScriptObject = {
+    ...liveObject('Vehicle', attributes),
+    set: (name, value) => {
+      if (name === 'mode') return setMode(value);
+      if (name === 'armed') {
+        if (typeof value !== 'boolean') throw new Error('vehicle.armed must be set to True or False');
+        if (value !== link.sim().armed) link.setArmed(value);
+        return;
+      }
+      if (name === 'airspeed' || name === 'groundspeed') return link.log(`WARNING: vehicle.${name} isn't simulated; the drone flies at its own speed.`);
+      throw new Error(name in attributes ? `vehicle.${name} is read-only` : `Vehicle has no attribute '${name}'`);
+    },
+    repr: () => 'Vehicle',
+  };
+  return vehicle;
+}
+
+// The modules a DroneKit script imports: dronekit itself, and time for its polling loops
+export const DRONEKIT_MODULES = ['dronekit', 'time'];
+
+export function createDronekitModules(link: VehicleLink): Record<string, ScriptObject> {
+  let vehicle: ScriptObject | null = null; // One simulated vehicle, whatever the connection string
+
+  const dronekit = liveObject('module', {
+    connect: () => method('connect', [
+      { name: 'ip', type: 'string' },
+      { name: 'wait_ready', type: 'any', optional: true },
+      { name: 'baud', type: 'number', optional: true },
+      { name: 'heartbeat_timeout', type: 'number', optional: true },
+      { name: 'rate', type: 'number', optional: true },
+    ], ([ip]) => {
+      link.log(`Connected to the simulated vehicle (in place of ${ip}).`);
+      if (!vehicle) vehicle = createVehicle(link);
+      return vehicle;
+    }),
+    VehicleMode: () => method('VehicleMode', [{ name: 'name', type: 'string' }], ([name]) => vehicleMode(name as string)),
+    LocationGlobalRelative: () => method('LocationGlobalRelative', [
+      { name: 'lat', type: 'number' }, { name: 'lon', type: 'number' }, { name: 'alt', type: 'number', optional: true },
+    ], ([lat, lon, alt]) => location('LocationGlobalRelative', lat!, lon!, alt ?? null)),
+    LocationGlobal: () => method('LocationGlobal', [
+      { name: 'lat', type: 'number' }, { name: 'lon', type: 'number' }, { name: 'alt', type: 'number', optional: true },
+    ], ([lat, lon, alt]) => location('LocationGlobal', lat!, lon!, alt ?? null)),
+  }, () => "<module 'dronekit'>");
+
+  const time = liveObject('module', {
+    sleep: () => method('sleep', [{ name: 'seconds', type: 'number' }], async ([seconds]) => { await link.sleep(seconds as number); }),
+    time: () => method('time', [], () => Date.now() / 1000),
+    monotonic: () => method('monotonic', [], () => performance.now() / 1000),
+  }, () => "<module 'time'>");
+
+  return { dronekit, time };
+}
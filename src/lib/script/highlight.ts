@@ -0,0 +1,104 @@
+import { ScriptLanguage, TS_KEYWORDS, isBuiltinName, isDroneMethod } from './reference';
+import { KEYWORDS } from './tokenizer';
+
+// Syntax highlighting for the editor. Unlike the tokenizer it never fails: a script mid-edit,
+// with an unclosed string or bad indentation, still colours as far as it can.
+
+export type SpanKind = 'plain' | 'keyword' | 'builtin' | 'definition' | 'string' | 'number' | 'comment';
+
+export interface Span {
+  text: string;
+  kind: SpanKind;
+}
+
+const NUMBER = /(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/y;
+const NAME = /[A-Za-z_$][\w$]*/y;
+
+const readAt = (pattern: RegExp, text: string, pos: number) => {
+  pattern.lastIndex = pos;
+  return pattern.exec(text)?.[0] ?? null;
+};
+
+// The end of a string starting at pos, or of the line if it isn't closed there
+function stringEnd(text: string, pos: number): number {
+  const quote = text[pos];
+  for (let i = pos + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === quote) return i + 1;
+  }
+  return text.length;
+}
+
+// Splits each line of the script into coloured spans. TypeScript block comments carry across lines.
+export function highlight(code: string, language: ScriptLanguage): Span[][] {
+  const keywords = language === 'python' ? KEYWORDS : TS_KEYWORDS;
+  const definers = language === 'python' ? ['def'] : ['function', 'const', 'let'];
+  let inBlockComment = false;
+
+  return code.split('\n').map(text => {
+    const spans: Span[] = [];
+    const push = (value: string, kind: SpanKind) => {
+      const last = spans[spans.length - 1];
+      if (last?.kind === kind) last.text += value;
+      else spans.push({ text: value, kind });
+    };
+    let previousWord: string | null = null;
+    let afterDot: string | null = null; // The name before a `.`, while reading what follows it
+    let pos = 0;
+
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (inBlockComment) {
+        const end = text.indexOf('*/', pos);
+        const stop = end < 0 ? text.length : end + 2;
+        push(text.slice(pos, stop), 'comment');
+        inBlockComment = end < 0;
+        pos = stop;
+        continue;
+      }
+      if (language === 'python' ? ch === '#' : text.startsWith('//', pos)) {
+        push(text.slice(pos), 'comment');
+        break;
+      }
+      if (language === 'typescript' && text.startsWith('/*', pos)) {
+        inBlockComment = true;
+        push('/*', 'comment');
+        pos += 2;
+        continue;
+      }
+      if (ch === '"' || ch === "'" || (ch === '`' && language === 'typescript')) {
+        const end = stringEnd(text, pos);
+        push(text.slice(pos, end), 'string');
+        pos = end;
+        previousWord = null;
+        continue;
+      }
+      const number = /[\d.]/.test(ch) ? readAt(NUMBER, text, pos) : null;
+      if (number) {
+        push(number, 'number');
+        pos += number.length;
+        previousWord = null;
+        continue;
+      }
+      const name = readAt(NAME, text, pos);
+      if (name) {
+        const kind: SpanKind = keywords.has(name) ? 'keyword'
+          : previousWord !== null && definers.includes(previousWord) ? 'definition'
+          : afterDot === null ? (isBuiltinName(name, language) ? 'builtin' : 'plain')
+          : language === 'typescript' && afterDot === 'drone' && isDroneMethod(name) ? 'builtin'
+          : 'plain';
+        push(name, kind);
+        pos += name.length;
+        previousWord = name;
+        afterDot = null;
+        continue;
+      }
+      if (ch === '.') afterDot = previousWord ?? '';
+      else if (ch !== ' ' && ch !== '\t') afterDot = null;
+      if (ch !== ' ' && ch !== '\t' && ch !== '.') previousWord = null;
+      push(ch, 'plain');
+      pos++;
+    }
+    return spans;
+  });
+}
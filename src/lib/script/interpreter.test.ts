@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { STANDARD_BUILTINS, ScriptObject, Value, formatValue, runScript } from './interpreter';
+import { parse } from './parser';
+import { ScriptError } from './tokenizer';
+
+const MATH: ScriptObject = { kind: 'object', typeName: 'module', get: name => (name === 'pi' ? Math.PI : undefined) };
+
+// Runs a script and returns what it printed, one line per print()
+async function run(source: string): Promise<string[]> {
+  const printed: string[] = [];
+  await runScript(parse(source), {
+    builtins: {
+      ...STANDARD_BUILTINS,
+      print: { params: [{ name: 'values', type: 'any' }], variadic: true, call: (values) => { printed.push(values.map(v => formatValue(v as Value)).join(' ')); } },
+    },
+    modules: { math: MATH },
+    shouldStop: () => false,
+  });
+  return printed;
+}
+
+// The ScriptError a script stops with
+async function runError(source: string): Promise<ScriptError> {
+  try {
+    await run(source);
+  } catch (error) {
+    if (error instanceof ScriptError) return error;
+    throw error;
+  }
+  assert.fail(`${JSON.stringify(source)} ran without an error`);
+}
+
+test('arithmetic, strings and lists behave as in Python', async () => {
+  assert.deepEqual(await run('print(7 // 2, -7 % 3, 2 ** 3, 1 / 4)\nprint("ab" * 3, [1] + [2])\nprint(-2 ** 2)'), ['3 2 8 0.25', 'ababab [1, 2]', '-4']);
+});
+
+test('control flow: loops, break, continue and early return', async () => {
+  const source = `
+def first_even(values):
+    for v in values:
+        if v % 2 == 1:
+            continue
+        return v
+    return None
+
+total = 0
+i = 0
+while True:
+    i += 1
+    if i > 4:
+        break
+    total += i
+print(first_even([1, 3, 4, 6]), first_even([1]), total)
+`;
+  assert.deepEqual(await run(source), ['4 None 10']);
+});
+
+test('functions take keyword arguments and defaults, and check declared types', async () => {
+  assert.deepEqual(await run('def f(a, b=2):\n    return a * b\nprint(f(3), f(b=5, a=1))'), ['6 5']);
+  assert.match((await runError('def f(h: float):\n    pass\nf("high")')).message, /expects float/);
+});
+
+test('dicts and imports', async () => {
+  assert.deepEqual(await run('d = {"a": 1}\nd["b"] = 2\nfor k in d:\n    print(k, d[k])\nimport math\nprint(round(math.pi, 2))'), ['a 1', 'b 2', '3.14']);
+});
+
+test('errors name the line they happened on', async () => {
+  const error = await runError('x = 1\ny = x / 0');
+  assert.deepEqual([error.line, error.message], [2, 'Division by zero']);
+  assert.match((await runError('print(nope)')).message, /Unknown name 'nope'/);
+});
+
+test('runaway recursion stops at the call depth limit', async () => {
+  const error = await runError('def down(n):\n    return down(n + 1)\ndown(0)');
+  assert.match(error.message, /Too many nested calls/);
+  assert.equal(error.line, 2);
+});
+
+test('lists and strings too big to build are refused, not built', async () => {
+  const range = await runError('x = 1\nfor i in range(10 ** 9):\n    pass');
+  assert.match(range.message, /range\(\): .*too many/);
+  assert.equal(range.line, 2);
+  assert.match((await runError('s = "a" * 1000000000')).message, /too long/);
+  assert.match((await runError('s = "a" * 10 ** 400')).message, /Can't repeat/);
+  assert.match((await runError('s = "ab" * 400000\ns = s + s')).message, /too long/);
+});
+
+test('Object.prototype names are not built-ins or modules', async () => {
+  for (const name of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+    assert.match((await runError(`${name}()`)).message, /Unknown name/, name);
+    assert.match((await runError(`x = ${name}`)).message, /Unknown name/, name);
+    assert.match((await runError(`import ${name}`)).message, /No module named/, name);
+  }
+});
@@ -0,0 +1,557 @@
+import { Expr, Param, Program, Stmt, Target, TypeName } from './parser';
+import { ScriptError } from './tokenizer';
+
+export interface ScriptFunction {
+  kind: 'function';
+  name: string;
+  params: Param[];
+  body: Stmt[];
+}
+
+// A built-in as a value: a bare built-in name, or a method such as vehicle.simple_takeoff
+export interface BuiltinFunction {
+  kind: 'builtin';
+  name: string;
+  builtin: Builtin;
+}
+
+export type DictKey = number | string | boolean | null;
+
+export interface ScriptDict {
+  kind: 'dict';
+  entries: Map<DictKey, Value>;
+}
+
+// An object the host provides, such as a module or DroneKit's vehicle. Its attributes and items
+// are read and written through the host, which throws an Error to refuse.
+export interface ScriptObject {
+  kind: 'object';
+  typeName: string; // Its Python class, for errors; 'module' for an importable module
+  get: (name: string) => Value | undefined; // undefined if there's no such attribute
+  set?: (name: string, value: Value) => void;
+  getItem?: (key: Value) => Value;
+  setItem?: (key: Value, value: Value) => void;
+  repr?: () => string;
+}
+
+export type Value = number | string | boolean | null | Value[] | ScriptFunction | BuiltinFunction | ScriptDict | ScriptObject;
+
+// What a built-in accepts: its parameters in order, by name for keyword arguments. A parameter
+// that is neither optional nor defaulted is required; an optional one arrives as undefined.
+// A condition isn't evaluated at the call: the built-in re-evaluates it through its CallContext.
+export type ValueType = 'number' | 'string' | 'bool' | 'list' | 'any' | 'condition';
+
+export interface BuiltinParam {
+  name: string;
+  type: ValueType;
+  default?: Value;
+  optional?: boolean;
+}
+
+export interface CallContext {
+  conditions: Record<string, () => Promise<Value>>; // Evaluates a condition argument afresh, by parameter name
+  shouldStop: () => boolean;
+}
+
+export interface Builtin {
+  params: BuiltinParam[];
+  variadic?: boolean; // The last parameter takes any number of positional arguments
+  call: (args: (Value | undefined)[], context: CallContext) => Value | void | Promise<Value | void>;
+}
+
+// Where the script is about to run, for a debugger: the statement and the variables it can see
+export interface StatementEvent {
+  line: number;
+  column: number;
+  globals: Map<string, Value>;
+  locals: Map<string, Value> | null; // Inside a function call
+  functionName: string | null;
+}
+
+export interface RunOptions {
+  builtins: Record<string, Builtin>;
+  modules?: Record<string, ScriptObject>; // What import statements can bring in
+  shouldStop: () => boolean; // Checked before every statement, so Stop ends even a busy loop
+  onStatement?: (event: StatementEvent) => void | Promise<void>; // Awaited before each statement; a debugger pauses here
+}
+
+// Statements to run between yields to the browser, so a loop without commands can't freeze the page
+const YIELD_INTERVAL = 1000;
+const MAX_CALL_DEPTH = 100;
+const MAX_LENGTH = 1_000_000; // Items in a list or characters in a string; far more than a flight needs
+const CONDITION_POLL = 50; // ms between checks in wait_until()
+
+// Python spellings, so errors and print() read like the language the script is written in
+export function typeName(value: Value): string {
+  if (value === null) return 'None';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'object') {
+    return value.kind === 'object' ? value.typeName : value.kind === 'builtin' ? 'builtin_function' : value.kind;
+  }
+  return { number: Number.isInteger(value) ? 'int' : 'float', string: 'str', boolean: 'bool' }[typeof value] as string;
+}
+
+export function formatValue(value: Value, quoted = false): string {
+  if (value === null) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'string') return quoted ? JSON.stringify(value) : value;
+  if (typeof value === 'number') return Number.isInteger(value) || !Number.isFinite(value) ? String(value) : String(Math.round(value * 1e6) / 1e6);
+  if (Array.isArray(value)) return `[${value.map(v => formatValue(v, true)).join(', ')}]`;
+  switch (value.kind) {
+    case 'function': return `<function ${value.name}>`;
+    case 'builtin': return `<built-in function ${value.name}>`;
+    case 'dict': return `{${[...value.entries].map(([k, v]) => `${formatValue(k, true)}: ${formatValue(v, true)}`).join(', ')}}`;
+    case 'object': return value.repr?.() ?? `<${value.typeName} object>`;
+  }
+}
+
+export function truthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value !== null && typeof value === 'object' && value.kind === 'dict') return value.entries.size > 0;
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+function equal(a: Value, b: Value): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => equal(v, b[i]));
+  if (isDict(a) && isDict(b)) {
+    return a.entries.size === b.entries.size && [...a.entries].every(([k, v]) => b.entries.has(k) && equal(v, b.entries.get(k)!));
+  }
+  return a === b;
+}
+
+const isDict = (value: Value | undefined): value is ScriptDict =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && value.kind === 'dict';
+
+export const isScriptObject = (value: Value | undefined): value is ScriptObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && value.kind === 'object';
+
+// Only immutable values can key a dict, as in Python
+const isDictKey = (value: Value): value is DictKey => value === null || typeof value !== 'object';
+
+const matchesType = (value: Value, type: ValueType | TypeName): boolean => {
+  switch (type) {
+    case 'any': case 'condition': return true;
+    case 'number': case 'float': return typeof value === 'number';
+    case 'int': return typeof value === 'number' && Number.isInteger(value);
+    case 'string': case 'str': return typeof value === 'string';
+    case 'bool': return typeof value === 'boolean';
+    case 'list': return Array.isArray(value);
+  }
+};
+
+const TYPE_LABELS: Record<ValueType, string> = { number: 'a number', string: 'a string', bool: 'True or False', list: 'a list', any: 'a value', condition: 'a condition' };
+
+// Python's standard functions that flight scripts reach for. print() is the host's, like the commands.
+const num = (x: Value | undefined) => x as number;
+export const STANDARD_BUILTINS: Record<string, Builtin> = {
+  range: {
+    params: [{ name: 'start', type: 'number' }, { name: 'stop', type: 'number', optional: true }, { name: 'step', type: 'number', default: 1 }],
+    call: ([a, b, step]) => {
+      const [start, stop] = b === undefined ? [0, num(a)] : [num(a), num(b)];
+      if (step === 0) throw new Error('range() step must not be zero');
+      const count = Math.ceil((stop - start) / num(step));
+      if (count > MAX_LENGTH) throw new Error(`${count} items is too many; lists can hold ${MAX_LENGTH}`);
+      const out: number[] = [];
+      for (let i = start; num(step) > 0 ? i < stop : i > stop; i += num(step)) out.push(i);
+      return out;
+    },
+  },
+  len: {
+    params: [{ name: 'value', type: 'any' }],
+    call: ([value]) => {
+      if (isDict(value)) return value.entries.size;
+      if (typeof value !== 'string' && !Array.isArray(value)) throw new Error(`${typeName(value!)} has no len()`);
+      return value.length;
+    },
+  },
+  abs: { params: [{ name: 'x', type: 'number' }], call: ([x]) => Math.abs(num(x)) },
+  round: {
+    params: [{ name: 'x', type: 'number' }, { name: 'digits', type: 'number', default: 0 }],
+    call: ([x, digits]) => Math.round(num(x) * 10 ** num(digits)) / 10 ** num(digits),
+  },
+  min: { params: [{ name: 'values', type: 'number' }], variadic: true, call: (values) => Math.min(...values.map(num)) },
+  max: { params: [{ name: 'values', type: 'number' }], variadic: true, call: (values) => Math.max(...values.map(num)) },
+  int: { params: [{ name: 'x', type: 'any' }], call: ([x]) => Math.trunc(toNumber(x!)) },
+  float: { params: [{ name: 'x', type: 'any' }], call: ([x]) => toNumber(x!) },
+  str: { params: [{ name: 'x', type: 'any' }], call: ([x]) => formatValue(x!) },
+  // Blocks until the condition holds, re-checking it as the drone flies. True if it did, False on timeout.
+  wait_until: {
+    params: [{ name: 'condition', type: 'condition' }, { name: 'timeout', type: 'number', default: 10 }],
+    call: async ([, timeout], { conditions, shouldStop }) => {
+      const start = performance.now();
+      while (!shouldStop()) {
+        if (truthy(await conditions.condition())) return true;
+        if (performance.now() - start >= num(timeout) * 1000) return false;
+        await new Promise(r => setTimeout(r, CONDITION_POLL));
+      }
+      return false;
+    },
+  },
+};
+
+function toNumber(x: Value): number {
+  if (typeof x === 'number') return x;
+  if (typeof x === 'boolean') return Number(x);
+  if (typeof x === 'string' && x.trim() !== '' && !isNaN(Number(x))) return Number(x);
+  throw new Error(`Can't convert ${formatValue(x, true)} to a number`);
+}
+
+// How a block ended early: out of a loop, on to the next iteration, or out of a function
+type Completion = { kind: 'break' } | { kind: 'continue' } | { kind: 'return'; value: Value } | undefined;
+
+// Thrown to unwind every call when the script is stopped, so no caller carries on with a half result
+const STOPPED = Symbol('stopped');
+
+// Runs a parsed script. Commands are awaited, so the script advances as the drone flies them.
+// Resolves when the script ends or is stopped, and rejects with a ScriptError on a mistake.
+export async function runScript(program: Program, { builtins, modules = {}, shouldStop, onStatement }: RunOptions): Promise<void> {
+  const globals = new Map<string, Value>();
+  let steps = 0;
+  const calls: string[] = []; // Names of the script functions being run, innermost last
+
+  const fail = (node: { line: number; column: number }, message: string): never => {
+    throw new ScriptError(message, node.line, node.column);
+  };
+
+  function lookup(scope: Map<string, Value>, expr: Expr & { kind: 'name' }): Value {
+    if (scope.has(expr.name)) return scope.get(expr.name)!;
+    if (globals.has(expr.name)) return globals.get(expr.name)!;
+    if (Object.hasOwn(builtins, expr.name)) return { kind: 'builtin', name: expr.name, builtin: builtins[expr.name] };
+    return fail(expr, `Unknown name '${expr.name}'`);
+  }
+
+  // Runs a host object's accessor, reporting an Error it throws at the script's line
+  function host<T>(node: { line: number; column: number }, access: () => T): T {
+    try {
+      return access();
+    } catch (error) {
+      if (error instanceof ScriptError || !(error instanceof Error)) throw error;
+      return fail(node, error.message);
+    }
+  }
+
+  function attribute(node: { line: number; column: number }, target: Value, name: string): Value {
+    const value = isScriptObject(target) ? host(node, () => target.get(name)) : undefined;
+    if (value === undefined) fail(node, `${typeName(target)} has no attribute '${name}'`);
+    return value!;
+  }
+
+  // Where `target` in `target[key]` leads: a list position, a dict key, or a host object's item
+  function item(node: Expr, target: Value, key: Value) {
+    if (isDict(target)) {
+      if (!isDictKey(key)) return fail(node, `A ${typeName(key)} can't be a dict key`);
+      return { get: () => target.entries.has(key) ? target.entries.get(key)! : fail(node, `Key ${formatValue(key, true)} not found`), set: (value: Value) => { target.entries.set(key, value); } };
+    }
+    if (isScriptObject(target)) {
+      const { getItem, setItem } = target;
+      return {
+        get: () => getItem ? host(node, () => getItem(key)) : fail(node, `Can't index ${typeName(target)}`),
+        set: (value: Value) => setItem ? host(node, () => setItem(key, value)) : fail(node, `${typeName(target)} doesn't support item assignment`),
+      };
+    }
+    if (typeof target !== 'string' && !Array.isArray(target)) return fail(node, `Can't index ${typeName(target)}`);
+    if (typeof key !== 'number' || !Number.isInteger(key)) return fail(node, `Index must be an int, not ${typeName(key)}`);
+    const i = key < 0 ? target.length + key : key;
+    if (i < 0 || i >= target.length) fail(node, `Index ${key} out of range for length ${target.length}`);
+    return {
+      get: () => target[i],
+      set: (value: Value) => Array.isArray(target) ? (target[i] = value) : fail(node, "Strings can't be changed in place"),
+    };
+  }
+
+  // Built all at once, so a runaway size would freeze the page before the next yield
+  function checkLength(node: { line: number; column: number }, length: number) {
+    if (length > MAX_LENGTH) fail(node, `A result of length ${length} is too long; lists and strings can hold ${MAX_LENGTH}`);
+  }
+
+  function arithmetic(node: { line: number; column: number }, op: string, a: Value, b: Value): Value {
+    if (op === '+' && typeof a === 'string' && typeof b === 'string') {
+      checkLength(node, a.length + b.length);
+      return a + b;
+    }
+    if (op === '+' && Array.isArray(a) && Array.isArray(b)) {
+      checkLength(node, a.length + b.length);
+      return [...a, ...b];
+    }
+    if (op === '*' && typeof a === 'string' && typeof b === 'number') {
+      const times = Math.max(0, Math.trunc(b));
+      if (!Number.isFinite(times)) return fail(node, `Can't repeat a string ${formatValue(b)} times`);
+      checkLength(node, a.length * times);
+      return a.repeat(times);
+    }
+    if (typeof a !== 'number' || typeof b !== 'number') {
+      return fail(node, `Can't use '${op}' on ${typeName(a)} and ${typeName(b)}`);
+    }
+    if ((op === '/' || op === '//' || op === '%') && b === 0) fail(node, 'Division by zero');
+    switch (op) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return a / b;
+      case '//': return Math.floor(a / b);
+      case '%': return a - b * Math.floor(a / b); // Sign of the divisor, as in Python
+      case '**': return a ** b;
+    }
+    return fail(node, `Unknown operator '${op}'`);
+  }
+
+  function compare(node: Expr, op: string, a: Value, b: Value): boolean {
+    if (op === '==') return equal(a, b);
+    if (op === '!=') return !equal(a, b);
+    const bothNumbers = typeof a === 'number' && typeof b === 'number';
+    const bothStrings = typeof a === 'string' && typeof b === 'string';
+    if (!bothNumbers && !bothStrings) fail(node, `Can't compare ${typeName(a)} and ${typeName(b)} with '${op}'`);
+    switch (op) {
+      case '<': return a < b;
+      case '>': return a > b;
+      case '<=': return a <= b;
+      default: return a >= b;
+    }
+  }
+
+  async function evaluate(expr: Expr, scope: Map<string, Value>): Promise<Value> {
+    switch (expr.kind) {
+      case 'number': case 'string': case 'bool': return expr.value;
+      case 'none': return null;
+      case 'name': return lookup(scope, expr);
+      case 'list': {
+        const items: Value[] = [];
+        for (const item of expr.items) items.push(await evaluate(item, scope));
+        return items;
+      }
+      case 'dict': {
+        const entries = new Map<DictKey, Value>();
+        for (const entry of expr.entries) {
+          const key = await evaluate(entry.key, scope);
+          if (!isDictKey(key)) return fail(entry.key, `A ${typeName(key)} can't be a dict key`);
+          entries.set(key, await evaluate(entry.value, scope));
+        }
+        return { kind: 'dict', entries };
+      }
+      case 'unary': {
+        const value = await evaluate(expr.operand, scope);
+        if (expr.op === 'not') return !truthy(value);
+        if (typeof value !== 'number') return fail(expr, `Can't use unary '${expr.op}' on ${typeName(value)}`);
+        return expr.op === '-' ? -value : value;
+      }
+      case 'binary':
+        return arithmetic(expr, expr.op, await evaluate(expr.left, scope), await evaluate(expr.right, scope));
+      case 'compare': {
+        let left = await evaluate(expr.operands[0], scope);
+        for (let i = 0; i < expr.ops.length; i++) {
+          const right = await evaluate(expr.operands[i + 1], scope);
+          if (!compare(expr.operands[i + 1], expr.ops[i], left, right)) return false;
+          left = right;
+        }
+        return true;
+      }
+      case 'logical': {
+        // Short-circuits and returns the deciding operand, as in Python
+        const left = await evaluate(expr.left, scope);
+        if (expr.op === 'and' ? !truthy(left) : truthy(left)) return left;
+        return evaluate(expr.right, scope);
+      }
+      case 'index':
+        return item(expr.index, await evaluate(expr.target, scope), await evaluate(expr.index, scope)).get();
+      case 'attribute':
+        return attribute(expr, await evaluate(expr.target, scope), expr.name);
+      case 'call':
+        return call(expr, scope);
+    }
+  }
+
+  async function call(expr: Expr & { kind: 'call' }, scope: Map<string, Value>): Promise<Value> {
+    // A user function shadows a built-in of the same name, as lookup() finds it first
+    const callee = await evaluate(expr.callee, scope);
+    const builtin = callee !== null && typeof callee === 'object' && !Array.isArray(callee) && callee.kind === 'builtin' ? callee : null;
+
+    // A condition is kept as an expression for the built-in to re-evaluate; its slot holds None
+    const conditions: CallContext['conditions'] = {};
+    const argument = async (arg: Expr, param: BuiltinParam | undefined) => {
+      if (param?.type !== 'condition') return evaluate(arg, scope);
+      conditions[param.name] = () => evaluate(arg, scope);
+      return null;
+    };
+    const params = builtin?.builtin.params ?? [];
+    const args: Value[] = [];
+    for (const [i, arg] of expr.args.entries()) args.push(await argument(arg, params[i]));
+    const keywords = new Map<string, Value>();
+    for (const { name, value } of expr.keywords) keywords.set(name, await argument(value, params.find(p => p.name === name)));
+
+    if (builtin) {
+      const { name, builtin: { params, variadic } } = builtin;
+      const required = params.map(p => p.default === undefined && !p.optional);
+      const bound = bindArguments(expr, name, params.map(p => p.name), required, args, keywords, variadic);
+      params.forEach((param, i) => {
+        if (bound[i] === undefined && !(variadic && i === params.length - 1)) bound[i] = param.default;
+      });
+      for (const [i, param] of params.entries()) {
+        const values = variadic && i === params.length - 1 ? bound.slice(i) : [bound[i]];
+        for (const value of values) {
+          if (value !== undefined && !matchesType(value, param.type)) {
+            fail(expr, `${name}() expects ${TYPE_LABELS[param.type]} for ${param.name}, got ${typeName(value)} ${formatValue(value, true)}`);
+          }
+        }
+      }
+      try {
+        const result = await builtin.builtin.call(bound, { conditions, shouldStop });
+        return result === undefined ? null : result as Value;
+      } catch (error) {
+        if (error instanceof ScriptError || !(error instanceof Error)) throw error;
+        return fail(expr, `${name}(): ${error.message}`);
+      }
+    }
+
+    if (callee === null || typeof callee !== 'object' || Array.isArray(callee) || callee.kind !== 'function') {
+      return fail(expr, `${typeName(callee)} is not callable`);
+    }
+    const locals = new Map<string, Value>();
+    const required = callee.params.map(p => !p.default);
+    const bound = bindArguments(expr, callee.name, callee.params.map(p => p.name), required, args, keywords);
+    for (const [i, param] of callee.params.entries()) {
+      const value = bound[i] !== undefined ? bound[i]! : await evaluate(param.default!, globals);
+      if (param.type && !matchesType(value, param.type)) {
+        fail(expr, `${callee.name}() expects ${param.type} for ${param.name}, got ${typeName(value)} ${formatValue(value, true)}`);
+      }
+      locals.set(param.name, value);
+    }
+    if (calls.length >= MAX_CALL_DEPTH) fail(expr, `Too many nested calls (over ${MAX_CALL_DEPTH}); is ${callee.name}() calling itself forever?`);
+    calls.push(callee.name);
+    try {
+      const completion = await executeBlock(callee.body, locals);
+      return completion?.kind === 'return' ? completion.value : null;
+    } finally {
+      calls.pop();
+    }
+  }
+
+  // Matches positional and keyword arguments to parameters. Missing ones are left undefined,
+  // for the caller to default.
+  function bindArguments(
+    expr: Expr, name: string, params: string[], required: boolean[],
+    args: Value[], keywords: Map<string, Value>, variadic = false,
+  ): (Value | undefined)[] {
+    const plural = (n: number) => `${n} argument${n === 1 ? '' : 's'}`;
+    if (variadic && keywords.size) fail(expr, `${name}() takes no keyword arguments`);
+    if (!variadic && args.length > params.length) {
+      fail(expr, `${name}() takes ${params.length ? `at most ${plural(params.length)}` : 'no arguments'}, got ${args.length}`);
+    }
+    const bound: (Value | undefined)[] = variadic ? [...args] : params.map((_, i) => args[i]);
+    for (const [key, value] of keywords) {
+      const i = params.indexOf(key);
+      if (i < 0) fail(expr, `${name}() has no parameter '${key}'`);
+      if (bound[i] !== undefined) fail(expr, `${name}() got '${key}' twice`);
+      bound[i] = value;
+    }
+    params.forEach((param, i) => {
+      if (bound[i] === undefined && required[i]) fail(expr, `${name}() is missing its '${param}' argument`);
+    });
+    return bound;
+  }
+
+  async function execute(stmt: Stmt, scope: Map<string, Value>): Promise<Completion> {
+    const inFunction = scope !== globals;
+    if (onStatement) {
+      await onStatement({
+        line: stmt.line,
+        column: stmt.column,
+        globals,
+        locals: inFunction ? scope : null,
+        functionName: inFunction ? calls[calls.length - 1] : null,
+      });
+    }
+    if (shouldStop()) throw STOPPED;
+    if (++steps % YIELD_INTERVAL === 0) await new Promise(r => setTimeout(r, 0));
+
+    switch (stmt.kind) {
+      case 'expr':
+        await evaluate(stmt.expr, scope);
+        return;
+      case 'assign': {
+        let value = await evaluate(stmt.value, scope);
+        if (stmt.op !== '=') value = arithmetic(stmt, stmt.op[0], await evaluate(stmt.target, scope), value);
+        await assign(stmt.target, value, scope);
+        return;
+      }
+      case 'if':
+        return executeBlock(truthy(await evaluate(stmt.test, scope)) ? stmt.body : stmt.orelse, scope);
+      case 'while':
+        while (truthy(await evaluate(stmt.test, scope))) {
+          const completion = await executeBlock(stmt.body, scope);
+          if (completion?.kind === 'break') break;
+          if (completion?.kind === 'return') return completion;
+          if (shouldStop()) throw STOPPED;
+        }
+        return;
+      case 'for': {
+        const value = await evaluate(stmt.iter, scope);
+        const iter = isDict(value) ? [...value.entries.keys()] : value; // A dict loops over its keys
+        if (typeof iter !== 'string' && !Array.isArray(iter)) return fail(stmt.iter, `Can't loop over ${typeName(iter)}`);
+        for (const item of iter) {
+          scope.set(stmt.name, item);
+          const completion = await executeBlock(stmt.body, scope);
+          if (completion?.kind === 'break') break;
+          if (completion?.kind === 'return') return completion;
+        }
+        return;
+      }
+      case 'def':
+        scope.set(stmt.name, { kind: 'function', name: stmt.name, params: stmt.params, body: stmt.body });
+        return;
+      case 'return':
+        return { kind: 'return', value: stmt.value ? await evaluate(stmt.value, scope) : null };
+      case 'break': case 'continue':
+        return { kind: stmt.kind };
+      case 'pass':
+        return;
+      case 'import':
+        scope.set(stmt.alias, importModule(stmt, stmt.module));
+        return;
+      case 'from': {
+        const module = importModule(stmt, stmt.module);
+        for (const { name, alias } of stmt.names) {
+          const value = host(stmt, () => module.get(name));
+          if (value === undefined) fail(stmt, `Can't import '${name}' from '${stmt.module}'`);
+          scope.set(alias, value!);
+        }
+        return;
+      }
+    }
+  }
+
+  async function assign(target: Target, value: Value, scope: Map<string, Value>) {
+    if (target.kind === 'name') {
+      scope.set(target.name, value);
+      return;
+    }
+    const object = await evaluate(target.target, scope);
+    if (target.kind === 'index') {
+      item(target.index, object, await evaluate(target.index, scope)).set(value);
+    } else if (isScriptObject(object) && object.set) {
+      const { set } = object;
+      host(target, () => set(target.name, value));
+    } else {
+      fail(target, `Can't set attribute '${target.name}' of ${typeName(object)}`);
+    }
+  }
+
+  function importModule(stmt: Stmt, name: string): ScriptObject {
+    if (Object.hasOwn(modules, name)) return modules[name];
+    const available = Object.keys(modules);
+    return fail(stmt, `No module named '${name}'${available.length ? `. Scripts can import: ${available.join(', ')}` : ''}`);
+  }
+
+  async function executeBlock(body: Stmt[], scope: Map<string, Value>): Promise<Completion> {
+    for (const stmt of body) {
+      const completion = await execute(stmt, scope);
+      if (completion) return completion;
+    }
+  }
+
+  try {
+    await executeBlock(program, globals);
+  } catch (error) {
+    if (error !== STOPPED) throw error;
+  }
+}
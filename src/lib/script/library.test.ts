@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+import {
+  deleteScript, duplicateScript, freeName, importedName, latest, loadLibrary, loadOpenScripts, saveScript, storeLibrary, storeOpenScripts,
+} from './library';
+
+// Node has no localStorage; this one keeps strings in a map, as the browser's does
+const stored = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => { stored.set(key, String(value)); },
+  },
+});
+
+beforeEach(() => stored.clear());
+
+test('saving adds a revision only when the code changed', () => {
+  let library = saveScript([], 'b.py', 'one', 1);
+  library = saveScript(library, 'b.py', 'one', 2);
+  library = saveScript(library, 'b.py', 'two', 3);
+  library = saveScript(library, 'a.py', 'x', 4);
+  assert.deepEqual(library.map(s => s.name), ['a.py', 'b.py']);
+  assert.deepEqual(library[1].revisions, [{ code: 'one', savedAt: 1 }, { code: 'two', savedAt: 3 }]);
+  assert.equal(latest(library[1]).code, 'two');
+});
+
+test('a script keeps its last 50 revisions', () => {
+  let library = saveScript([], 'a.py', 'r0', 0);
+  for (let i = 1; i < 60; i++) library = saveScript(library, 'a.py', `r${i}`, i);
+  assert.equal(library[0].revisions.length, 50);
+  assert.equal(library[0].revisions[0].code, 'r10');
+});
+
+test('duplicates get a free name and no history; deleting takes the history too', () => {
+  let library = saveScript(saveScript([], 'flight.py', 'a', 1), 'flight.py', 'b', 2);
+  library = duplicateScript(duplicateScript(library, 'flight.py', 3), 'flight.py', 4);
+  assert.deepEqual(library.map(s => s.name), ['flight copy 2.py', 'flight copy.py', 'flight.py']);
+  assert.deepEqual(library[1].revisions, [{ code: 'b', savedAt: 3 }]);
+  assert.deepEqual(deleteScript(library, 'flight.py').map(s => s.name), ['flight copy 2.py', 'flight copy.py']);
+  assert.equal(freeName(['a.ts'], 'a.ts'), 'a copy.ts');
+});
+
+test('imported files get a script name', () => {
+  assert.equal(importedName('survey.txt'), 'survey.py');
+  assert.equal(importedName('Mission (1).TS'), 'Mission _1_.ts');
+  assert.equal(importedName('.py'), 'imported.py');
+});
+
+test('the library round-trips through storage, skipping entries that aren\'t scripts', () => {
+  const library = saveScript(saveScript([], 'b.py', 'b', 1), 'a.ts', 'a', 2);
+  storeLibrary(library);
+  assert.deepEqual(loadLibrary(), library);
+  stored.set('drone-sim.scripts.v1', JSON.stringify([...library, { name: 'bad', revisions: [] }, 7]));
+  assert.deepEqual(loadLibrary(), library);
+  stored.set('drone-sim.scripts.v1', '{not json');
+  assert.deepEqual(loadLibrary(), []);
+});
+
+test('the open tabs round-trip, falling back to the first tab if the active one is gone', () => {
+  assert.equal(loadOpenScripts(), null);
+  const open = { files: [{ name: 'flight.py', code: 'takeoff()' }, { name: 'b.ts', code: '' }], active: 'b.ts' };
+  storeOpenScripts(open);
+  assert.deepEqual(loadOpenScripts(), open);
+  storeOpenScripts({ ...open, active: 'gone.py' });
+  assert.equal(loadOpenScripts()?.active, 'flight.py');
+});
+
+test('a full or disabled storage doesn\'t break keeping the tabs', () => {
+  const { localStorage } = globalThis as unknown as { localStorage: { setItem: () => void } };
+  const setItem = localStorage.setItem;
+  localStorage.setItem = () => { throw new Error('QuotaExceededError'); };
+  try {
+    assert.doesNotThrow(() => storeOpenScripts({ files: [{ name: 'a.py', code: '' }], active: 'a.py' }));
+    assert.throws(() => storeLibrary([]), /QuotaExceededError/);
+  } finally {
+    localStorage.setItem = setItem;
+  }
+});
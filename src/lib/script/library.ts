@@ -0,0 +1,191 @@
+import { languageOf } from './reference';
+
+// Saved flight scripts, kept in the browser's localStorage with a history of revisions. Scripts
+// are named like files, and the name's extension picks the language as it does for the tabs.
+
+export interface Revision {
+  code: string;
+  savedAt: number; // ms since the epoch
+}
+
+export interface SavedScript {
+  name: string;
+  revisions: Revision[]; // Oldest first; the last is the current one
+}
+
+export interface OpenScripts {
+  files: { name: string; code: string }[];
+  active: string;
+}
+
+const LIBRARY_KEY = 'drone-sim.scripts.v1';
+const SESSION_KEY = 'drone-sim.open-scripts.v1'; // The tabs, so a reload doesn't lose unsaved work
+const MAX_REVISIONS = 50; // Per script; the oldest are dropped first
+const MAX_IMPORT_SIZE = 200_000; // bytes; flight scripts are far smaller
+
+export const EXAMPLE_SCRIPTS: { name: string; description: string; code: string }[] = [
+  {
+    name: 'square.py',
+    description: 'A square with a function and a loop',
+    code: `# --- SQUARE PATTERN ---
+# Flies a square, turning left at each corner. Change the side to fly a bigger one.
+
+def square(side: float):
+    for corner in range(4):
+        forward(side)
+        yaw(90)
+
+takeoff(2)
+square(4)
+land()
+`,
+  },
+  {
+    name: 'survey_grid.py',
+    description: 'Parallel lanes over a field, for mapping',
+    code: `# --- SURVEY GRID ---
+# Sweeps a field in parallel lanes, the "lawnmower" pattern a mapping drone flies so its
+# photos overlap. Set the spacing from the camera's footprint on the ground.
+
+width = 8     # m across the lanes, east from the pad
+length = 8    # m along each lane, north from the pad
+spacing = 2   # m between lanes
+
+takeoff(3)
+lanes = int(width / spacing) + 1
+for lane in range(lanes):
+    x = -lane * spacing  # +x is west, so the lanes step east
+    if lane % 2 == 0:
+        waypoint(x, 0)
+        waypoint(x, length)
+    else:
+        waypoint(x, length)
+        waypoint(x, 0)
+    print("Lane", lane + 1, "of", lanes, "done, battery at", round(battery_percent()), "%")
+
+waypoint(0, 0)
+land()
+`,
+  },
+  {
+    name: 'hoop_practice.py',
+    description: 'Through the hoop of the Hoop Challenge',
+    code: `# --- HOOP PRACTICE ---
+# Pick "Mission: Hoop Challenge" first. The hoop hangs 3 m up, 5 m south of the pad.
+
+takeoff(3)
+hover(1)
+
+# Line up north of the hoop, then fly straight through it
+waypoint(0, -2)
+waypoint(0, -8)
+
+if mission_status() == "complete":
+    print("Through the hoop!")
+else:
+    print("Missed the hoop. Try lining up again.")
+
+waypoint(0, 0)
+land()
+`,
+  },
+];
+
+const isRevision = (r: unknown): r is Revision =>
+  typeof r === 'object' && r !== null && typeof (r as Revision).code === 'string' && typeof (r as Revision).savedAt === 'number';
+
+const isSavedScript = (s: unknown): s is SavedScript =>
+  typeof s === 'object' && s !== null && typeof (s as SavedScript).name === 'string'
+  && Array.isArray((s as SavedScript).revisions) && (s as SavedScript).revisions.length > 0 && (s as SavedScript).revisions.every(isRevision);
+
+const read = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null; // Unreadable, as if nothing were stored
+  }
+};
+
+// Throws if the browser refuses, e.g. when storage is full or disabled
+const write = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+// The saved scripts, sorted by name. Entries that don't look like scripts are skipped.
+export function loadLibrary(): SavedScript[] {
+  const stored = read(LIBRARY_KEY);
+  return Array.isArray(stored) ? stored.filter(isSavedScript).sort((a, b) => a.name.localeCompare(b.name)) : [];
+}
+
+export const storeLibrary = (library: SavedScript[]) => write(LIBRARY_KEY, library);
+
+export const latest = (script: SavedScript) => script.revisions[script.revisions.length - 1];
+
+// Saves code as the newest revision of the named script, creating it if need be. Unchanged code
+// adds no revision.
+export function saveScript(library: SavedScript[], name: string, code: string, now = Date.now()): SavedScript[] {
+  const existing = library.find(s => s.name === name);
+  if (existing && latest(existing).code === code) return library;
+  const revisions = [...(existing?.revisions ?? []), { code, savedAt: now }].slice(-MAX_REVISIONS);
+  return [...library.filter(s => s.name !== name), { name, revisions }].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// A name not among those taken, from the given one: flight.py, flight copy.py, flight copy 2.py
+export function freeName(names: string[], name: string, suffix = ' copy'): string {
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = [name.slice(0, dot), name.slice(dot)];
+  const taken = (candidate: string) => names.includes(candidate);
+  if (!taken(name)) return name;
+  for (let n = 1; ; n++) {
+    const candidate = `${base}${suffix}${n > 1 ? ` ${n}` : ''}${extension}`;
+    if (!taken(candidate)) return candidate;
+  }
+}
+
+// Copies a script's current code under a new name, without its history
+export function duplicateScript(library: SavedScript[], name: string, now = Date.now()): SavedScript[] {
+  const original = library.find(s => s.name === name);
+  return original ? saveScript(library, freeName(library.map(s => s.name), name), latest(original).code, now) : library;
+}
+
+export const deleteScript = (library: SavedScript[], name: string) => library.filter(s => s.name !== name);
+
+// The name an imported file is saved under. A .txt file is taken for a Python script.
+export function importedName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]*$/, '').replace(/[^\w\- ]/g, '_') || 'imported';
+  return `${base}.${/\.(ts|js)$/i.test(fileName) ? fileName.split('.').pop()!.toLowerCase() : 'py'}`;
+}
+
+// Reads an imported script file. Throws with the reason if it's too big to be a script.
+export async function readScriptFile(file: File): Promise<string> {
+  if (file.size > MAX_IMPORT_SIZE) throw new Error(`${file.name} is ${Math.round(file.size / 1000)} kB, too big for a flight script`);
+  return (await file.text()).replace(/\r\n?/g, '\n');
+}
+
+// Downloads code as a file. Python scripts can go as .txt, for places that won't take a .py.
+export function exportScript(name: string, code: string, asText = false) {
+  const fileName = asText ? name.replace(/\.[^.]*$/, '.txt') : name;
+  const type = !asText && languageOf(name) === 'python' ? 'text/x-python' : 'text/plain';
+  const url = URL.createObjectURL(new Blob([code], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The tabs as they were when the page was last open, or null if there's nothing usable
+export function loadOpenScripts(): OpenScripts | null {
+  const stored = read(SESSION_KEY) as OpenScripts | null;
+  const files = Array.isArray(stored?.files)
+    ? stored.files.filter(f => typeof f?.name === 'string' && typeof f.code === 'string')
+    : [];
+  if (!files.length) return null;
+  return { files, active: files.some(f => f.name === stored!.active) ? stored!.active : files[0].name };
+}
+
+export function storeOpenScripts(open: OpenScripts) {
+  try {
+    write(SESSION_KEY, open);
+  } catch {
+    // Best effort: the tabs are only a convenience, and saving to the library reports its own failures
+  }
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Expr, Stmt, parse } from './parser';
+import { ScriptError, tokenize } from './tokenizer';
+
+const expression = (source: string): Expr => (parse(source)[0] as Stmt & { kind: 'expr' }).expr;
+
+// The parse error for the source, as the editor shows it
+function parseError(source: string): ScriptError {
+  try {
+    parse(source);
+  } catch (error) {
+    if (error instanceof ScriptError) return error;
+    throw error;
+  }
+  assert.fail(`${JSON.stringify(source)} parsed`);
+}
+
+test('indentation becomes indent and dedent tokens', () => {
+  const types = tokenize('if x:\n    y\nz\n').map(token => token.type);
+  assert.deepEqual(types, ['keyword', 'name', 'op', 'newline', 'indent', 'name', 'newline', 'dedent', 'name', 'newline', 'eof']);
+});
+
+test('operators bind as in Python', () => {
+  const sum = expression('1 + 2 * 3');
+  assert.ok(sum.kind === 'binary' && sum.op === '+' && sum.right.kind === 'binary'); // 1 + (2 * 3)
+  const power = expression('-2 ** 2');
+  assert.equal(power.kind, 'unary'); // -(2 ** 2)
+  const right = expression('2 ** 3 ** 2');
+  assert.ok(right.kind === 'binary' && right.right.kind === 'binary'); // 2 ** (3 ** 2)
+});
+
+test('statements carry their line and column', () => {
+  const [, loop] = parse('x = 1\nfor i in range(3):\n    x += i\n');
+  assert.equal(loop.kind, 'for');
+  assert.deepEqual([loop.line, loop.column], [2, 1]);
+});
+
+test('mistakes are reported where they are', () => {
+  const error = parseError('x = 1\ny = = 2\n');
+  assert.deepEqual([error.line, error.column], [2, 5]);
+  assert.match(parseError('break\n').message, /loop/);
+});
+
+test('deep nesting fails cleanly instead of overflowing the stack', () => {
+  for (const source of ['('.repeat(1000) + '1' + ')'.repeat(1000), '-'.repeat(5000) + '1', 'not '.repeat(3000) + 'x', '2 ** '.repeat(10000) + '2']) {
+    assert.match(parseError(source).message, /Too deeply nested/);
+  }
+  assert.doesNotThrow(() => parse('('.repeat(50) + '1' + ')'.repeat(50)));
+});
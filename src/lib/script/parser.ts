@@ -0,0 +1,395 @@
+import { ScriptError, Token, tokenize } from './tokenizer';
+
+// Syntax tree of a flight script. Every node keeps where it starts in the source, for error messages.
+interface Located {
+  line: number;
+  column: number;
+}
+
+export type Expr = Located & (
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'none' }
+  | { kind: 'name'; name: string }
+  | { kind: 'list'; items: Expr[] }
+  | { kind: 'dict'; entries: { key: Expr; value: Expr }[] }
+  | { kind: 'unary'; op: '-' | '+' | 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'compare'; ops: string[]; operands: Expr[] } // Chained, like 0 < x < 10
+  | { kind: 'logical'; op: 'and' | 'or'; left: Expr; right: Expr }
+  | { kind: 'index'; target: Expr; index: Expr }
+  | { kind: 'attribute'; target: Expr; name: string }
+  | { kind: 'call'; callee: Expr; args: Expr[]; keywords: { name: string; value: Expr }[] }
+);
+
+// Parameter types a script can annotate with, as in `def square(side: float):`
+export type TypeName = 'int' | 'float' | 'str' | 'bool' | 'list';
+export const TYPE_NAMES: TypeName[] = ['int', 'float', 'str', 'bool', 'list'];
+
+export interface Param {
+  name: string;
+  type?: TypeName;
+  default?: Expr;
+}
+
+export type Stmt = Located & (
+  | { kind: 'expr'; expr: Expr }
+  | { kind: 'assign'; target: Target; op: '=' | '+=' | '-=' | '*=' | '/='; value: Expr }
+  | { kind: 'if'; test: Expr; body: Stmt[]; orelse: Stmt[] }
+  | { kind: 'while'; test: Expr; body: Stmt[] }
+  | { kind: 'for'; name: string; iter: Expr; body: Stmt[] }
+  | { kind: 'def'; name: string; params: Param[]; body: Stmt[] }
+  | { kind: 'return'; value: Expr | null }
+  | { kind: 'break' }
+  | { kind: 'continue' }
+  | { kind: 'pass' }
+  | { kind: 'import'; module: string; alias: string } // import time, import dronekit as dk
+  | { kind: 'from'; module: string; names: { name: string; alias: string }[] } // from dronekit import connect
+);
+
+// What can be assigned to: a variable, an attribute as in `vehicle.armed = True`, or an item
+export type Target = Expr & { kind: 'name' | 'attribute' | 'index' };
+
+export type Program = Stmt[];
+
+const ASSIGN_OPS = ['=', '+=', '-=', '*=', '/='];
+const COMPARE_OPS = ['==', '!=', '<', '>', '<=', '>='];
+const MAX_NESTING = 100; // Brackets, unary operators and blocks inside one another
+
+// Recursive descent over the token list, one function per precedence level
+export function parse(source: string): Program {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[pos++];
+  const is = (value: string, token = peek()) => (token.type === 'op' || token.type === 'keyword') && token.value === value;
+  const describe = (token: Token) => token.type === 'newline' ? 'end of line'
+    : token.type === 'eof' ? 'end of script'
+    : token.type === 'indent' ? 'indented block'
+    : token.type === 'dedent' ? 'end of block'
+    : `'${token.value}'`;
+  const fail = (message: string, token = peek()): never => {
+    throw new ScriptError(message, token.line, token.column);
+  };
+  const expect = (value: string, what = `'${value}'`) => {
+    if (!is(value)) fail(`Expected ${what}, found ${describe(peek())}`);
+    return next();
+  };
+  const expectName = (what: string) => {
+    if (peek().type !== 'name') fail(`Expected ${what}, found ${describe(peek())}`);
+    return next().value;
+  };
+  const at = (token: Token): Located => ({ line: token.line, column: token.column });
+  let loops = 0; // Enclosing loops in the current function, for break and continue
+  let inFunction = false;
+  let depth = 0;
+
+  // Parses something that can contain itself, failing cleanly before the stack runs out
+  function nested<T>(parse: () => T): T {
+    if (depth >= MAX_NESTING) fail(`Too deeply nested (over ${MAX_NESTING} levels)`);
+    depth++;
+    try {
+      return parse();
+    } finally {
+      depth--;
+    }
+  }
+
+  // Parses a loop body, where break and continue are allowed
+  function loopBody(): Stmt[] {
+    loops++;
+    try {
+      return block();
+    } finally {
+      loops--;
+    }
+  }
+
+  const block = (): Stmt[] => nested(blockBody);
+
+  function blockBody(): Stmt[] {
+    expect(':');
+    // A one-line body, as in `if low: land()`
+    if (peek().type !== 'newline') return [simpleStatement()];
+    next();
+    if (peek().type !== 'indent') fail('Expected an indented block');
+    next();
+    const body: Stmt[] = [];
+    while (peek().type !== 'dedent' && peek().type !== 'eof') body.push(statement());
+    next();
+    return body;
+  }
+
+  function statement(): Stmt {
+    const token = peek();
+    if (token.type === 'indent') fail('Unexpected indent');
+    if (is('if')) return ifStatement();
+    if (is('while')) {
+      next();
+      return { ...at(token), kind: 'while', test: expression(), body: loopBody() };
+    }
+    if (is('for')) {
+      next();
+      const name = expectName('a loop variable');
+      expect('in');
+      return { ...at(token), kind: 'for', name, iter: expression(), body: loopBody() };
+    }
+    if (is('def')) return definition();
+    return simpleStatement();
+  }
+
+  function ifStatement(): Stmt {
+    const token = next(); // `if` or `elif`
+    const test = expression();
+    const body = block();
+    let orelse: Stmt[] = [];
+    if (is('elif')) orelse = [ifStatement()];
+    else if (is('else')) {
+      next();
+      orelse = block();
+    }
+    return { ...at(token), kind: 'if', test, body, orelse };
+  }
+
+  function definition(): Stmt {
+    const token = next();
+    const name = expectName('a function name');
+    expect('(');
+    const params: Param[] = [];
+    while (!is(')')) {
+      const paramToken = peek();
+      const param: Param = { name: expectName('a parameter name') };
+      if (params.some(p => p.name === param.name)) fail(`Duplicate parameter '${param.name}'`, paramToken);
+      if (is(':')) {
+        next();
+        const typeToken = peek();
+        const type = expectName('a type') as TypeName;
+        if (!TYPE_NAMES.includes(type)) fail(`Unknown type '${type}'. Use one of: ${TYPE_NAMES.join(', ')}`, typeToken);
+        param.type = type;
+      }
+      if (is('=')) {
+        next();
+        param.default = expression();
+      } else if (params.some(p => p.default)) {
+        fail(`Parameter '${param.name}' without a default follows one with a default`, paramToken);
+      }
+      params.push(param);
+      if (!is(')')) expect(',', "',' or ')'");
+    }
+    next();
+    if (inFunction) fail('Functions must be defined at the top level of the script', token);
+    const outerLoops = loops;
+    [inFunction, loops] = [true, 0];
+    try {
+      return { ...at(token), kind: 'def', name, params, body: block() };
+    } finally {
+      [inFunction, loops] = [false, outerLoops];
+    }
+  }
+
+  function simpleStatement(): Stmt {
+    const token = peek();
+    let stmt: Stmt;
+    if (is('pass') || is('break') || is('continue')) {
+      if (!is('pass') && loops === 0) fail(`'${token.value}' outside a loop`);
+      next();
+      stmt = { ...at(token), kind: token.value as 'pass' | 'break' | 'continue' };
+    } else if (is('return')) {
+      if (!inFunction) fail("'return' outside a function");
+      next();
+      stmt = { ...at(token), kind: 'return', value: peek().type === 'newline' ? null : expression() };
+    } else if (is('import') || is('from')) {
+      stmt = importStatement();
+    } else {
+      const expr = expression();
+      if (ASSIGN_OPS.some(op => is(op))) {
+        if (expr.kind !== 'name' && expr.kind !== 'attribute' && expr.kind !== 'index') fail("Can't assign to this expression", token);
+        const op = next().value as '=' | '+=' | '-=' | '*=' | '/=';
+        stmt = { ...at(token), kind: 'assign', target: expr as Target, op, value: expression() };
+      } else {
+        stmt = { ...at(token), kind: 'expr', expr };
+      }
+    }
+    if (peek().type !== 'newline') fail(`Expected end of line, found ${describe(peek())}`);
+    next();
+    return stmt;
+  }
+
+  // `import a.b as c` or `from a.b import x as y, z`; the host decides which modules exist
+  function importStatement(): Stmt {
+    const token = next();
+    const dotted = () => {
+      let name = expectName('a module name');
+      while (is('.')) {
+        next();
+        name += '.' + expectName('a module name');
+      }
+      return name;
+    };
+    const alias = (name: string) => {
+      if (!is('as')) return name;
+      next();
+      return expectName('a name after as');
+    };
+    const module = dotted();
+    if (token.value === 'import') return { ...at(token), kind: 'import', module, alias: alias(module.split('.')[0]) };
+    expect('import');
+    const names: { name: string; alias: string }[] = [];
+    do {
+      if (names.length) next();
+      const name = expectName('a name to import');
+      names.push({ name, alias: alias(name) });
+    } while (is(','));
+    return { ...at(token), kind: 'from', module, names };
+  }
+
+  const expression = (): Expr => nested(or);
+
+  function or(): Expr {
+    let left = and();
+    while (is('or')) {
+      next();
+      left = { line: left.line, column: left.column, kind: 'logical', op: 'or', left, right: and() };
+    }
+    return left;
+  }
+
+  function and(): Expr {
+    let left = not();
+    while (is('and')) {
+      next();
+      left = { line: left.line, column: left.column, kind: 'logical', op: 'and', left, right: not() };
+    }
+    return left;
+  }
+
+  function not(): Expr {
+    if (!is('not')) return comparison();
+    const token = next();
+    return { ...at(token), kind: 'unary', op: 'not', operand: nested(not) };
+  }
+
+  function comparison(): Expr {
+    const first = arithmetic();
+    const ops: string[] = [];
+    const operands = [first];
+    while (COMPARE_OPS.some(op => is(op))) {
+      ops.push(next().value);
+      operands.push(arithmetic());
+    }
+    return ops.length ? { line: first.line, column: first.column, kind: 'compare', ops, operands } : first;
+  }
+
+  // Left-associative binary operators at one precedence level
+  function binary(ops: string[], operand: () => Expr): Expr {
+    let left = operand();
+    while (ops.some(op => is(op))) {
+      const op = next().value;
+      left = { line: left.line, column: left.column, kind: 'binary', op, left, right: operand() };
+    }
+    return left;
+  }
+
+  const arithmetic = (): Expr => binary(['+', '-'], term);
+  const term = (): Expr => binary(['*', '/', '//', '%'], unary);
+
+  function unary(): Expr {
+    if (!is('-') && !is('+')) return power();
+    const token = next();
+    return { ...at(token), kind: 'unary', op: token.value as '-' | '+', operand: nested(unary) };
+  }
+
+  // Binds tighter than unary minus on its left, so -2 ** 2 is -4 as in Python
+  function power(): Expr {
+    const base = postfix();
+    if (!is('**')) return base;
+    next();
+    return { line: base.line, column: base.column, kind: 'binary', op: '**', left: base, right: nested(unary) };
+  }
+
+  function postfix(): Expr {
+    let expr = atom();
+    for (;;) {
+      if (is('(')) {
+        next();
+        expr = { line: expr.line, column: expr.column, kind: 'call', callee: expr, ...callArguments() };
+      } else if (is('[')) {
+        next();
+        const index = expression();
+        expect(']');
+        expr = { line: expr.line, column: expr.column, kind: 'index', target: expr, index };
+      } else if (is('.')) {
+        next();
+        expr = { line: expr.line, column: expr.column, kind: 'attribute', target: expr, name: expectName('an attribute name') };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  function callArguments() {
+    const args: Expr[] = [];
+    const keywords: { name: string; value: Expr }[] = [];
+    while (!is(')')) {
+      const token = peek();
+      if (token.type === 'name' && is('=', peek(1))) {
+        if (keywords.some(k => k.name === token.value)) fail(`Keyword argument '${token.value}' repeated`);
+        next();
+        next();
+        keywords.push({ name: token.value, value: expression() });
+      } else {
+        if (keywords.length) fail('Positional argument follows keyword argument');
+        args.push(expression());
+      }
+      if (!is(')')) expect(',', "',' or ')'");
+    }
+    next();
+    return { args, keywords };
+  }
+
+  function atom(): Expr {
+    const token = next();
+    switch (token.type) {
+      case 'number': return { ...at(token), kind: 'number', value: parseFloat(token.value) };
+      case 'string': return { ...at(token), kind: 'string', value: token.value };
+      case 'name': return { ...at(token), kind: 'name', name: token.value };
+      case 'keyword':
+        if (token.value === 'True' || token.value === 'False') return { ...at(token), kind: 'bool', value: token.value === 'True' };
+        if (token.value === 'None') return { ...at(token), kind: 'none' };
+        break;
+      case 'op':
+        if (token.value === '(') {
+          const expr = expression();
+          expect(')');
+          return expr;
+        }
+        if (token.value === '[') {
+          const items: Expr[] = [];
+          while (!is(']')) {
+            items.push(expression());
+            if (!is(']')) expect(',', "',' or ']'");
+          }
+          next();
+          return { ...at(token), kind: 'list', items };
+        }
+        if (token.value === '{') {
+          const entries: { key: Expr; value: Expr }[] = [];
+          while (!is('}')) {
+            const key = expression();
+            expect(':');
+            entries.push({ key, value: expression() });
+            if (!is('}')) expect(',', "',' or '}'");
+          }
+          next();
+          return { ...at(token), kind: 'dict', entries };
+        }
+    }
+    return fail(`Unexpected ${describe(token)}`, token);
+  }
+
+  const program: Stmt[] = [];
+  while (peek().type !== 'eof') program.push(statement());
+  return program;
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAirframe } from '../sim/airframe';
+import { DEFAULT_BATTERY } from '../sim/battery';
+import { DEFAULT_FAILSAFES } from '../sim/failsafe';
+import { PreflightContext, preflightCheck } from './preflight';
+
+const BUILD = { frame: true, motors: true, esc: true, fc: true, battery: true, props: true, camera: true };
+
+const CONTEXT: PreflightContext = {
+  airframe: buildAirframe(BUILD, 'multirotor', DEFAULT_BATTERY, 'quad-x'),
+  start: { position: [0, 0, 0], yaw: 0, mode: 'LOITER', airborne: false },
+  fence: DEFAULT_FAILSAFES.fence,
+  flightArea: 50,
+  endurance: 300,
+  batterySpec: DEFAULT_BATTERY,
+  wind: 0,
+  missionStatus: 'none',
+  modules: ['time'],
+};
+
+// The findings as 'line severity: message', the way the editor lists them
+const findings = async (source: string) =>
+  (await preflightCheck(source, CONTEXT)).findings.map(f => `${f.line} ${f.severity}: ${f.message}`);
+
+test('a clean flight has no findings and an estimate', async () => {
+  const { findings, estimate } = await preflightCheck('takeoff(2)\nforward(10)\nland()', CONTEXT);
+  assert.deepEqual(findings, []);
+  assert.ok(estimate?.complete);
+  assert.ok(estimate.distance >= 14 && estimate.flightTime > 0);
+});
+
+test('typos and wrong arguments are caught without flying', async () => {
+  const found = await findings('takeof(2)\nforward("far")\nwaypoint(1)\nland()');
+  assert.match(found[0], /^1 error: Unknown command 'takeof'. Did you mean takeoff\?/);
+  assert.ok(found.some(f => /^2 error: forward\(\) expects a number/.test(f)));
+  assert.ok(found.some(f => /^3 error: waypoint\(\) is missing/.test(f)));
+});
+
+test('the dry run warns about what would go wrong in flight', async () => {
+  assert.deepEqual(await findings('forward(5)'), ['1 warning: forward() before takeoff(): the drone is on the ground and won\'t move']);
+  assert.deepEqual(await findings('takeoff(2)\nwaypoint(200, 0)\nland()'), ['2 error: waypoint() goes outside the geofence (200m from home, limit 100m)']);
+  assert.deepEqual(await findings('takeoff(2)'), ['1 info: The script ends with the drone still in the air']);
+});
+
+test('findings come sorted by line, and a loop reports each line once', async () => {
+  // The static pass reports line 4 before the dry run gets to line 3
+  const found = await findings('takeoff(2)\nfor i in range(3):\n    waypoint(60 + i, 0)\nnope()');
+  assert.deepEqual(found, ['3 warning: waypoint() goes to (60, 0), outside the 100 × 100 m flight area', '4 error: Unknown command \'nope\'']);
+});
+
+test('a loop that never ends stops at the step cap', async () => {
+  const { findings, estimate } = await preflightCheck('takeoff(2)\nwhile True:\n    x = 1\n', CONTEXT);
+  assert.equal(estimate?.complete, false);
+  assert.ok(findings.some(f => f.severity === 'warning' && /stopped here after 100000 statements/.test(f.message)));
+});
+
+test('Object.prototype names are unknown, not built-ins', async () => {
+  for (const name of ['toString', 'constructor']) {
+    assert.ok((await findings(`${name}()`)).some(f => f.startsWith(`1 error: Unknown command '${name}'`)), name);
+    assert.ok((await findings(`x = ${name}`)).some(f => f.startsWith(`1 error: Unknown name '${name}'`)), name);
+  }
+  assert.deepEqual(await findings('takeoff(2)\ninject_fault("toString")\nland()'), [
+    '2 error: Unknown fault \'toString\'. Use one of: motor_failure, esc_desync, gps_loss, compass_interference, rx_failsafe, cell_failure',
+  ]);
+});
@@ -0,0 +1,530 @@
+import { Airframe, isQuadplane } from '../sim/airframe';
+import { BatterySpec, RESERVE, cellOpenCircuitVoltage } from '../sim/battery';
+import { Geofence, fenceBreach } from '../sim/failsafe';
+import { FAULTS, FaultId } from '../sim/faults';
+import { CRUISE_AIRSPEED, CRUISE_ALTITUDE, minTurnRadius } from '../sim/fixedWingController';
+import { MAX_CLIMB_RATE, MAX_HORIZONTAL_SPEED } from '../sim/flightController';
+import { FLIGHT_MODES, FlightMode, LAND_SPEED } from '../sim/flightModes';
+import { Vec3, length, sub } from '../sim/math';
+import { MIN_TRANSITION_ALTITUDE, VTOL_TAKEOFF_ALTITUDE } from '../sim/quadplane';
+import { FLIGHT_COMMANDS, FlightCommand, MissionStatus, TELEMETRY_QUERIES, TelemetryQuery } from './commands';
+import { Builtin, BuiltinParam, STANDARD_BUILTINS, ScriptObject, Value, ValueType, runScript, truthy } from './interpreter';
+import { Expr, Program, Stmt, TypeName, parse } from './parser';
+import { ScriptError } from './tokenizer';
+
+// Checks a script before it flies, in two passes: a static one over the syntax tree for unknown
+// names and wrong arguments, then a dry run on a simple kinematic model of the drone for where it
+// goes, how long it's in the air and what that costs the battery.
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface Finding {
+  line: number;
+  column: number;
+  severity: Severity;
+  message: string;
+}
+
+export interface FlightEstimate {
+  flightTime: number; // s in the air
+  distance: number; // m flown
+  battery: number | null; // Share of the usable capacity; past 1 it runs into the reserve. null if the build can't fly.
+  complete: boolean; // False if the dry run gave up before the script ended
+}
+
+export interface PreflightContext {
+  airframe: Airframe;
+  start: { position: Vec3; yaw: number; mode: FlightMode; airborne: boolean };
+  fence: Geofence;
+  flightArea: number; // m from the origin along x and z; the ground the scene shows
+  endurance: number | null; // s on the usable battery, hovering (cruising, for a plane)
+  batterySpec: BatterySpec;
+  wind: number; // m/s, what wind() reads in the dry run
+  missionStatus: MissionStatus;
+  modules: string[]; // What import statements can bring in
+}
+
+export interface PreflightReport {
+  findings: Finding[];
+  estimate: FlightEstimate | null; // null if the script doesn't parse or the dry run can't follow it
+}
+
+const PRINT: Builtin = { params: [{ name: 'values', type: 'any', optional: true }], variadic: true, call: () => null };
+
+// Modules the dry run can follow; a script importing any other is only checked statically
+const DRY_RUN_MODULES = ['time'];
+
+// Where the dry run gives up: a script that would fly this long, or runs this many statements
+const MAX_DRY_RUN_TIME = 3600; // s
+const MAX_DRY_RUN_STEPS = 100000;
+
+const SETTLE_TIME = 1; // s a multirotor takes to settle after each move
+const YAW_RATE = 90; // deg/s, roughly, including the settle
+const PLANE_TURN_RATE = 15; // deg/s at the bank the autopilot flies
+const PLANE_CLIMB_RATE = 2; // m/s
+const GLIDE_RATIO = 8;
+const TRANSITION_TIME = 5; // s from hover to wing-borne flight, or back
+const RTL_ALTITUDE = 5; // m, as flightModes climbs to before returning
+
+// What a call site is checked against: the parameters in order, by name for keyword arguments
+interface Signature {
+  names: string[];
+  required: boolean[];
+  types: (ValueType | TypeName | undefined)[];
+  variadic: boolean;
+}
+
+const builtinSignature = ({ params, variadic = false }: { params: BuiltinParam[]; variadic?: boolean }): Signature => ({
+  names: params.map(p => p.name),
+  required: params.map(p => p.default === undefined && !p.optional),
+  types: params.map(p => p.type),
+  variadic,
+});
+
+const BUILTIN_SIGNATURES: Record<string, Signature> = Object.fromEntries([
+  ...Object.entries(STANDARD_BUILTINS).map(([name, builtin]) => [name, builtinSignature(builtin)]),
+  ...Object.entries(FLIGHT_COMMANDS).map(([name, params]) => [name, builtinSignature({ params })]),
+  ...Object.entries(TELEMETRY_QUERIES).map(([name, params]) => [name, builtinSignature({ params })]),
+  ['print', builtinSignature(PRINT)],
+]);
+
+// The type a literal argument has, in the terms of a parameter's type, or null if it isn't a literal
+function literalType(expr: Expr): 'number' | 'int' | 'string' | 'bool' | 'list' | null {
+  if (expr.kind === 'number') return Number.isInteger(expr.value) ? 'int' : 'number';
+  if (expr.kind === 'unary' && expr.op !== 'not' && expr.operand.kind === 'number') return literalType(expr.operand);
+  if (expr.kind === 'string') return 'string';
+  if (expr.kind === 'bool') return 'bool';
+  if (expr.kind === 'list') return 'list';
+  return null;
+}
+
+const accepts = (type: ValueType | TypeName, literal: ReturnType<typeof literalType>) => {
+  switch (type) {
+    case 'number': case 'float': return literal === 'number' || literal === 'int';
+    case 'int': return literal === 'int';
+    case 'string': case 'str': return literal === 'string';
+    default: return type === 'any' || type === 'condition' || type === literal;
+  }
+};
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+// The names a block binds, not counting those inside functions it defines
+function boundNames(body: Stmt[], names = new Set<string>()): Set<string> {
+  for (const stmt of body) {
+    switch (stmt.kind) {
+      case 'assign': if (stmt.target.kind === 'name') names.add(stmt.target.name); break;
+      case 'for': names.add(stmt.name); boundNames(stmt.body, names); break;
+      case 'def': names.add(stmt.name); break;
+      case 'import': names.add(stmt.alias); break;
+      case 'from': stmt.names.forEach(({ alias }) => names.add(alias)); break;
+      case 'if': boundNames(stmt.body, names); boundNames(stmt.orelse, names); break;
+      case 'while': boundNames(stmt.body, names); break;
+    }
+  }
+  return names;
+}
+
+// The static pass: every name used is defined somewhere it can be seen, and every call to a
+// command or function has arguments that fit it. Runs over all branches, taken or not.
+function checkStatically(program: Program, modules: string[], report: (node: { line: number; column: number }, severity: Severity, message: string) => void) {
+  const globals = boundNames(program);
+  const functions = new Map<string, Signature>();
+  for (const stmt of program) {
+    if (stmt.kind !== 'def') continue;
+    functions.set(stmt.name, {
+      names: stmt.params.map(p => p.name),
+      required: stmt.params.map(p => !p.default),
+      types: stmt.params.map(p => p.type),
+      variadic: false,
+    });
+  }
+
+  const unknown = (node: Expr, name: string, scope: Set<string>, what: string) => {
+    const [near] = [...scope, ...Object.keys(BUILTIN_SIGNATURES)]
+      .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+      .filter(({ distance }) => name.length > 2 && distance <= 2)
+      .sort((x, y) => x.distance - y.distance);
+    report(node, 'error', `Unknown ${what} '${name}'${near ? `. Did you mean ${near.candidate}?` : ''}`);
+  };
+
+  function checkCall(expr: Expr & { kind: 'call' }, name: string, signature: Signature) {
+    const { names, required, types, variadic } = signature;
+    const plural = (n: number) => `${n} argument${n === 1 ? '' : 's'}`;
+    if (!variadic && expr.args.length > names.length) {
+      report(expr, 'error', `${name}() takes ${names.length ? `at most ${plural(names.length)}` : 'no arguments'}, got ${expr.args.length}`);
+    }
+    if (variadic && expr.keywords.length) report(expr, 'error', `${name}() takes no keyword arguments`);
+    const given = new Map<number, Expr>(expr.args.slice(0, names.length).map((arg, i) => [i, arg]));
+    for (const { name: keyword, value } of variadic ? [] : expr.keywords) {
+      const i = names.indexOf(keyword);
+      if (i < 0) report(expr, 'error', `${name}() has no parameter '${keyword}'`);
+      else if (given.has(i)) report(expr, 'error', `${name}() got '${keyword}' twice`);
+      else given.set(i, value);
+    }
+    names.forEach((param, i) => {
+      if (required[i] && !given.has(i) && !(variadic && i === names.length - 1)) report(expr, 'error', `${name}() is missing its '${param}' argument`);
+    });
+    for (const [i, arg] of given) {
+      const literal = literalType(arg);
+      const type = types[i];
+      if (type && literal && !accepts(type, literal)) report(arg, 'error', `${name}() expects ${type === 'string' ? 'a string' : type === 'number' ? 'a number' : type} for ${names[i]}`);
+    }
+  }
+
+  function expression(expr: Expr, scope: Set<string>) {
+    switch (expr.kind) {
+      case 'name':
+        if (!scope.has(expr.name) && !Object.hasOwn(BUILTIN_SIGNATURES, expr.name)) unknown(expr, expr.name, scope, 'name');
+        return;
+      case 'call':
+        if (expr.callee.kind === 'name') {
+          const { name } = expr.callee;
+          // A variable holding a function is only checked when it's called
+          const signature = functions.get(name) ?? (scope.has(name) || !Object.hasOwn(BUILTIN_SIGNATURES, name) ? undefined : BUILTIN_SIGNATURES[name]);
+          if (!signature && !scope.has(name)) unknown(expr.callee, name, scope, 'command');
+          else if (signature) checkCall(expr, name, signature);
+        } else {
+          expression(expr.callee, scope);
+        }
+        expr.args.forEach(arg => expression(arg, scope));
+        expr.keywords.forEach(({ value }) => expression(value, scope));
+        return;
+      case 'list': expr.items.forEach(item => expression(item, scope)); return;
+      case 'dict': expr.entries.forEach(({ key, value }) => { expression(key, scope); expression(value, scope); }); return;
+      case 'unary': expression(expr.operand, scope); return;
+      case 'binary': case 'logical': expression(expr.left, scope); expression(expr.right, scope); return;
+      case 'compare': expr.operands.forEach(operand => expression(operand, scope)); return;
+      case 'index': expression(expr.target, scope); expression(expr.index, scope); return;
+      case 'attribute': expression(expr.target, scope); return; // Host objects decide their attributes when run
+    }
+  }
+
+  function statements(body: Stmt[], scope: Set<string>) {
+    for (const stmt of body) {
+      switch (stmt.kind) {
+        case 'expr': expression(stmt.expr, scope); break;
+        case 'assign':
+          if (stmt.target.kind !== 'name' || stmt.op !== '=') expression(stmt.target, scope);
+          expression(stmt.value, scope);
+          break;
+        case 'if': expression(stmt.test, scope); statements(stmt.body, scope); statements(stmt.orelse, scope); break;
+        case 'while': expression(stmt.test, scope); statements(stmt.body, scope); break;
+        case 'for': expression(stmt.iter, scope); statements(stmt.body, scope); break;
+        case 'return': if (stmt.value) expression(stmt.value, scope); break;
+        case 'def':
+          stmt.params.forEach(param => param.default && expression(param.default, globals));
+          statements(stmt.body, new Set([...globals, ...stmt.params.map(p => p.name), ...boundNames(stmt.body)]));
+          break;
+        case 'import': case 'from':
+          if (!modules.includes(stmt.module)) report(stmt, 'error', `No module named '${stmt.module}'${modules.length ? `. Scripts can import: ${modules.join(', ')}` : ''}`);
+          break;
+      }
+    }
+  }
+
+  statements(program, globals);
+}
+
+// Whether the script imports a module the dry run can't follow, such as dronekit
+function importsUnfollowable(body: Stmt[]): Stmt | null {
+  for (const stmt of body) {
+    if ((stmt.kind === 'import' || stmt.kind === 'from') && !DRY_RUN_MODULES.includes(stmt.module)) return stmt;
+    const nested = stmt.kind === 'if' ? [...stmt.body, ...stmt.orelse]
+      : stmt.kind === 'while' || stmt.kind === 'for' || stmt.kind === 'def' ? stmt.body
+      : [];
+    const found = importsUnfollowable(nested);
+    if (found) return found;
+  }
+  return null;
+}
+
+// The dry run: the script runs for real in the interpreter, but its commands move a point model of
+// the drone at its top speeds instead of flying it, and no time passes.
+async function dryRun(program: Program, context: PreflightContext, report: (node: { line: number; column: number }, severity: Severity, message: string) => void): Promise<FlightEstimate> {
+  const { airframe, fence, flightArea, endurance, batterySpec } = context;
+  const quadplane = isQuadplane(airframe);
+  const drone = {
+    position: [...context.start.position] as Vec3,
+    yaw: context.start.yaw,
+    mode: context.start.mode,
+    airborne: context.start.airborne,
+    wingBorne: false, // A quadplane between transition_forward() and transition_back()
+    home: [...context.start.position] as Vec3,
+  };
+  let time = 0;
+  let flightTime = 0;
+  let distance = 0;
+  let steps = 0;
+  let failed = false;
+  let at = { line: 1, column: 1 }; // The statement being run, where findings from commands point
+
+  const limitReached = () => time > MAX_DRY_RUN_TIME || steps > MAX_DRY_RUN_STEPS;
+  const asPlane = () => !!airframe.wing && (!quadplane || drone.wingBorne);
+  const pass = (seconds: number) => {
+    time += seconds;
+    if (drone.airborne) flightTime += seconds;
+  };
+  // The share of the whole pack used so far, from the endurance on its usable part
+  const charge = () => endurance ? Math.max(0, 1 - flightTime / endurance * (1 - RESERVE)) : 1;
+
+  // Refuses a target outside the geofence, as the simulator does, and warns off the edge of the scene
+  const reachable = (target: Vec3, what: string) => {
+    const breach = fenceBreach(fence, drone.home, target);
+    if (breach) {
+      report(at, 'error', `${what} goes outside the geofence (${breach})`);
+      return false;
+    }
+    if (Math.abs(target[0]) > flightArea || Math.abs(target[2]) > flightArea) {
+      report(at, 'warning', `${what} goes to (${target[0].toFixed(0)}, ${target[2].toFixed(0)}), outside the ${flightArea * 2} × ${flightArea * 2} m flight area`);
+    }
+    return true;
+  };
+  const flyTo = (target: Vec3, speed: number, settle = SETTLE_TIME) => {
+    const horizontal = Math.hypot(target[0] - drone.position[0], target[2] - drone.position[2]);
+    const vertical = Math.abs(target[1] - drone.position[1]);
+    distance += length(sub(target, drone.position));
+    pass(Math.max(horizontal / speed, vertical / (asPlane() ? PLANE_CLIMB_RATE : MAX_CLIMB_RATE)) + settle);
+    drone.position = target;
+  };
+  // Forward and left along the heading, as the simulator offsets its setpoint
+  const offset = (forward: number, left = 0): Vec3 => [
+    drone.position[0] + Math.sin(drone.yaw) * forward + Math.cos(drone.yaw) * left,
+    drone.position[1],
+    drone.position[2] + Math.cos(drone.yaw) * forward - Math.sin(drone.yaw) * left,
+  ];
+  const landVertically = (speed = LAND_SPEED) => {
+    pass(drone.position[1] / Math.max(speed, LAND_SPEED));
+    distance += drone.position[1];
+    drone.position = [drone.position[0], 0, drone.position[2]];
+    drone.airborne = false;
+    drone.mode = 'LAND';
+  };
+
+  function planeCommand(name: FlightCommand, [a, b]: (Value | undefined)[]) {
+    const [x, y] = [a as number, b as number];
+    if (name === 'launch') {
+      if (drone.airborne) return report(at, 'error', 'launch(): already flying');
+      if (a !== 'hand' && a !== 'catapult') return report(at, 'error', 'launch() takes "hand" or "catapult"');
+      drone.airborne = true;
+      const target = offset(CRUISE_ALTITUDE / PLANE_CLIMB_RATE * CRUISE_AIRSPEED);
+      flyTo([target[0], CRUISE_ALTITUDE, target[2]], CRUISE_AIRSPEED, 0);
+    } else if (name === 'takeoff') {
+      report(at, 'error', "A fixed-wing can't take off vertically. Use launch()");
+    } else if (!drone.airborne) {
+      report(at, 'error', `${name}() before launch(): the plane isn't flying`);
+    } else if (name === 'land') {
+      if (quadplane) {
+        drone.wingBorne = false;
+        pass(TRANSITION_TIME);
+        return landVertically(x);
+      }
+      const touchdown = offset(drone.position[1] * GLIDE_RATIO);
+      touchdown[1] = 0;
+      flyTo(touchdown, CRUISE_AIRSPEED, 0);
+      drone.airborne = false;
+    } else if (name === 'loiter') {
+      const radius = Math.max(x, 1.3 * minTurnRadius(CRUISE_AIRSPEED));
+      const arc = 2 * Math.PI * radius * y;
+      distance += arc;
+      pass(arc / CRUISE_AIRSPEED);
+    } else if (name === 'climbing_turn') {
+      drone.yaw += x * Math.PI / 180;
+      const seconds = Math.max(Math.abs(x) / PLANE_TURN_RATE, Math.abs(y) / PLANE_CLIMB_RATE);
+      const target = offset(seconds * CRUISE_AIRSPEED);
+      target[1] = Math.max(drone.position[1] + y, 5);
+      if (reachable(target, 'climbing_turn()')) flyTo(target, CRUISE_AIRSPEED, 0);
+    } else if (name === 'forward') {
+      const target = offset(a === undefined ? 20 : x);
+      if (reachable(target, 'forward()')) flyTo(target, CRUISE_AIRSPEED, 0);
+    } else if (name === 'waypoint') {
+      const target: Vec3 = [x, drone.position[1], y];
+      if (reachable(target, 'waypoint()')) flyTo(target, CRUISE_AIRSPEED, 0);
+    } else if (name === 'hover' || name === 'backward' || name === 'left' || name === 'right') {
+      report(at, 'error', `${name}(): a fixed-wing can't hover or fly sideways. Use loiter()`);
+    } else if (name === 'yaw') {
+      report(at, 'error', 'yaw(): a fixed-wing turns by banking. Use climbing_turn()');
+    }
+  }
+
+  // Mirrors the simulator's runCommand, in the same order, so a command refused there is reported here
+  function command(name: FlightCommand, args: (Value | undefined)[]) {
+    const [a, b] = args as number[];
+    if (name === 'inject_fault') {
+      const id = args[0] as FaultId;
+      if (!Object.hasOwn(FAULTS, id)) report(at, 'error', `Unknown fault '${id}'. Use one of: ${Object.keys(FAULTS).join(', ')}`);
+      else if (FAULTS[id].perMotor && !(Number.isInteger(b) && b >= 1 && b <= airframe.motors.length)) report(at, 'error', `Motor must be 1-${airframe.motors.length}`);
+    } else if (name === 'clear_faults' || name === 'print_telemetry') {
+      // Nothing to model
+    } else if (name === 'set_mode') {
+      const mode = (args[0] as string).toUpperCase();
+      if (!Object.hasOwn(FLIGHT_MODES, mode)) return report(at, 'error', `Unknown mode '${args[0]}'. Use one of: ${Object.keys(FLIGHT_MODES).join(', ')}`);
+      if (asPlane()) return report(at, 'error', 'set_mode(): a fixed-wing flies its own navigation commands, not multirotor modes');
+      drone.mode = mode as FlightMode;
+      if (!drone.airborne) return;
+      if (mode === 'LAND') landVertically();
+      if (mode === 'RTL') {
+        flyTo([drone.position[0], Math.max(drone.position[1], RTL_ALTITUDE), drone.position[2]], MAX_HORIZONTAL_SPEED);
+        flyTo([drone.home[0], drone.position[1], drone.home[2]], MAX_HORIZONTAL_SPEED);
+        landVertically();
+      }
+    } else if (name === 'transition_forward' || name === 'transition_back') {
+      if (!quadplane) return report(at, 'error', `${name}(): only a quadplane can transition between hover and wing-borne flight`);
+      if (name === 'transition_back') {
+        if (drone.wingBorne) pass(TRANSITION_TIME);
+        drone.wingBorne = false;
+      } else if (!drone.wingBorne) {
+        if (!drone.airborne || drone.position[1] < MIN_TRANSITION_ALTITUDE) return report(at, 'error', `transition_forward(): climb to at least ${MIN_TRANSITION_ALTITUDE}m first`);
+        drone.wingBorne = true;
+        flyTo(offset(CRUISE_AIRSPEED * TRANSITION_TIME / 2), CRUISE_AIRSPEED / 2, 0);
+      }
+    } else if (asPlane()) {
+      planeCommand(name, args);
+    } else if (name === 'launch' || name === 'loiter' || name === 'climbing_turn' || name === 'set_airspeed') {
+      report(at, 'error', `${name}() is a fixed-wing command${quadplane ? '. Use transition_forward() first' : ''}`);
+    } else if (name === 'takeoff') {
+      if (drone.mode === 'LAND' || drone.mode === 'RTL') drone.mode = 'LOITER';
+      if (drone.mode === 'STABILIZE' || drone.mode === 'ACRO') {
+        return report(at, 'warning', `takeoff() in ${FLIGHT_MODES[drone.mode].label} only arms; the throttle does the climbing`);
+      }
+      const altitude = a ?? (quadplane ? VTOL_TAKEOFF_ALTITUDE : 2);
+      if (!drone.airborne) drone.home = [...drone.position];
+      const target: Vec3 = [drone.position[0], altitude, drone.position[2]];
+      if (!reachable(target, 'takeoff()')) return;
+      drone.airborne = true;
+      flyTo(target, MAX_HORIZONTAL_SPEED);
+    } else if (name === 'land') {
+      if (!drone.airborne) return report(at, 'warning', 'land() without a takeoff: the drone is already on the ground');
+      landVertically(a);
+    } else if (name === 'hover') {
+      pass(a);
+    } else if (drone.mode !== 'LOITER') {
+      report(at, 'warning', `${name}() needs Loiter mode (the drone will be in ${FLIGHT_MODES[drone.mode].label}). Use set_mode("LOITER")`);
+    } else if (!drone.airborne) {
+      report(at, 'warning', `${name}() before takeoff(): the drone is on the ground and won't move`);
+    } else if (name === 'yaw') {
+      drone.yaw += a * Math.PI / 180;
+      pass(SETTLE_TIME + Math.abs(a) / YAW_RATE);
+    } else if (name === 'waypoint') {
+      const target: Vec3 = [a, drone.position[1], b];
+      if (reachable(target, 'waypoint()')) flyTo(target, MAX_HORIZONTAL_SPEED);
+    } else {
+      const d = a ?? 1;
+      const [forward, left] = { forward: [d, 0], backward: [-d, 0], left: [0, d], right: [0, -d] }[name as 'forward'];
+      const target = offset(forward, left);
+      if (reachable(target, `${name}(${d})`)) flyTo(target, MAX_HORIZONTAL_SPEED);
+    }
+  }
+
+  function query(name: TelemetryQuery): Value {
+    switch (name) {
+      case 'altitude': return drone.position[1];
+      case 'position': return [...drone.position];
+      case 'heading': return ((360 - drone.yaw * 180 / Math.PI) % 360 + 360) % 360;
+      case 'groundspeed': return 0;
+      case 'battery_voltage': return batterySpec.cells * cellOpenCircuitVoltage(charge());
+      case 'battery_percent': return charge() * 100;
+      case 'wind': return context.wind;
+      case 'mission_status': return context.missionStatus;
+    }
+  }
+
+  const timeModule: ScriptObject = {
+    kind: 'object',
+    typeName: 'module',
+    get: name => name === 'sleep' ? { kind: 'builtin', name, builtin: { params: [{ name: 'seconds', type: 'number' }], call: ([s]) => { pass(s as number); } } }
+      : name === 'time' || name === 'monotonic' ? { kind: 'builtin', name, builtin: { params: [], call: () => time } }
+      : undefined,
+  };
+
+  const builtins: Record<string, Builtin> = {
+    ...STANDARD_BUILTINS,
+    ...Object.fromEntries((Object.keys(FLIGHT_COMMANDS) as FlightCommand[]).map(name => [name, { params: FLIGHT_COMMANDS[name], call: (args: (Value | undefined)[]) => command(name, args) }])),
+    ...Object.fromEntries((Object.keys(TELEMETRY_QUERIES) as TelemetryQuery[]).map(name => [name, { params: TELEMETRY_QUERIES[name], call: () => query(name) }])),
+    print: PRINT,
+    // The model only changes when a command runs, so a condition false now stays false until the timeout
+    wait_until: {
+      params: STANDARD_BUILTINS.wait_until.params,
+      call: async ([, timeout], { conditions }) => {
+        if (truthy(await conditions.condition())) return true;
+        pass(timeout as number);
+        return false;
+      },
+    },
+  };
+
+  try {
+    await runScript(program, {
+      builtins,
+      modules: { time: timeModule },
+      shouldStop: () => limitReached(),
+      onStatement: ({ line, column }) => {
+        at = { line, column };
+        steps++;
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof ScriptError)) throw error;
+    report(error, 'error', error.message);
+    failed = true;
+  }
+
+  if (steps > MAX_DRY_RUN_STEPS) {
+    report(at, 'warning', `The dry run stopped here after ${MAX_DRY_RUN_STEPS} statements. Is there a loop that never ends?`);
+  } else if (time > MAX_DRY_RUN_TIME) {
+    report(at, 'info', `The dry run stopped here after ${MAX_DRY_RUN_TIME / 60} minutes; the estimate covers that much`);
+  } else if (!failed && drone.airborne) {
+    report(at, 'info', 'The script ends with the drone still in the air');
+  }
+  const battery = endurance ? flightTime / endurance : null;
+  if (battery !== null && battery > 1) {
+    report(at, 'warning', `The flight needs about ${Math.round(battery * 100)}% of the usable battery; the low-battery failsafe will cut it short`);
+  }
+  return { flightTime, distance, battery, complete: !failed && !limitReached() };
+}
+
+// Checks a script without flying it. Findings come sorted by line, errors first on a line.
+export async function preflightCheck(source: string, context: PreflightContext): Promise<PreflightReport> {
+  const findings: Finding[] = [];
+  const seen = new Set<string>();
+  // A line in a loop reports once, whatever the numbers in its message come to each time round
+  const report = ({ line, column }: { line: number; column: number }, severity: Severity, message: string) => {
+    const key = `${line}:${severity}:${message.replace(/-?[\d.]+/g, '#')}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    findings.push({ line, column, severity, message });
+  };
+
+  let program: Program;
+  try {
+    program = parse(source);
+  } catch (error) {
+    if (!(error instanceof ScriptError)) throw error;
+    return { findings: [{ line: error.line, column: error.column, severity: 'error', message: error.message }], estimate: null };
+  }
+
+  checkStatically(program, context.modules, report);
+  const staticErrors = new Set(findings.filter(f => f.severity === 'error').map(f => f.line));
+  let estimate: FlightEstimate | null = null;
+  const unfollowable = importsUnfollowable(program);
+  if (unfollowable) {
+    report(unfollowable, 'info', "The dry run can't follow scripts using this module; only names and arguments were checked");
+  } else {
+    // A dry-run error on a line the static pass already flagged is the same mistake seen again
+    estimate = await dryRun(program, context, (node, severity, message) => {
+      if (!(severity === 'error' && staticErrors.has(node.line))) report(node, severity, message);
+    });
+  }
+
+  const order: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => a.line - b.line || order[a.severity] - order[b.severity]);
+  return { findings, estimate };
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { completionsAt, docAt, isBuiltinName, isDroneMethod, signatureAt } from './reference';
+
+test('signature help follows the argument being typed', () => {
+  const help = signatureAt('waypoint(1, ', 12, 'python');
+  assert.equal(help?.name, 'waypoint');
+  assert.equal(help?.active, 1);
+  assert.equal(signatureAt('drone.takeoff(', 14, 'typescript')?.name, 'takeoff');
+});
+
+test('hover docs cover built-ins, not the script\'s own functions', () => {
+  assert.match(docAt('takeoff(3)', 2, 'python')?.signature ?? '', /^takeoff\(/);
+  assert.equal(docAt('def takeoff(h):\n    pass\ntakeoff(3)', 26, 'python'), null);
+  assert.equal(docAt('# takeoff(3)', 4, 'python'), null);
+});
+
+test('completions offer built-ins by prefix', () => {
+  const labels = completionsAt('tak', 3, 'python')?.items.map(item => item.label);
+  assert.ok(labels?.includes('takeoff'));
+});
+
+test('Object.prototype names are not built-ins', () => {
+  for (const name of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+    assert.equal(isBuiltinName(name, 'python'), false, name);
+    assert.equal(isDroneMethod(name), false, name);
+    assert.equal(signatureAt(`${name}(`, name.length + 1, 'python'), null, name);
+    assert.equal(signatureAt(`drone.${name}(`, name.length + 7, 'typescript'), null, name);
+    assert.equal(docAt(name, 3, 'python'), null, name);
+    assert.equal(docAt(`drone.${name}`, 8, 'typescript'), null, name);
+  }
+});
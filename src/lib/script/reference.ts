@@ -0,0 +1,419 @@
+import { FLIGHT_COMMANDS, TELEMETRY_QUERIES } from './commands';
+import { DRONE_METHODS } from './droneApi';
+import { BuiltinParam, STANDARD_BUILTINS } from './interpreter';
+import { KEYWORDS } from './tokenizer';
+
+export type ScriptLanguage = 'python' | 'typescript';
+
+// One entry in the code guide. The editor's hover docs and completions read the same text.
+export interface GuideEntry {
+  title: string; // As the guide heads it
+  names: string[]; // The built-ins it documents
+  text: string; // `Backticks` mark code
+  mavlink?: string[]; // The MAVLink commands or messages it stands for
+}
+
+export interface GuideSection {
+  title?: string;
+  entries: GuideEntry[];
+  note?: string; // Closes the section
+}
+
+export const GUIDE_SECTIONS: GuideSection[] = [
+  {
+    entries: [
+      {
+        title: 'takeoff(altitude)',
+        names: ['takeoff'],
+        text: 'Arms the motors and climbs to the given altitude, 2 meters by default. Equivalent to sending a `MAV_CMD_NAV_TAKEOFF` command.',
+        mavlink: ['MAV_CMD_NAV_TAKEOFF'],
+      },
+      {
+        title: 'land(speed)',
+        names: ['land'],
+        text: "Switches to LAND mode, descends at 0.5 m/s and disarms on touchdown. Equivalent to `MAV_CMD_NAV_LAND`. A speed, e.g. `land(3)`, comes down faster until the last 2 meters; too fast and the drone sinks into its own downwash (vortex ring state) and can't brake.",
+        mavlink: ['MAV_CMD_NAV_LAND'],
+      },
+      {
+        title: 'set_mode(name)',
+        names: ['set_mode'],
+        text: 'Changes flight mode: `STABILIZE`, `ACRO`, `ALT_HOLD`, `LOITER`, `RTL` or `LAND`, as with `vehicle.mode = VehicleMode("LOITER")` in DroneKit. The drone arms in LOITER; moves like `forward()` and `waypoint()` only fly in LOITER, and LOITER and RTL need a GPS fix.',
+        mavlink: ['MAV_CMD_DO_SET_MODE'],
+      },
+      {
+        title: 'forward(distance)',
+        names: ['forward', 'backward', 'left', 'right'],
+        text: 'Pitches the drone forward to travel the specified distance in meters. Uses local NED (North-East-Down) coordinate frames. `backward()`, `left()` and `right()` move the other ways, 1 meter by default.',
+        mavlink: ['SET_POSITION_TARGET_LOCAL_NED'],
+      },
+      {
+        title: 'yaw(angle_degrees)',
+        names: ['yaw'],
+        text: 'Rotates the drone around its Z-axis by the specified degrees. Uses `MAV_CMD_CONDITION_YAW`.',
+        mavlink: ['MAV_CMD_CONDITION_YAW'],
+      },
+      {
+        title: 'hover(seconds)',
+        names: ['hover'],
+        text: 'Maintains current position and altitude for the specified duration using GPS and Barometer sensor fusion.',
+        mavlink: ['MAV_CMD_NAV_LOITER_TIME'],
+      },
+      {
+        title: 'waypoint(x, z)',
+        names: ['waypoint'],
+        text: 'Flies directly to the specified X and Z coordinates. E.g., `waypoint(0, -5)`. Targets outside the geofence are refused, and leaving the fence any other way trips its failsafe (RTL by default).',
+        mavlink: ['MAV_CMD_NAV_WAYPOINT'],
+      },
+      {
+        title: 'print_telemetry()',
+        names: ['print_telemetry'],
+        text: 'Reads sensor data (Altitude, Battery) and prints it to the terminal.',
+        mavlink: ['GLOBAL_POSITION_INT', 'BATTERY_STATUS'],
+      },
+      {
+        title: 'altitude() / position() / heading() / groundspeed()',
+        names: Object.keys(TELEMETRY_QUERIES),
+        text: 'Live telemetry from the flight controller\'s estimate, as `GLOBAL_POSITION_INT` and `VFR_HUD` messages report it: meters, `[x, y, z]`, compass degrees and m/s. `battery_voltage()`, `battery_percent()`, `wind()` (m/s at the drone) and `mission_status()` (`"none"`, `"in_progress"` or `"complete"`) work the same way, e.g. `if battery_voltage() < 15: land()`.',
+        mavlink: ['GLOBAL_POSITION_INT', 'VFR_HUD', 'BATTERY_STATUS', 'MISSION_CURRENT'],
+      },
+      {
+        title: 'wait_until(condition, timeout=10)',
+        names: ['wait_until'],
+        text: 'Waits while the drone flies until the condition holds, re-checking it every 50 ms, e.g. `wait_until(altitude() > 5, timeout=10)`. Returns `True`, or `False` if the timeout in seconds passed first.',
+      },
+      {
+        title: 'inject_fault(name, motor)',
+        names: ['inject_fault', 'clear_faults'],
+        text: 'Simulates a failure mid-flight: `motor_failure`, `esc_desync`, `gps_loss`, `compass_interference`, `rx_failsafe` or `cell_failure`. Motor faults take a motor number, e.g. `inject_fault("motor_failure", 2)`. `clear_faults()` repairs everything.',
+      },
+    ],
+  },
+  {
+    title: 'Fixed-Wing Commands',
+    entries: [
+      {
+        title: 'launch() / launch("catapult")',
+        names: ['launch'],
+        text: "A plane can't take off vertically. Hand-throws it (or fires it off a catapult) and climbs out to 20 meters at cruise airspeed.",
+        mavlink: ['MAV_CMD_NAV_TAKEOFF'],
+      },
+      {
+        title: 'loiter(radius, turns)',
+        names: ['loiter'],
+        text: 'Circles the current position to the right. Radii tighter than the plane can turn are widened. Equivalent to `MAV_CMD_NAV_LOITER_TURNS`.',
+        mavlink: ['MAV_CMD_NAV_LOITER_TURNS'],
+      },
+      {
+        title: 'climbing_turn(degrees, climb)',
+        names: ['climbing_turn'],
+        text: 'Banks onto a new course (positive turns left, like `yaw()`) while climbing the given meters. `forward(distance)` flies straight on.',
+      },
+      {
+        title: 'set_airspeed(m/s)',
+        names: ['set_airspeed'],
+        text: 'Changes the cruise airspeed the throttle holds. The autopilot never lets it drop below 1.3 × the stall speed.',
+        mavlink: ['MAV_CMD_DO_CHANGE_SPEED'],
+      },
+    ],
+    note: 'On a plane, `waypoint(x, z)` loiters once it arrives, and `land()` cuts the motor and glides in, flaring just above the ground.',
+  },
+  {
+    title: 'Quadplane Commands',
+    entries: [
+      {
+        title: 'transition_forward()',
+        names: ['transition_forward'],
+        text: "From hover (at least 5 meters up), runs the pusher while the lift motors hold altitude. Once the wing reaches 1.3 × stall speed the lift motors wind down and the plane commands take over. If airspeed isn't reached within 10 s it aborts back to hover. Like ArduPilot's `MAV_CMD_DO_VTOL_TRANSITION`.",
+        mavlink: ['MAV_CMD_DO_VTOL_TRANSITION'],
+      },
+      {
+        title: 'transition_back()',
+        names: ['transition_back'],
+        text: 'Stops the pusher and pitches up on the lift motors to bleed off speed, then holds position in hover. A quadplane takes off vertically to 10 meters, and `land()` in cruise back-transitions first.',
+        mavlink: ['MAV_CMD_DO_VTOL_TRANSITION'],
+      },
+    ],
+  },
+];
+
+export const mavlinkUrl = (name: string) => `https://mavlink.io/en/messages/common.html#${name}`;
+
+const GUIDE_ENTRIES = new Map(GUIDE_SECTIONS.flatMap(s => s.entries).flatMap(entry => entry.names.map(name => [name, entry])));
+
+type CallableKind = 'command' | 'query' | 'function';
+
+interface Callable {
+  kind: CallableKind;
+  params: BuiltinParam[];
+  variadic?: boolean;
+}
+
+// Everything a Python script can call without defining it
+const CALLABLES: Record<string, Callable> = Object.fromEntries([
+  ...Object.entries(FLIGHT_COMMANDS).map(([name, params]) => [name, { kind: 'command', params }]),
+  ...Object.entries(TELEMETRY_QUERIES).map(([name, params]) => [name, { kind: 'query', params }]),
+  ...Object.entries(STANDARD_BUILTINS).map(([name, { params, variadic }]) => [name, { kind: 'function', params, variadic }]),
+  ['print', { kind: 'function', params: [{ name: 'values', type: 'any' }], variadic: true }],
+]);
+
+// The drone object's methods in TypeScript, by the Python built-in each one documents as
+const TS_METHODS: Record<string, string> = { ...DRONE_METHODS, goto: 'waypoint', position: 'position', waitUntil: 'wait_until' };
+const TS_GLOBALS = ['drone', 'sleep', 'console'];
+const CONSOLE_METHODS = ['log', 'warn', 'error'];
+export const TS_KEYWORDS = new Set([
+  'async', 'await', 'break', 'const', 'continue', 'else', 'false', 'for', 'function', 'if', 'let', 'null', 'of',
+  'return', 'true', 'undefined', 'while',
+]);
+
+// Own keys only, so names like `toString` and `constructor` aren't taken for built-ins
+const isCallable = (name: string) => Object.hasOwn(CALLABLES, name);
+
+export const isBuiltinName = (name: string, language: ScriptLanguage) =>
+  language === 'python' ? isCallable(name) : TS_GLOBALS.includes(name);
+
+export const isDroneMethod = (name: string) => Object.hasOwn(TS_METHODS, name);
+
+const PYTHON_TYPES: Record<string, string> = { number: 'float', string: 'str', bool: 'bool', list: 'list' };
+
+// A parameter as a signature shows it: typed, with its default, in brackets if the airframe picks it
+function formatParam({ name, type, default: fallback, optional }: BuiltinParam, language: ScriptLanguage, variadic = false): string {
+  if (language === 'typescript') {
+    const tsType = type === 'condition' ? '() => boolean' : type === 'any' ? 'unknown' : type;
+    return `${name}${fallback !== undefined || optional ? '?' : ''}: ${tsType}`;
+  }
+  const typed = `${variadic ? '*' : ''}${name}${PYTHON_TYPES[type] ? `: ${PYTHON_TYPES[type]}` : ''}`;
+  if (fallback !== undefined) return `${typed} = ${JSON.stringify(fallback)}`;
+  return optional ? `[${typed}]` : typed;
+}
+
+export interface Signature {
+  name: string;
+  params: string[];
+}
+
+function callableSignature(name: string, language: ScriptLanguage): Signature | null {
+  if (language === 'typescript') {
+    if (name === 'goto') return { name, params: ['target: { x: number; z: number }'] };
+    if (name === 'sleep') return { name, params: ['seconds: number'] };
+    if (!isDroneMethod(name) || !isCallable(TS_METHODS[name])) return null;
+    return { name, params: CALLABLES[TS_METHODS[name]].params.map(p => formatParam(p, language)) };
+  }
+  if (!isCallable(name)) return null;
+  const callable = CALLABLES[name];
+  const last = callable.params.length - 1;
+  return { name, params: callable.params.map((p, i) => formatParam(p, language, callable.variadic && i === last)) };
+}
+
+export const formatSignature = ({ name, params }: Signature) => `${name}(${params.join(', ')})`;
+
+export interface ReferenceDoc {
+  signature: string;
+  text?: string; // `Backticks` mark code
+  mavlink: string[];
+}
+
+// The functions a Python script defines, with their parameters as written
+function scriptFunctions(code: string): Map<string, string[]> {
+  const functions = new Map<string, string[]>();
+  for (const [, name, params] of code.matchAll(/^[ \t]*def\s+([A-Za-z_]\w*)\s*\(([^)]*)\)/gm)) {
+    functions.set(name, params.split(',').map(p => p.trim()).filter(Boolean));
+  }
+  return functions;
+}
+
+// Names a Python script binds: variables, loop variables, functions and imports
+function scriptNames(code: string): Set<string> {
+  const names = new Set(scriptFunctions(code).keys());
+  const patterns = [
+    /^[ \t]*([A-Za-z_]\w*)\s*(?:[+\-*/]?=)(?!=)/gm,
+    /\bfor\s+([A-Za-z_]\w*)\s+in\b/g,
+    /\bimport\s+([A-Za-z_]\w*)(?!\s*\.)/g,
+    /\bas\s+([A-Za-z_]\w*)/g,
+  ];
+  for (const pattern of patterns) for (const [, name] of code.matchAll(pattern)) names.add(name);
+  for (const [, list] of code.matchAll(/\bfrom\s+[\w.]+\s+import\s+([\w\s,]+)/g)) {
+    for (const name of list.split(',').map(n => n.trim().split(/\s+/).pop()!)) if (name) names.add(name);
+  }
+  return names;
+}
+
+const IDENTIFIER = /[A-Za-z_]\w*/y;
+
+interface Word {
+  from: number;
+  to: number;
+  name: string;
+  member: string | null; // The object before a dot, e.g. 'drone' in drone.takeoff
+}
+
+// The identifier at or just before an offset in the code
+function wordAt(code: string, offset: number): Word | null {
+  let from = offset;
+  while (from > 0 && /\w/.test(code[from - 1])) from--;
+  IDENTIFIER.lastIndex = from;
+  const match = IDENTIFIER.exec(code);
+  if (!match || from + match[0].length < offset) return null;
+  const before = code.slice(Math.max(0, from - 40), from).match(/([A-Za-z_]\w*)?\s*\.\s*$/);
+  return { from, to: from + match[0].length, name: match[0], member: before ? before[1] ?? '' : null };
+}
+
+// What the editor shows on hovering the character at an offset: its signature, its guide entry and the MAVLink it maps to
+export function docAt(code: string, offset: number, language: ScriptLanguage): (ReferenceDoc & { from: number; to: number }) | null {
+  const word = wordAt(code, offset + 1);
+  if (!word || offset < word.from || offset >= word.to) return null;
+  if (insideStringOrComment(code.slice(code.lastIndexOf('\n', word.from - 1) + 1, word.from), language)) return null;
+  let name = word.name;
+  if (language === 'typescript') {
+    if (word.member === 'drone' && isDroneMethod(name)) name = TS_METHODS[name];
+    else if (word.member !== null || name !== 'sleep') return null;
+  } else if (word.member !== null || !isCallable(name) || scriptFunctions(code).has(name)) {
+    return null;
+  }
+  const signature = callableSignature(word.name, language);
+  if (!signature) return null;
+  const entry = GUIDE_ENTRIES.get(name);
+  const text = entry?.text ?? (Object.hasOwn(STANDARD_BUILTINS, name) || name === 'print' ? 'Works as in Python.' : name === 'sleep' ? 'Waits without blocking the script\'s time limit.' : undefined);
+  return { from: word.from, to: word.to, signature: formatSignature(signature), text, mavlink: entry?.mavlink ?? [] };
+}
+
+export type CompletionKind = CallableKind | 'keyword' | 'variable' | 'parameter' | 'module';
+
+export interface Completion {
+  label: string;
+  kind: CompletionKind;
+  detail?: string; // The signature, for callables
+  insert: string;
+  caret: number; // Where the caret lands within the inserted text
+}
+
+const callCompletion = (label: string, kind: CompletionKind, signature: Signature | null): Completion => {
+  const empty = signature !== null && signature.params.length === 0;
+  return { label, kind, detail: signature ? formatSignature(signature) : undefined, insert: `${label}()`, caret: label.length + (empty ? 2 : 1) };
+};
+
+interface OpenCall {
+  name: string;
+  member: string | null;
+  argument: number; // Which argument the caret is in, from 0
+  keyword: string | null; // The argument's keyword, if it has one
+}
+
+// The call whose parentheses the caret is inside, reading from the start of the line. Strings and
+// comments are skipped, so their commas and brackets don't count.
+function openCallAt(code: string, caret: number): OpenCall | null {
+  const start = code.lastIndexOf('\n', caret - 1) + 1;
+  const stack: { bracket: string; open: number; commas: number; segment: number }[] = [];
+  for (let i = start; i < caret; i++) {
+    const ch = code[i];
+    if (ch === '#' || (ch === '/' && code[i + 1] === '/')) return null;
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = code.indexOf(ch, i + 1);
+      if (end < 0 || end >= caret) return null;
+      i = end;
+    } else if ('([{'.includes(ch)) {
+      stack.push({ bracket: ch, open: i, commas: 0, segment: i + 1 });
+    } else if (')]}'.includes(ch)) {
+      stack.pop();
+    } else if (ch === ',' && stack.length) {
+      const top = stack[stack.length - 1];
+      top.commas++;
+      top.segment = i + 1;
+    }
+  }
+  const top = stack[stack.length - 1];
+  if (!top || top.bracket !== '(') return null;
+  const word = wordAt(code, top.open);
+  if (!word || word.to !== top.open) return null;
+  const keyword = code.slice(top.segment, caret).match(/^\s*([A-Za-z_]\w*)\s*=(?!=)/);
+  return { name: word.name, member: word.member, argument: top.commas, keyword: keyword ? keyword[1] : null };
+}
+
+export interface SignatureHelp extends Signature {
+  active: number; // The parameter the caret is on, or -1 past the last
+}
+
+// The signature of the call the caret is in, for the hint the editor shows while typing arguments
+export function signatureAt(code: string, caret: number, language: ScriptLanguage): SignatureHelp | null {
+  const call = openCallAt(code, caret);
+  if (!call) return null;
+  let signature: Signature | null = null;
+  let names: string[] = [];
+  if (language === 'typescript') {
+    if (call.member === 'drone' && isDroneMethod(call.name) || call.member === null && call.name === 'sleep') signature = callableSignature(call.name, language);
+    names = signature?.params.map(p => p.split(/[?:]/)[0]) ?? [];
+  } else if (call.member === null) {
+    const defined = scriptFunctions(code).get(call.name);
+    if (defined) signature = { name: call.name, params: defined };
+    else signature = callableSignature(call.name, language);
+    names = signature?.params.map(p => p.replace(/^[[*]/, '').split(/[:=\]\s]/)[0]) ?? [];
+  }
+  if (!signature) return null;
+  const variadic = signature.params[signature.params.length - 1]?.startsWith('*');
+  const active = call.keyword !== null ? names.indexOf(call.keyword)
+    : variadic ? Math.min(call.argument, signature.params.length - 1)
+    : call.argument < signature.params.length ? call.argument : -1;
+  return { ...signature, active };
+}
+
+// What could complete the name being typed at the caret, with where it starts. Null in strings,
+// comments and numbers, or when there's no name being typed.
+export function completionsAt(code: string, caret: number, language: ScriptLanguage): { from: number; items: Completion[] } | null {
+  const line = code.slice(code.lastIndexOf('\n', caret - 1) + 1, caret);
+  const prefix = line.match(/[A-Za-z_]\w*$/)?.[0] ?? '';
+  const before = line.slice(0, line.length - prefix.length);
+  const dotted = before.match(/([A-Za-z_]\w*)?\s*\.\s*$/);
+  if (!prefix && !dotted || /\d$/.test(before) || insideStringOrComment(before, language)) return null;
+
+  const from = caret - prefix.length;
+  const member = dotted ? dotted[1] ?? '' : null;
+  let items: Completion[] = [];
+
+  if (language === 'typescript') {
+    if (member === 'drone') items = Object.keys(TS_METHODS).map(name => callCompletion(name, isCallable(TS_METHODS[name]) ? CALLABLES[TS_METHODS[name]].kind : 'function', callableSignature(name, language)));
+    else if (member === 'console') items = CONSOLE_METHODS.map(name => callCompletion(name, 'function', null));
+    else if (member === null) {
+      items = [
+        { label: 'drone', kind: 'module', insert: 'drone', caret: 5 },
+        callCompletion('sleep', 'function', callableSignature('sleep', language)),
+        { label: 'console', kind: 'module', insert: 'console', caret: 7 },
+        ...[...TS_KEYWORDS].map(keyword => ({ label: keyword, kind: 'keyword' as const, insert: keyword, caret: keyword.length })),
+      ];
+    }
+  } else if (member === null) {
+    const call = openCallAt(code, from);
+    const keywords = call && call.member === null && !call.keyword ? signatureAt(code, from, language) : null;
+    const defined = scriptFunctions(code);
+    items = [
+      ...(keywords?.params ?? []).filter(p => !p.startsWith('*')).map(p => {
+        const name = p.replace(/^\[/, '').split(/[:=\]\s]/)[0];
+        return { label: `${name}=`, kind: 'parameter' as const, detail: p.replace(/^\[(.*)\]$/, '$1'), insert: `${name}=`, caret: name.length + 1 };
+      }),
+      ...Object.keys(CALLABLES).filter(name => !defined.has(name)).map(name => callCompletion(name, CALLABLES[name].kind, callableSignature(name, language))),
+      ...[...defined].map(([name, params]) => callCompletion(name, 'function', { name, params })),
+      ...[...scriptNames(code)].filter(name => !defined.has(name) && name !== prefix).map(name => ({ label: name, kind: 'variable' as const, insert: name, caret: name.length })),
+      ...[...KEYWORDS].map(keyword => ({ label: keyword, kind: 'keyword' as const, insert: keyword, caret: keyword.length })),
+    ];
+  }
+
+  const matches = items.filter(item => item.label.startsWith(prefix) && item.insert !== prefix);
+  return matches.length ? { from, items: matches } : null;
+}
+
+// Whether the text ends inside a string or comment. Enough for one line; strings don't span lines.
+function insideStringOrComment(text: string, language: ScriptLanguage): boolean {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'" || (ch === '`' && language === 'typescript')) {
+      quote = ch;
+    } else if (language === 'python' ? ch === '#' : ch === '/' && text[i + 1] === '/') {
+      return true;
+    }
+  }
+  return quote !== null;
+}
+
+export const languageOf = (fileName: string): ScriptLanguage => (/\.(ts|js)$/.test(fileName) ? 'typescript' : 'python');
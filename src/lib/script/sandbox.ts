@@ -0,0 +1,97 @@
+import { HostMessage, SandboxMethod, WorkerMessage, checkSandboxCall } from './droneApi';
+import { Value } from './interpreter';
+import { ScriptError } from './tokenizer';
+
+// How long a script may run between calls to the drone before it's taken to be stuck, as in
+// `while (true) {}`. Time spent flying a command doesn't count.
+export const STEP_TIME_LIMIT = 2000; // ms
+
+export interface SandboxOptions {
+  onCall: (method: SandboxMethod, args: (Value | undefined)[]) => Promise<Value>;
+  onLog: (text: string) => void;
+  signal: AbortSignal; // Stop: the worker is terminated at once
+}
+
+type TypeScript = typeof import('typescript');
+
+// The compiler is a chunk of several megabytes of its own, fetched when the first TypeScript
+// script runs. A failed fetch is forgotten, so the next run tries again.
+let compiler: Promise<TypeScript> | null = null;
+
+const loadCompiler = () => compiler ??= import('typescript').then(
+  module => (module as unknown as { default?: TypeScript }).default ?? module,
+  error => {
+    compiler = null;
+    throw error;
+  },
+);
+
+// Whether a run has fetched the compiler yet. Until then, checking as the user types leaves it be.
+export const compilerLoaded = () => compiler !== null;
+
+// Strips the types with the TypeScript compiler, loading it if need be. Syntax errors come back
+// with their line and column.
+export async function compileTypeScript(source: string): Promise<string> {
+  const ts = await loadCompiler();
+  const { outputText, diagnostics = [] } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+    reportDiagnostics: true,
+  });
+  const error = diagnostics.find(d => d.category === ts.DiagnosticCategory.Error);
+  if (error) {
+    const { line, character } = error.file && error.start !== undefined ? error.file.getLineAndCharacterOfPosition(error.start) : { line: 0, character: 0 };
+    throw new ScriptError(ts.flattenDiagnosticMessageText(error.messageText, '\n'), line + 1, character + 1);
+  }
+  return outputText;
+}
+
+// Runs compiled JavaScript in a fresh worker until it finishes, fails or is stopped. Rejects with
+// an Error for a runtime failure, whose position in the worker's code isn't meaningful.
+export function runInSandbox(js: string, { onCall, onLog, signal }: SandboxOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./droneWorker.ts', import.meta.url), { type: 'module' });
+    let watchdog: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (error?: Error) => {
+      clearTimeout(watchdog);
+      worker.terminate();
+      signal.removeEventListener('abort', stop);
+      if (error) reject(error);
+      else resolve();
+    };
+    const stop = () => finish();
+    // Runs while the script's own code is executing, and is paused while the host works on a call
+    const startWatchdog = () => {
+      clearTimeout(watchdog);
+      watchdog = setTimeout(() => finish(new Error(`Script ran for over ${STEP_TIME_LIMIT / 1000} s without waiting on the drone. Is there a loop without an await?`)), STEP_TIME_LIMIT);
+    };
+    const send = (message: HostMessage) => {
+      if (signal.aborted) return;
+      startWatchdog();
+      worker.postMessage(message);
+    };
+
+    worker.onmessage = async (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'log') return onLog(message.text);
+      if (message.type === 'done') return finish();
+      if (message.type === 'error') return finish(new Error(message.message));
+
+      clearTimeout(watchdog);
+      try {
+        const value = await onCall(message.method, checkSandboxCall(message.method, message.args));
+        send({ type: 'result', id: message.id, value });
+      } catch (error) {
+        send({ type: 'failure', id: message.id, message: error instanceof Error ? error.message : String(error) });
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish(new Error(event.message || 'The script worker failed to start'));
+    };
+
+    if (signal.aborted) return finish();
+    signal.addEventListener('abort', stop);
+    send({ type: 'start', code: js });
+  });
+}
@@ -0,0 +1,114 @@
+// Tokens of the flight script language, a small subset of Python. Blocks are marked by
+// indentation, which the tokenizer turns into indent and dedent tokens as Python's does.
+export type TokenType = 'number' | 'string' | 'name' | 'keyword' | 'op' | 'newline' | 'indent' | 'dedent' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// A mistake in a script, at the line and column it was found
+export class ScriptError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'ScriptError';
+  }
+}
+
+export const formatScriptError = (error: ScriptError) => `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+export const KEYWORDS = new Set([
+  'and', 'as', 'break', 'continue', 'def', 'elif', 'else', 'for', 'from', 'if', 'import', 'in', 'not', 'or', 'pass',
+  'return', 'while',
+  'True', 'False', 'None',
+]);
+
+// Longest first, so `**` isn't read as two `*`
+const OPERATORS = [
+  '**', '//', '==', '!=', '<=', '>=', '+=', '-=', '*=', '/=',
+  '+', '-', '*', '/', '%', '<', '>', '=', '(', ')', '[', ']', '{', '}', ',', ':', '.',
+];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const indents = [0];
+  let depth = 0; // Open brackets; line breaks inside them don't end the statement
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  lines.forEach((text, i) => {
+    const line = i + 1;
+    let pos = 0;
+    const error = (message: string) => new ScriptError(message, line, pos + 1);
+
+    if (depth === 0) {
+      const indent = text.match(/^[ \t]*/)![0];
+      const rest = text.slice(indent.length);
+      if (rest === '' || rest.startsWith('#')) return; // Blank and comment lines don't affect blocks
+      const width = indent.replace(/\t/g, '    ').length;
+      if (width > indents[indents.length - 1]) {
+        indents.push(width);
+        tokens.push({ type: 'indent', value: '', line, column: 1 });
+      }
+      while (width < indents[indents.length - 1]) {
+        indents.pop();
+        tokens.push({ type: 'dedent', value: '', line, column: 1 });
+      }
+      if (width !== indents[indents.length - 1]) throw new ScriptError("Indentation doesn't match any outer block", line, 1);
+      pos = indent.length;
+    }
+
+    while (pos < text.length) {
+      const ch = text[pos];
+      const column = pos + 1;
+      if (ch === ' ' || ch === '\t') {
+        pos++;
+      } else if (ch === '#') {
+        break;
+      } else if (/[0-9.]/.test(ch) && /^\.?\d/.test(text.slice(pos, pos + 2))) {
+        const value = text.slice(pos).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)![0];
+        tokens.push({ type: 'number', value, line, column });
+        pos += value.length;
+      } else if (/[A-Za-z_]/.test(ch)) {
+        const value = text.slice(pos).match(/^\w+/)![0];
+        tokens.push({ type: KEYWORDS.has(value) ? 'keyword' : 'name', value, line, column });
+        pos += value.length;
+      } else if (ch === '"' || ch === "'") {
+        let value = '';
+        pos++;
+        while (text[pos] !== ch) {
+          if (pos >= text.length) throw new ScriptError('Unterminated string', line, column);
+          if (text[pos] === '\\' && pos + 1 < text.length) {
+            value += ESCAPES[text[pos + 1]] ?? '\\' + text[pos + 1];
+            pos += 2;
+          } else {
+            value += text[pos++];
+          }
+        }
+        pos++;
+        tokens.push({ type: 'string', value, line, column });
+      } else {
+        const op = OPERATORS.find(o => text.startsWith(o, pos));
+        if (!op) throw error(`Unexpected character '${ch}'`);
+        if (op === '(' || op === '[' || op === '{') depth++;
+        if ((op === ')' || op === ']' || op === '}') && depth > 0) depth--;
+        tokens.push({ type: 'op', value: op, line, column });
+        pos += op.length;
+      }
+    }
+
+    const last = tokens[tokens.length - 1];
+    if (depth === 0 && last && last.type !== 'newline' && last.type !== 'dedent' && last.type !== 'indent') {
+      tokens.push({ type: 'newline', value: '', line, column: text.length + 1 });
+    }
+  });
+
+  const end = lines.length;
+  if (depth > 0) throw new ScriptError('Unclosed bracket at end of script', end, lines[end - 1].length + 1);
+  for (let i = 1; i < indents.length; i++) tokens.push({ type: 'dedent', value: '', line: end + 1, column: 1 });
+  tokens.push({ type: 'eof', value: '', line: end + 1, column: 1 });
+  return tokens;
+}
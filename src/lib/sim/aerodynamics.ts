@@ -0,0 +1,130 @@
+import { GRAVITY, Vec3, clamp, length, rotateInverse, sub } from './math';
+import type { RigidBodyState } from './rigidBody';
+
+const AIR_DENSITY = 1.225;
+
+// Wing and tail aerodynamic coefficients. Moments use the usual aircraft sign conventions
+// (nose-up pitch, right-wing-down roll, nose-right yaw); stepRigidBody maps them to body axes.
+export interface WingSpec {
+  area: number; // m²
+  span: number; // m
+  chord: number; // Mean aerodynamic chord, m
+  cl0: number; // Lift coefficient at zero angle of attack
+  clAlpha: number; // Lift slope, per rad
+  stallAngle: number; // rad
+  cd0: number; // Parasitic drag coefficient
+  oswald: number; // Span efficiency for induced drag
+  cmAlpha: number; // Pitch stiffness; negative is stable
+  cmQ: number; // Pitch damping
+  cmElevator: number; // Per unit elevator command
+  clBeta: number; // Dihedral effect
+  clP: number; // Roll damping
+  clAileron: number; // Per unit aileron command
+  cnBeta: number; // Weathervane stability
+  cnR: number; // Yaw damping
+  cnRudder: number; // Per unit rudder command
+  cyBeta: number; // Side force from sideslip
+}
+
+// Control surface commands, -1..1: +elevator pitches the nose up, +aileron rolls right, +rudder yaws right
+export interface ControlSurfaces {
+  elevator: number;
+  aileron: number;
+  rudder: number;
+}
+
+export interface AirData {
+  airspeed: number; // m/s
+  alpha: number; // Angle of attack, rad
+  beta: number; // Sideslip, rad; positive with the relative wind from the right
+}
+
+export const NEUTRAL_SURFACES: ControlSurfaces = { elevator: 0, aileron: 0, rudder: 0 };
+
+// A 1.2m foam trainer with a flat-bottomed wing
+export const DEFAULT_WING: WingSpec = {
+  area: 0.25, span: 1.2, chord: 0.21,
+  cl0: 0.28, clAlpha: 4.5, stallAngle: 15 * Math.PI / 180, cd0: 0.03, oswald: 0.8,
+  cmAlpha: -0.8, cmQ: -12, cmElevator: 0.5,
+  clBeta: -0.08, clP: -0.45, clAileron: 0.08,
+  cnBeta: 0.08, cnR: -0.15, cnRudder: 0.04,
+  cyBeta: -0.5,
+};
+
+const STALL_SHARPNESS = 50; // How abruptly lift breaks down past the stall angle
+
+// Blend from the attached-flow model to a flat plate around the stall angle (0 = attached, 1 = stalled)
+function stallBlend(wing: WingSpec, alpha: number) {
+  const a = Math.exp(-STALL_SHARPNESS * (alpha - wing.stallAngle));
+  const b = Math.exp(STALL_SHARPNESS * (alpha + wing.stallAngle));
+  return (1 + a + b) / ((1 + a) * (1 + b));
+}
+
+export function liftCoefficient(wing: WingSpec, alpha: number): number {
+  const sigma = stallBlend(wing, alpha);
+  const flatPlate = 2 * Math.sign(alpha) * Math.sin(alpha) ** 2 * Math.cos(alpha);
+  return (1 - sigma) * (wing.cl0 + wing.clAlpha * alpha) + sigma * flatPlate;
+}
+
+export function dragCoefficient(wing: WingSpec, alpha: number): number {
+  const aspectRatio = wing.span ** 2 / wing.area;
+  const attached = wing.cd0 + (wing.cl0 + wing.clAlpha * alpha) ** 2 / (Math.PI * wing.oswald * aspectRatio);
+  const sigma = stallBlend(wing, alpha);
+  return (1 - sigma) * attached + sigma * (wing.cd0 + 2 * Math.sin(alpha) ** 2);
+}
+
+// Slowest level flight, where the lift at the stall angle just carries the weight
+export function stallSpeed(wing: WingSpec, mass: number): number {
+  return Math.sqrt(2 * mass * GRAVITY / (AIR_DENSITY * wing.area * liftCoefficient(wing, wing.stallAngle)));
+}
+
+// Drag in steady level flight at `airspeed`, which is the thrust a plane needs to cruise there
+export function levelFlightDrag(wing: WingSpec, mass: number, airspeed: number): number {
+  const q = 0.5 * AIR_DENSITY * airspeed * airspeed;
+  const cl = mass * GRAVITY / (q * wing.area);
+  const aspectRatio = wing.span ** 2 / wing.area;
+  return q * wing.area * (wing.cd0 + cl * cl / (Math.PI * wing.oswald * aspectRatio));
+}
+
+export function airData(body: RigidBodyState, wind: Vec3): AirData {
+  const v = rotateInverse(body.attitude, sub(body.velocity, wind));
+  const airspeed = length(v);
+  if (airspeed < 0.1) return { airspeed, alpha: 0, beta: 0 };
+  return { airspeed, alpha: Math.atan2(-v[1], v[2]), beta: Math.asin(clamp(-v[0] / airspeed, -1, 1)) };
+}
+
+// Body-frame aerodynamic force and torque from the wing and tail
+export function wingForces(wing: WingSpec, body: RigidBodyState, wind: Vec3, surfaces: ControlSurfaces): { force: Vec3; torque: Vec3 } {
+  const v = rotateInverse(body.attitude, sub(body.velocity, wind));
+  const { airspeed, alpha, beta } = airData(body, wind);
+  if (airspeed < 0.5) return { force: [0, 0, 0], torque: [0, 0, 0] };
+
+  const q = 0.5 * AIR_DENSITY * airspeed * airspeed;
+  const lift = q * wing.area * liftCoefficient(wing, alpha);
+  const drag = q * wing.area * dragCoefficient(wing, alpha);
+  const side = q * wing.area * wing.cyBeta * beta;
+
+  // Lift acts perpendicular to the airflow in the body's symmetry plane, drag against it
+  const planar = Math.hypot(v[1], v[2]) || 1;
+  const force: Vec3 = [
+    -drag * v[0] / airspeed - side,
+    lift * v[2] / planar - drag * v[1] / airspeed,
+    -lift * v[1] / planar - drag * v[2] / airspeed,
+  ];
+
+  // Body rates in aircraft convention, made non-dimensional
+  const [wx, wy, wz] = body.angularVelocity;
+  const p = wz * wing.span / (2 * airspeed);
+  const pitchRate = -wx * wing.chord / (2 * airspeed);
+  const r = -wy * wing.span / (2 * airspeed);
+
+  const cm = wing.cmAlpha * alpha + wing.cmQ * pitchRate + wing.cmElevator * surfaces.elevator;
+  const cl = wing.clBeta * beta + wing.clP * p + wing.clAileron * surfaces.aileron;
+  const cn = wing.cnBeta * beta + wing.cnR * r + wing.cnRudder * surfaces.rudder;
+  const torque: Vec3 = [
+    -q * wing.area * wing.chord * cm,
+    -q * wing.area * wing.span * cn,
+    q * wing.area * wing.span * cl,
+  ];
+  return { force, torque };
+}
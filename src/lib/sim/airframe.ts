@@ -0,0 +1,152 @@
+import type { BuildState, DroneType } from '../../components/3d/DroneModel';
+import { BatterySpec, DEFAULT_BATTERY, batteryWeight } from './battery';
+import { DEFAULT_WING, WingSpec } from './aerodynamics';
+import { COAXIAL_EFFICIENCY, FRAME_LAYOUTS, FrameLayout, layoutMotors, motorCount } from './frames';
+import { GRAVITY, Vec3 } from './math';
+import { PROP_DIAMETER } from './propulsion';
+
+// Component Specifications for Weight & Thrust calculations. Motors, ESCs and props are for a set
+// of four; multirotor frames with more motors scale them (see getTotalWeight).
+export const COMPONENT_SPECS = {
+  frame: { weight: 150, thrust: 0 }, // Quad X; see FRAME_LAYOUTS for the others
+  motors: { weight: 120, thrust: 3200 }, // Total thrust for 4 motors
+  esc: { weight: 20, thrust: 0 },
+  fc: { weight: 10, thrust: 0 },
+  camera: { weight: 15, thrust: 0 },
+  battery: { weight: 250, thrust: 0 }, // 4S 1500mAh; see batteryWeight() for other packs
+  props: { weight: 20, thrust: 0 },
+  wings: { weight: 200, thrust: 0 },
+  pusher: { weight: 80, thrust: 0 }, // Quadplane cruise motor and prop; see PUSHER_THRUST
+};
+
+export interface MotorSpec {
+  position: Vec3; // Body frame, metres
+  spin: 1 | -1; // 1 = counter-clockwise seen from above (or from behind, for a pusher)
+  axis?: Vec3; // Body-frame thrust direction; straight up if omitted
+  maxThrust?: number; // N, overrides the airframe's per-motor rating (e.g. a quadplane's pusher)
+}
+
+export interface Airframe {
+  mass: number; // kg
+  inertia: Vec3; // Principal moments about body X (pitch), Y (yaw), Z (roll), kg·m²
+  motors: MotorSpec[];
+  maxThrustPerMotor: number; // N, per lift motor unless a motor sets its own
+  motorTimeConstant: number; // s, first-order spool-up lag
+  yawTorquePerThrust: number; // m, reaction torque per newton of thrust
+  dragArea: number; // Cd·A, m²
+  angularDrag: number; // N·m per rad/s
+  propRadius: number; // m
+  propClearance: number; // Height of the prop discs above the landing gear, m
+  wing?: WingSpec; // Fixed-wing lift and control surfaces
+}
+
+const BOOM_OFFSET = 0.3; // Quadplane lift motors sit on booms under the wing, this far out and fore/aft
+const PUSHER_THRUST = 700; // g, fixed-wing motor on an 8" prop: less than the plane weighs, so it cannot hover
+
+const PER_MOTOR_PARTS = ['motors', 'esc', 'props'];
+
+export function getTotalWeight(buildState: BuildState, battery: BatterySpec = DEFAULT_BATTERY, layout: FrameLayout = 'quad-x') {
+  const motorSets = motorCount(layout) / 4;
+  return Object.entries(buildState).reduce((acc, [key, isInstalled]) => {
+    if (!isInstalled) return acc;
+    if (key === 'battery') return acc + batteryWeight(battery);
+    if (key === 'frame') return acc + FRAME_LAYOUTS[layout].weight;
+    const weight = COMPONENT_SPECS[key as keyof typeof COMPONENT_SPECS]?.weight ?? 0;
+    return acc + (PER_MOTOR_PARTS.includes(key) ? weight * motorSets : weight);
+  }, 0);
+}
+
+// Max thrust in grams, as shown in the assembly bay. `layout` only applies to multirotors.
+export function getMaxThrust(buildState: BuildState, type: DroneType, layout: FrameLayout = 'quad-x') {
+  if (!buildState.motors || !buildState.props || !buildState.battery) return 0;
+  if (type === 'fixed-wing') return PUSHER_THRUST;
+  // A quadplane has to hover on its lift motors alone, so those are what count
+  if (type === 'quadplane') return COMPONENT_SPECS.motors.thrust;
+  const coaxialLoss = FRAME_LAYOUTS[layout].coaxial ? COAXIAL_EFFICIENCY : 1;
+  return COMPONENT_SPECS.motors.thrust * motorCount(layout) / 4 * coaxialLoss;
+}
+
+// A plane only needs enough thrust to beat drag and climb; a multirotor has to out-lift its weight
+export const MIN_THRUST_TO_WEIGHT: Record<DroneType, number> = { multirotor: 1.2, 'fixed-wing': 0.4, quadplane: 1.2 };
+
+const isLiftMotor = (motor: MotorSpec) => !motor.axis || motor.axis[1] === 1;
+
+// The airframe as the multirotor controller sees it: only the motors that push straight up
+export const liftAirframe = (airframe: Airframe): Airframe => ({ ...airframe, motors: airframe.motors.filter(isLiftMotor) });
+
+// Full motor command array from commands for the lift motors and one shared command for the rest
+export function combineMotorCommands(airframe: Airframe, lift: number[], other: number): number[] {
+  let next = 0;
+  return airframe.motors.map(motor => (isLiftMotor(motor) ? lift[next++] ?? 0 : other));
+}
+
+// Winged airframes that can also hover
+export const isQuadplane = (airframe: Airframe) => !!airframe.wing && airframe.motors.some(isLiftMotor);
+
+export function buildAirframe(buildState: BuildState, type: DroneType, battery: BatterySpec = DEFAULT_BATTERY, layout: FrameLayout = 'quad-x'): Airframe {
+  if (type === 'fixed-wing') return buildFixedWing(buildState, Math.max(getTotalWeight(buildState, battery), 1) / 1000);
+  if (type === 'quadplane') return buildQuadplane(buildState, Math.max(getTotalWeight(buildState, battery), 1) / 1000);
+
+  const mass = Math.max(getTotalWeight(buildState, battery, layout), 1) / 1000;
+  const motors = layoutMotors(layout);
+  // Inertia grows with the square of the arm length; the figures are for a 5" quad X
+  const size = (FRAME_LAYOUTS[layout].armRadius / FRAME_LAYOUTS['quad-x'].armRadius) ** 2;
+
+  return {
+    mass,
+    inertia: [0.0075 * mass * size, 0.013 * mass * size, 0.0075 * mass * size],
+    motors,
+    maxThrustPerMotor: (getMaxThrust(buildState, type, layout) / 1000) * GRAVITY / motors.length,
+    motorTimeConstant: 0.04,
+    yawTorquePerThrust: 0.016,
+    dragArea: 0.05 * Math.sqrt(FRAME_LAYOUTS[layout].arms / 4),
+    angularDrag: 0.002,
+    propRadius: PROP_DIAMETER / 2,
+    propClearance: 0.05,
+  };
+}
+
+// Single pusher motor behind the wing, with aileron, elevator and rudder for control
+function buildFixedWing(buildState: BuildState, mass: number): Airframe {
+  const motors: MotorSpec[] = [{ position: [0, 0, -0.45], spin: 1, axis: [0, 0, 1] }];
+  return {
+    mass,
+    inertia: [0.05 * mass, 0.085 * mass, 0.04 * mass],
+    motors,
+    maxThrustPerMotor: (getMaxThrust(buildState, 'fixed-wing') / 1000) * GRAVITY,
+    motorTimeConstant: 0.06,
+    yawTorquePerThrust: 0.01,
+    dragArea: 0.005, // Fuselage only; the wing's drag comes from its coefficients
+    angularDrag: 0.002,
+    propRadius: 0.1016, // 8" prop
+    propClearance: 0.06,
+    wing: buildState.wings ? DEFAULT_WING : undefined,
+  };
+}
+
+// Four lift motors on booms for hover, plus a pusher and the plane's wing for cruise
+function buildQuadplane(buildState: BuildState, mass: number): Airframe {
+  const d = BOOM_OFFSET;
+  const motors: MotorSpec[] = [
+    { position: [d, 0, d], spin: 1 },    // front left
+    { position: [d, 0, -d], spin: -1 },  // rear left
+    { position: [-d, 0, d], spin: -1 },  // front right
+    { position: [-d, 0, -d], spin: 1 },  // rear right
+  ];
+  if (buildState.pusher) {
+    motors.push({ position: [0, 0.05, -0.45], spin: 1, axis: [0, 0, 1], maxThrust: (PUSHER_THRUST / 1000) * GRAVITY });
+  }
+  return {
+    mass,
+    inertia: [0.06 * mass, 0.1 * mass, 0.05 * mass],
+    motors,
+    maxThrustPerMotor: (getMaxThrust(buildState, 'quadplane') / 1000) * GRAVITY / 4,
+    motorTimeConstant: 0.04,
+    yawTorquePerThrust: 0.016,
+    dragArea: 0.02, // Fuselage plus the booms and stopped lift props
+    angularDrag: 0.002,
+    propRadius: PROP_DIAMETER / 2,
+    propClearance: 0.05,
+    wing: buildState.wings ? DEFAULT_WING : undefined,
+  };
+}
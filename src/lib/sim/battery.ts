@@ -0,0 +1,108 @@
+import { clamp } from './math';
+
+export interface BatterySpec {
+  cells: number; // Series cell count (S)
+  capacityMah: number;
+  cRating: number; // Max continuous discharge, multiples of capacity
+  internalResistance: number; // Per cell, ohms
+}
+
+export interface BatteryState {
+  usedMah: number;
+  current: number; // A, instantaneous draw
+  averageCurrent: number; // A, smoothed for the flight-time estimate
+  voltage: number; // Terminal voltage under load
+  restingVoltage: number; // Open-circuit voltage at the present charge
+}
+
+export const DEFAULT_BATTERY: BatterySpec = { cells: 4, capacityMah: 1500, cRating: 100, internalResistance: 0.008 };
+
+export const CELL_FULL = 4.2;
+export const CELL_LOW = 3.5; // Land soon
+export const CELL_CRITICAL = 3.3; // Damage starts below this under load
+export const CELL_CUTOFF = 3.0; // ESCs cut the motors here
+export const RESERVE = 0.2; // Flight time estimates keep 20% in the pack
+const AVIONICS_CURRENT = 0.4; // FC, receiver and VTX, A
+
+// Typical LiPo open-circuit voltage per cell vs state of charge: a steep knee at both ends
+// and a long flat plateau around 3.7-3.9V where most of the flight happens
+export const DISCHARGE_CURVE: [number, number][] = [
+  [0, 3.27], [0.05, 3.5], [0.1, 3.6], [0.2, 3.69], [0.3, 3.73], [0.4, 3.77],
+  [0.5, 3.8], [0.6, 3.84], [0.7, 3.9], [0.8, 3.98], [0.9, 4.08], [1, 4.2],
+];
+
+// Battery weight in grams, scaled from a 4S 1500mAh pack by stored energy
+export const batteryWeight = (spec: BatterySpec) => Math.round(250 * (spec.cells * spec.capacityMah) / (4 * 1500));
+
+export const stateOfCharge = (state: BatteryState, spec: BatterySpec) => 1 - state.usedMah / spec.capacityMah;
+
+export const maxCurrent = (spec: BatterySpec) => spec.cRating * spec.capacityMah / 1000;
+
+export function cellOpenCircuitVoltage(soc: number): number {
+  if (soc <= 0) {
+    // Past the rated capacity the voltage collapses
+    return Math.max(2.5, DISCHARGE_CURVE[0][1] + soc * 10);
+  }
+  const s = clamp(soc, 0, 1);
+  for (let i = 1; i < DISCHARGE_CURVE.length; i++) {
+    const [s1, v1] = DISCHARGE_CURVE[i];
+    if (s <= s1) {
+      const [s0, v0] = DISCHARGE_CURVE[i - 1];
+      return v0 + (v1 - v0) * (s - s0) / (s1 - s0);
+    }
+  }
+  return CELL_FULL;
+}
+
+export function createBatteryState(spec: BatterySpec): BatteryState {
+  const restingVoltage = spec.cells * CELL_FULL;
+  return { usedMah: 0, current: 0, averageCurrent: 0, voltage: restingVoltage, restingVoltage };
+}
+
+// Draws `power` watts for dt seconds. Current comes from the power and the loaded voltage;
+// beyond the C rating the pack heats up and its resistance climbs. `deadCells` no longer add voltage.
+export function stepBattery(state: BatteryState, spec: BatterySpec, power: number, dt: number, deadCells = 0): BatteryState {
+  const restingVoltage = (spec.cells - deadCells) * cellOpenCircuitVoltage(stateOfCharge(state, spec));
+  let resistance = spec.cells * spec.internalResistance;
+  const limit = maxCurrent(spec);
+
+  // Solve P = I·(V_oc - I·R) for I, taking the smaller root
+  const disc = restingVoltage * restingVoltage - 4 * resistance * power;
+  let current = disc > 0 ? (restingVoltage - Math.sqrt(disc)) / (2 * resistance) : restingVoltage / (2 * resistance);
+  current += AVIONICS_CURRENT;
+  if (current > limit) resistance *= current / limit;
+
+  const voltage = Math.max(0, restingVoltage - current * resistance);
+  const alpha = 1 - Math.exp(-dt / 5);
+  return {
+    usedMah: state.usedMah + current * dt / 3.6,
+    current,
+    averageCurrent: state.averageCurrent + (current - state.averageCurrent) * alpha,
+    voltage,
+    restingVoltage,
+  };
+}
+
+// Seconds until the pack reaches its reserve at the recent average draw
+export function remainingFlightTime(state: BatteryState, spec: BatterySpec): number | null {
+  if (state.averageCurrent < 1) return null;
+  const usable = spec.capacityMah * (1 - RESERVE) - state.usedMah;
+  return Math.max(0, usable / (state.averageCurrent * 1000) * 3600);
+}
+
+// Hover endurance from the build, for the assembly bay: usable capacity over hover current
+export function estimateHoverTime(spec: BatterySpec, hoverPower: number): number {
+  const nominal = spec.cells * 3.7;
+  const current = hoverPower / nominal + AVIONICS_CURRENT;
+  return spec.capacityMah * (1 - RESERVE) / (current * 1000) * 3600;
+}
+
+export type BatteryWarning = 'ok' | 'low' | 'critical' | 'depleted';
+
+export function batteryWarning(state: BatteryState, spec: BatterySpec): BatteryWarning {
+  const perCell = state.voltage / spec.cells;
+  if (state.restingVoltage / spec.cells <= CELL_CUTOFF) return 'depleted';
+  if (perCell < CELL_CRITICAL) return 'critical';
+  if (perCell < CELL_LOW) return 'low';
+  return 'ok';
+}
@@ -0,0 +1,148 @@
+import { Airframe } from './airframe';
+import { RigidBodyState } from './rigidBody';
+import { GRAVITY, Vec3, add, length, rotate, sub, toYawPitchRoll } from './math';
+
+export type CrashCause = 'hard-landing' | 'vortex-ring' | 'prop-strike' | 'loss-of-control' | 'battery-depleted' | 'obstacle';
+
+export interface CrashReport {
+  cause: CrashCause;
+  time: number; // Sim seconds
+  position: Vec3;
+  impactSpeed: number; // m/s; for mid-air failures, the free-fall speed it will hit the ground at
+  sinkRate: number; // Vertical part of the impact speed, m/s
+  attitude: { roll: number; pitch: number; yaw: number }; // Degrees
+  windSpeed: number; // m/s at the drone
+}
+
+// A ring obstacle standing upright in the XY plane, like the mission hoop
+export interface RingObstacle {
+  center: Vec3;
+  radius: number;
+  tube: number; // Tube radius, m
+}
+
+export interface CrashContext {
+  batteryDepleted: boolean;
+  wind: Vec3;
+  obstacles: RingObstacle[];
+  vortexRing: number; // 0..1, see rotorFlow.ts
+}
+
+// State carried between steps by checks that need a duration
+export interface CrashMonitor {
+  tiltTime: number; // Seconds spent beyond MAX_TILT
+}
+
+export const MAX_SINK_RATE = 3; // m/s, landing gear (or a plane's belly) survives up to this
+export const MAX_TILT = 75; // Degrees
+const MAX_TILT_TIME = 0.5; // s; brief excursions (e.g. a hard gust) are recoverable
+const SPINNING_THRUST = 0.02; // Fraction of max thrust above which the props are turning
+const AIRBORNE_HEIGHT = 0.2; // m
+const VORTEX_RING_BLAME = 0.3; // Ring development above which a hard landing is put down to it
+
+export const CRASH_CAUSES: Record<CrashCause, { label: string; explanation: string }> = {
+  'hard-landing': {
+    label: 'Hard landing',
+    explanation: 'The drone hit the ground faster than the landing gear can absorb. Descend slower, or raise the vertical velocity gains so the controller brakes in time.',
+  },
+  'vortex-ring': {
+    label: 'Vortex ring state',
+    explanation: 'The drone came straight down into its own downwash. The props lost their grip on the air, and more throttle only fed the ring, so it couldn\'t brake before the ground. Descend slower, or move sideways while descending to fly out of the ring.',
+  },
+  'prop-strike': {
+    label: 'Prop strike',
+    explanation: 'A spinning propeller touched the ground. The drone was tilted too far close to the floor, usually from an aggressive move or a gust during takeoff or landing.',
+  },
+  'loss-of-control': {
+    label: 'Loss of control',
+    explanation: 'The drone tilted past the point it can recover from. Check the rate and attitude gains for oscillation, and whether the motors have enough headroom for the wind.',
+  },
+  'battery-depleted': {
+    label: 'Battery depleted in flight',
+    explanation: 'The ESCs cut the motors at the low-voltage limit and the drone fell. Watch the voltage warnings and land with a reserve.',
+  },
+  obstacle: {
+    label: 'Collision',
+    explanation: 'The drone flew into a mission object. Plan the path with clearance for the frame and props, and allow for overshoot.',
+  },
+};
+
+export const createCrashMonitor = (): CrashMonitor => ({ tiltTime: 0 });
+
+// Angle between the body up axis and world up, degrees
+const tiltOf = (body: RigidBodyState) => Math.acos(Math.max(-1, Math.min(1, rotate(body.attitude, [0, 1, 0])[1]))) * 180 / Math.PI;
+
+// Height of the lowest tip among the props that are turning. A disc reaches furthest down when its axis is level.
+function lowestPropTip(body: RigidBodyState, airframe: Airframe): number {
+  return Math.min(...airframe.motors.map((motor, i) => {
+    if (body.motorThrust[i] <= SPINNING_THRUST * (motor.maxThrust ?? airframe.maxThrustPerMotor)) return Infinity;
+    const axis = rotate(body.attitude, motor.axis ?? [0, 1, 0]);
+    const discDrop = airframe.propRadius * Math.sqrt(Math.max(0, 1 - axis[1] * axis[1]));
+    return body.position[1] + rotate(body.attitude, add(motor.position, [0, airframe.propClearance, 0]))[1] - discDrop;
+  }));
+}
+
+// Closest distance from a point to the ring's centreline, minus the tube
+function ringDistance(point: Vec3, ring: RingObstacle): number {
+  const [x, y, z] = sub(point, ring.center);
+  const radial = Math.sqrt(x * x + y * y) - ring.radius;
+  return Math.sqrt(radial * radial + z * z) - ring.tube;
+}
+
+// Compares the body before and after a physics step and reports a crash, if there was one.
+// `prev` matters because ground contact clamps the fall and levels the attitude in `next`.
+export function detectCrash(
+  prev: RigidBodyState,
+  next: RigidBodyState,
+  airframe: Airframe,
+  monitor: CrashMonitor,
+  context: CrashContext,
+  time: number,
+  dt: number,
+): CrashReport | null {
+  const report = (cause: CrashCause, body: RigidBodyState, impactSpeed: number, sinkRate = Math.max(0, -body.velocity[1])): CrashReport => {
+    const { roll, pitch, yaw } = toYawPitchRoll(body.attitude);
+    const deg = 180 / Math.PI;
+    return {
+      cause, time, impactSpeed, sinkRate,
+      position: [...next.position],
+      attitude: { roll: roll * deg, pitch: pitch * deg, yaw: yaw * deg },
+      windSpeed: length(context.wind),
+    };
+  };
+  // Sink rate the drone will reach falling from where it is now
+  const fallSink = Math.sqrt(Math.max(0, -next.velocity[1]) ** 2 + 2 * GRAVITY * Math.max(0, next.position[1]));
+  const fallSpeed = Math.hypot(fallSink, next.velocity[0], next.velocity[2]);
+
+  const touchdown = next.onGround && !prev.onGround;
+  if (touchdown && -prev.velocity[1] > MAX_SINK_RATE) {
+    return report(context.vortexRing > VORTEX_RING_BLAME ? 'vortex-ring' : 'hard-landing', prev, length(prev.velocity));
+  }
+
+  const strikeBody = touchdown ? { ...next, attitude: prev.attitude } : next;
+  if (lowestPropTip(strikeBody, airframe) < -0.01) return report('prop-strike', strikeBody, length(prev.velocity));
+
+  const airborne = next.position[1] > AIRBORNE_HEIGHT;
+  if (airborne && context.batteryDepleted) return report('battery-depleted', next, fallSpeed, fallSink);
+
+  monitor.tiltTime = airborne && tiltOf(next) > MAX_TILT ? monitor.tiltTime + dt : 0;
+  if (monitor.tiltTime > MAX_TILT_TIME) return report('loss-of-control', next, fallSpeed, fallSink);
+
+  const extent = Math.max(...airframe.motors.map(m => length(m.position))) + airframe.propRadius;
+  if (context.obstacles.some(ring => ringDistance(next.position, ring) < extent)) return report('obstacle', next, length(next.velocity));
+
+  return null;
+}
+
+// Terminal lines for the post-crash damage report
+export function formatCrashReport(crash: CrashReport): string[] {
+  const { label, explanation } = CRASH_CAUSES[crash.cause];
+  const [x, y, z] = crash.position;
+  return [
+    `CRASH DETECTED at T+${crash.time.toFixed(1)}s: ${label.toUpperCase()}`,
+    `  Impact speed: ${crash.impactSpeed.toFixed(1)} m/s, sink rate ${crash.sinkRate.toFixed(1)} m/s (limit ${MAX_SINK_RATE} m/s)`,
+    `  Attitude: roll ${crash.attitude.roll.toFixed(0)}°, pitch ${crash.attitude.pitch.toFixed(0)}°, heading ${((crash.attitude.yaw % 360 + 360) % 360).toFixed(0)}°`,
+    `  Position: x ${x.toFixed(1)}m, alt ${y.toFixed(1)}m, z ${z.toFixed(1)}m | Wind ${crash.windSpeed.toFixed(1)} m/s`,
+    `  Likely cause: ${explanation}`,
+  ];
+}
@@ -0,0 +1,209 @@
+import { RigidBodyState } from './rigidBody';
+import { SensorConfig, SensorReadings, magHeading } from './sensors';
+import { GRAVITY, Quat, Vec3, add, integrateAttitude, quatMultiply, quatNormalize, rotate, scale, sub, toYawPitchRoll, wrapAngle } from './math';
+
+// Error-state extended Kalman filter, the same structure as the navigation filters on real
+// autopilots. The gyro and accelerometer are integrated to predict the state at the IMU rate;
+// GPS, barometer and compass readings correct it as they arrive. The filter tracks a 15-element
+// error state [δposition, δvelocity, δattitude, δgyro bias, δaccel bias], all in the world frame
+// except the biases, and its covariance says how far off it thinks it is.
+export interface EkfState {
+  position: Vec3; // m
+  velocity: Vec3; // m/s
+  attitude: Quat;
+  gyroBias: Vec3; // rad/s, body frame
+  accelBias: Vec3; // m/s², body frame
+  covariance: number[][]; // 15×15 over the error state
+  lastFix: number; // Sim time of the last GPS fix fused
+  lastBaro: number; // Sim time of the last barometer sample fused
+  nextMag: number; // Sim time the compass is next fused
+}
+
+const N = 15;
+const P = 0, V = 3, TH = 6, BG = 9, BA = 12; // Offsets of each block in the error state
+
+// Process noise, as densities: each step adds q²·dt of variance on top of the sensor noise.
+// The floors stand in for what the filter doesn't model, such as vibration aliasing and wind.
+const ACCEL_PROCESS = 0.5; // m/s²/√Hz
+const GYRO_PROCESS = 0.01; // rad/s/√Hz
+const GYRO_BIAS_WALK = 1e-4; // rad/s per √s
+const ACCEL_BIAS_WALK = 2e-3; // m/s² per √s
+const HOVER_VIBRATION = 0.5; // Share of the full-throttle vibration the filter budgets for
+
+// Floors on the measurement noise, so ideal sensors don't make the filter overconfident
+const GPS_POSITION_FLOOR = 0.3; // m
+const GPS_VELOCITY_FLOOR = 0.1; // m/s
+const BARO_FLOOR = 0.1; // m
+const HEADING_FLOOR = 0.05; // rad
+const FIELD_HORIZONTAL = 25; // µT, horizontal strength of the Earth's field, for turning compass noise into heading noise
+const MAG_RATE = 10; // Hz
+
+// Starting uncertainty, as RMS per element of each block
+const INITIAL_SIGMA = [1, 0.5, 0.05, 0.01, 0.2];
+
+const identity = (): number[][] => Array.from({ length: N }, (_, i) => Array.from({ length: N }, (_, j) => (i === j ? 1 : 0)));
+
+// Rotation matrix, body to world
+function rotationMatrix(q: Quat): number[][] {
+  const cols = [rotate(q, [1, 0, 0]), rotate(q, [0, 1, 0]), rotate(q, [0, 0, 1])];
+  return [0, 1, 2].map(i => cols.map(c => c[i]));
+}
+
+// Small rotation about a world-frame rotation vector
+const rotationQuat = (theta: Vec3): Quat => integrateAttitude([1, 0, 0, 0], theta, 1);
+
+// Aligned with the airframe at power-up, as it sits still on the ground
+export function createEkfState(body: RigidBodyState): EkfState {
+  const covariance = identity();
+  for (let i = 0; i < N; i++) covariance[i][i] = INITIAL_SIGMA[Math.floor(i / 3)] ** 2;
+  return {
+    position: [...body.position],
+    velocity: [...body.velocity],
+    attitude: [...body.attitude],
+    gyroBias: [0, 0, 0],
+    accelBias: [0, 0, 0],
+    covariance,
+    lastFix: 0,
+    lastBaro: 0,
+    nextMag: 0,
+  };
+}
+
+// Propagates the state with one IMU sample and grows the covariance
+function predict(ekf: EkfState, readings: SensorReadings, config: SensorConfig, dt: number) {
+  const omega = sub(readings.gyro, ekf.gyroBias);
+  const force = rotate(ekf.attitude, sub(readings.accel, ekf.accelBias));
+  const acceleration: Vec3 = [force[0], force[1] - GRAVITY, force[2]];
+  const rot = rotationMatrix(ekf.attitude);
+
+  ekf.position = add(ekf.position, add(scale(ekf.velocity, dt), scale(acceleration, 0.5 * dt * dt)));
+  ekf.velocity = add(ekf.velocity, scale(acceleration, dt));
+  ekf.attitude = integrateAttitude(ekf.attitude, omega, dt);
+
+  // Φ = I + F·dt, with δp' = δv, δv' = -[f]×δθ - R·δba, δθ' = -R·δbg
+  const phi = identity();
+  const [fx, fy, fz] = force;
+  const skew = [[0, -fz, fy], [fz, 0, -fx], [-fy, fx, 0]];
+  for (let i = 0; i < 3; i++) {
+    phi[P + i][V + i] = dt;
+    for (let j = 0; j < 3; j++) {
+      phi[V + i][TH + j] = -skew[i][j] * dt;
+      phi[V + i][BA + j] = -rot[i][j] * dt;
+      phi[TH + i][BG + j] = -rot[i][j] * dt;
+    }
+  }
+
+  // P = Φ·P·Φᵀ + Q
+  const cov = ekf.covariance;
+  const phiP = phi.map(row => cov[0].map((_, j) => row.reduce((acc, r, k) => (r === 0 ? acc : acc + r * cov[k][j]), 0)));
+  const next = phiP.map(row => phi.map(other => other.reduce((acc, r, k) => (r === 0 ? acc : acc + row[k] * r), 0)));
+
+  const accelSigma = config.accelNoise + config.vibration * HOVER_VIBRATION;
+  const noise = [
+    0,
+    (accelSigma * dt) ** 2 + ACCEL_PROCESS ** 2 * dt,
+    (config.gyroNoise * dt) ** 2 + GYRO_PROCESS ** 2 * dt,
+    GYRO_BIAS_WALK ** 2 * dt,
+    ACCEL_BIAS_WALK ** 2 * dt,
+  ];
+  for (let i = 0; i < N; i++) {
+    next[i][i] += noise[Math.floor(i / 3)];
+    for (let j = 0; j < i; j++) next[i][j] = next[j][i] = (next[i][j] + next[j][i]) / 2;
+  }
+  ekf.covariance = next;
+}
+
+// Fuses one scalar measurement of a single error-state element and folds the correction into the state
+function fuse(ekf: EkfState, index: number, innovation: number, variance: number) {
+  const cov = ekf.covariance;
+  const pht = cov.map(row => row[index]);
+  const s = pht[index] + variance;
+  const gain = pht.map(p => p / s);
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < N; j++) cov[i][j] -= gain[i] * pht[j];
+  }
+
+  const dx = gain.map(k => k * innovation);
+  const block = (offset: number): Vec3 => [dx[offset], dx[offset + 1], dx[offset + 2]];
+  ekf.position = add(ekf.position, block(P));
+  ekf.velocity = add(ekf.velocity, block(V));
+  ekf.attitude = quatNormalize(quatMultiply(rotationQuat(block(TH)), ekf.attitude));
+  ekf.gyroBias = add(ekf.gyroBias, block(BG));
+  ekf.accelBias = add(ekf.accelBias, block(BA));
+}
+
+// One filter step: predict with the latest IMU sample, then fuse whatever else is new
+export function stepEkf(ekf: EkfState, readings: SensorReadings, config: SensorConfig, time: number, dt: number) {
+  predict(ekf, readings, config, dt);
+
+  // Without fixes nothing bounds the horizontal position: the filter dead-reckons on the
+  // accelerometer and its covariance grows until GPS comes back
+  const fix = readings.gps;
+  if (fix && fix.time > ekf.lastFix) {
+    const positionVariance = Math.max(fix.hdop * config.gpsUere, GPS_POSITION_FLOOR) ** 2;
+    const velocityVariance = Math.max(config.gpsVelocityNoise, GPS_VELOCITY_FLOOR) ** 2;
+    // GPS altitude is left to the barometer, as most autopilots do by default
+    for (const i of [0, 2]) fuse(ekf, P + i, fix.position[i] - ekf.position[i], positionVariance);
+    for (const i of [0, 1, 2]) fuse(ekf, V + i, fix.velocity[i] - ekf.velocity[i], velocityVariance);
+    ekf.lastFix = fix.time;
+  }
+
+  if (readings.baroTime > ekf.lastBaro) {
+    fuse(ekf, P + 1, readings.baroAltitude - ekf.position[1], Math.max(config.baroNoise, BARO_FLOOR) ** 2);
+    ekf.lastBaro = readings.baroTime;
+  }
+
+  if (time >= ekf.nextMag) {
+    // Heading is a rotation about world up, so it measures the vertical attitude error directly
+    const { yaw, pitch, roll } = toYawPitchRoll(ekf.attitude);
+    const heading = magHeading(readings.mag, roll, pitch);
+    fuse(ekf, TH + 1, wrapAngle(heading - yaw), Math.max(config.magNoise / FIELD_HORIZONTAL, HEADING_FLOOR) ** 2);
+    ekf.nextMag = Math.max(ekf.nextMag + 1 / MAG_RATE, time);
+  }
+}
+
+// Moves the estimate through a jump in the body state that the IMU never saw, such as a launch,
+// keeping whatever error it had
+export function shiftEkf(ekf: EkfState, from: RigidBodyState, to: RigidBodyState) {
+  ekf.position = add(ekf.position, sub(to.position, from.position));
+  ekf.velocity = add(ekf.velocity, sub(to.velocity, from.velocity));
+  const [w, x, y, z] = from.attitude;
+  ekf.attitude = quatNormalize(quatMultiply(quatMultiply(to.attitude, [w, -x, -y, -z]), ekf.attitude));
+}
+
+// The body state as the flight controller sees it: the filter's estimate, with bias-corrected gyro rates
+export function estimatedBody(ekf: EkfState, readings: SensorReadings, body: RigidBodyState): RigidBodyState {
+  return {
+    ...body,
+    position: ekf.position,
+    velocity: ekf.velocity,
+    attitude: ekf.attitude,
+    angularVelocity: sub(readings.gyro, ekf.gyroBias),
+  };
+}
+
+// Horizontal and vertical position (m) and heading (rad), for the filter's uncertainty and its actual error
+export interface NavigationError {
+  horizontal: number;
+  vertical: number;
+  heading: number;
+}
+
+// The filter's own 1σ uncertainty
+export function estimateSigma(ekf: EkfState): NavigationError {
+  const cov = ekf.covariance;
+  return {
+    horizontal: Math.sqrt(cov[P][P] + cov[P + 2][P + 2]),
+    vertical: Math.sqrt(cov[P + 1][P + 1]),
+    heading: Math.sqrt(cov[TH + 1][TH + 1]),
+  };
+}
+
+// How far off the estimate actually is; vertical and heading errors are signed
+export function estimateError(estimate: RigidBodyState, body: RigidBodyState): NavigationError {
+  return {
+    horizontal: Math.hypot(estimate.position[0] - body.position[0], estimate.position[2] - body.position[2]),
+    vertical: estimate.position[1] - body.position[1],
+    heading: wrapAngle(toYawPitchRoll(estimate.attitude).yaw - toYawPitchRoll(body.attitude).yaw),
+  };
+}
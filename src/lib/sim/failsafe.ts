@@ -0,0 +1,115 @@
+import { Vec3 } from './math';
+
+// Conditions the autopilot watches for, and what it does about each, as configured before flight
+export type FailsafeId = 'low_battery' | 'critical_battery' | 'rc_loss' | 'gps_loss' | 'geofence';
+export type FailsafeAction = 'report' | 'hold' | 'rtl' | 'land';
+
+export const FAILSAFES: Record<FailsafeId, { label: string; desc: string; delay: number }> = {
+  low_battery: {
+    label: 'Low battery',
+    desc: 'The pack has been below 3.5V per cell for a while. There is still enough left to come home.',
+    delay: 10, // s; short sags under a punch-out don't count
+  },
+  critical_battery: {
+    label: 'Critical battery',
+    desc: 'Below 3.3V per cell. Land now, before the ESCs cut out.',
+    delay: 5,
+  },
+  rc_loss: {
+    label: 'RC loss',
+    desc: 'No radio link from the pilot, so nobody can take over if something goes wrong.',
+    delay: 1,
+  },
+  gps_loss: {
+    label: 'GPS loss',
+    desc: 'No position fix. Position hold and RTL are unavailable, and the drone drifts with the wind.',
+    delay: 1,
+  },
+  geofence: {
+    label: 'Geofence breach',
+    desc: 'The estimated position left the fence: too far out, or too high.',
+    delay: 0,
+  },
+};
+
+// From mildest to most drastic. A failsafe never steps down from a response already under way,
+// so a landing doesn't turn back into a return.
+export const FAILSAFE_ACTIONS: Record<FailsafeAction, { label: string; desc: string }> = {
+  report: { label: 'Report', desc: 'Warn in the log and carry on.' },
+  hold: { label: 'Hold', desc: 'Stop and hold position (a plane circles where it is).' },
+  rtl: { label: 'RTL', desc: 'Return to launch and land there (a plane circles over home). Lands in place without a position fix.' },
+  land: { label: 'Land', desc: 'Land where it is (a plane glides in).' },
+};
+
+export type FenceType = 'none' | 'cylinder' | 'polygon';
+
+// A cylinder is centred on home, like ArduPilot's circular fence. Polygon corners are world [x, z]
+// in metres. The altitude ceiling, above home, applies to both.
+export interface Geofence {
+  type: FenceType;
+  radius: number; // m
+  maxAltitude: number; // m
+  polygon: [number, number][];
+}
+
+export interface FailsafeConfig {
+  actions: Record<FailsafeId, FailsafeAction>;
+  fence: Geofence;
+}
+
+export const DEFAULT_FENCE_POLYGON: [number, number][] = [[70, -40], [80, 30], [20, 75], [-50, 55], [-75, -15], [-20, -70]];
+
+export const DEFAULT_FAILSAFES: FailsafeConfig = {
+  actions: { low_battery: 'rtl', critical_battery: 'land', rc_loss: 'rtl', gps_loss: 'land', geofence: 'rtl' },
+  fence: { type: 'cylinder', radius: 100, maxAltitude: 50, polygon: DEFAULT_FENCE_POLYGON },
+};
+
+export interface FailsafeState {
+  pending: Partial<Record<FailsafeId, number>>; // Sim time each condition came on, while it lasts
+  triggered: Partial<Record<FailsafeId, number>>; // Sim time each failsafe fired; it can't fire again until its condition clears
+}
+
+export const createFailsafeState = (): FailsafeState => ({ pending: {}, triggered: {} });
+
+// Even-odd ray casting in the horizontal plane
+function insidePolygon(polygon: [number, number][], x: number, z: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, zi] = polygon[i];
+    const [xj, zj] = polygon[j];
+    if ((zi > z) !== (zj > z) && x < (xj - xi) * (z - zi) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// What's wrong with a position relative to the fence, or null if it's inside
+export function fenceBreach(fence: Geofence, home: Vec3, position: Vec3): string | null {
+  if (fence.type === 'none') return null;
+  const altitude = position[1] - home[1];
+  if (altitude > fence.maxAltitude) return `${altitude.toFixed(0)}m above home, ceiling ${fence.maxAltitude}m`;
+  if (fence.type === 'cylinder') {
+    const distance = Math.hypot(position[0] - home[0], position[2] - home[2]);
+    return distance > fence.radius ? `${distance.toFixed(0)}m from home, limit ${fence.radius}m` : null;
+  }
+  return insidePolygon(fence.polygon, position[0], position[2]) ? null : 'outside the polygon';
+}
+
+// Tracks each condition and returns the failsafes that fire this step: those whose condition has
+// now held for the failsafe's delay. A condition that clears re-arms its failsafe.
+export function checkFailsafes(state: FailsafeState, conditions: Record<FailsafeId, boolean>, time: number): FailsafeId[] {
+  const fired: FailsafeId[] = [];
+  for (const id of Object.keys(FAILSAFES) as FailsafeId[]) {
+    if (!conditions[id]) {
+      delete state.pending[id];
+      delete state.triggered[id];
+      continue;
+    }
+    const since = state.pending[id] ?? time;
+    state.pending[id] = since;
+    if (state.triggered[id] === undefined && time - since >= FAILSAFES[id].delay) {
+      state.triggered[id] = time;
+      fired.push(id);
+    }
+  }
+  return fired;
+}
@@ -0,0 +1,83 @@
+export type FaultId = 'motor_failure' | 'esc_desync' | 'gps_loss' | 'compass_interference' | 'rx_failsafe' | 'cell_failure';
+
+export interface ActiveFault {
+  since: number; // Sim time the fault was injected
+  motor: number; // Affected motor index, for motor faults
+}
+
+export interface FaultState {
+  active: Partial<Record<FaultId, ActiveFault>>;
+  desyncUntil: number; // Sim time the current ESC desync dropout ends
+}
+
+export const FAULTS: Record<FaultId, { label: string; desc: string; perMotor: boolean }> = {
+  motor_failure: {
+    label: 'Motor Failure',
+    desc: 'One motor stops producing thrust, e.g. a burnt winding or a shorted phase. A quad loses yaw authority and spins; a hexa- or octocopter limps on with the rest.',
+    perMotor: true,
+  },
+  esc_desync: {
+    label: 'ESC Desync',
+    desc: 'The ESC loses track of the rotor position under heavy load and the motor stutters out for a fraction of a second.',
+    perMotor: true,
+  },
+  gps_loss: {
+    label: 'GPS Loss',
+    desc: 'No more position fixes. Without a position source the controller can only hold altitude and a level attitude, so the drone drifts with the wind.',
+    perMotor: false,
+  },
+  compass_interference: {
+    label: 'Compass Interference',
+    desc: 'Battery leads run past the magnetometer. The heading error grows with current, and position hold circles ("toilet-bowling").',
+    perMotor: false,
+  },
+  rx_failsafe: {
+    label: 'RX Failsafe',
+    desc: 'The receiver loses the radio link, e.g. an antenna shadowed by the carbon frame. Stick input no longer reaches the drone.',
+    perMotor: false,
+  },
+  cell_failure: {
+    label: 'Dropped Cell',
+    desc: 'A damaged cell in the pack stops contributing. Pack voltage drops by a cell\'s worth, thrust sags and the voltage warnings trip early.',
+    perMotor: false,
+  },
+};
+
+const DESYNC_LOAD = 0.3; // Command above which the ESC can lose sync
+const DESYNC_RATE = 2; // Dropouts per second at full load
+const DESYNC_DURATION: [number, number] = [0.05, 0.2]; // s
+
+export const createFaultState = (): FaultState => ({ active: {}, desyncUntil: 0 });
+
+// Sensor faults take effect in the sensor models (see sensors.ts)
+export function injectFault(faults: FaultState, id: FaultId, time: number, motor = 0) {
+  faults.active[id] = { since: time, motor };
+}
+
+export function clearFault(faults: FaultState, id: FaultId) {
+  delete faults.active[id];
+}
+
+export function clearFaults(faults: FaultState) {
+  Object.assign(faults, createFaultState());
+}
+
+// Motor commands as the motors actually carry them out
+export function applyMotorFaults(faults: FaultState, commands: number[], time: number, dt: number, random: () => number = Math.random): number[] {
+  const { motor_failure, esc_desync } = faults.active;
+  if (esc_desync && time >= faults.desyncUntil) {
+    const load = commands[esc_desync.motor] ?? 0;
+    if (load > DESYNC_LOAD && random() < DESYNC_RATE * load * dt) {
+      faults.desyncUntil = time + DESYNC_DURATION[0] + (DESYNC_DURATION[1] - DESYNC_DURATION[0]) * random();
+    }
+  }
+  return commands.map((c, i) => {
+    if (motor_failure && i === motor_failure.motor) return 0;
+    if (esc_desync && i === esc_desync.motor && time < faults.desyncUntil) return 0;
+    return c;
+  });
+}
+
+export const hasPositionFix = (faults: FaultState) => !faults.active.gps_loss;
+
+export const deadCells = (faults: FaultState) => (faults.active.cell_failure ? 1 : 0);
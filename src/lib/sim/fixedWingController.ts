@@ -0,0 +1,157 @@
+import { Airframe, combineMotorCommands } from './airframe';
+import { ControlSurfaces, airData, stallSpeed } from './aerodynamics';
+import { RigidBodyState } from './rigidBody';
+import { GRAVITY, Vec3, clamp, quatFromYawPitchRoll, toYawPitchRoll, wrapAngle } from './math';
+import { PidGains, PidState, createPidState, updatePid } from './pid';
+
+// Where the autopilot steers: a fixed course, straight at a point, or circling one
+export type FixedWingNav =
+  | { kind: 'course'; course: number } // rad, unwrapped so turns past 180° keep their direction
+  | { kind: 'waypoint'; target: Vec3 }
+  | { kind: 'loiter'; center: Vec3; radius: number; direction: 1 | -1 }; // 1 = left turns, -1 = right turns
+
+export interface FixedWingSetpoint {
+  nav: FixedWingNav;
+  altitude: number; // m
+  airspeed: number; // m/s
+  glide: boolean; // Landing approach: motor off, pitch holds airspeed, flare near the ground
+}
+
+export interface FixedWingControllerState {
+  course: number | null; // Unwrapped ground course, rad
+  altitude: PidState;
+  airspeed: PidState;
+  glide: PidState;
+}
+
+export type LaunchKind = 'hand' | 'catapult';
+
+export const CRUISE_AIRSPEED = 12; // m/s
+export const CRUISE_ALTITUDE = 20; // m, climb-out target after a launch
+export const MIN_AIRSPEED_MARGIN = 1.3; // Minimum airspeed as a multiple of the stall speed
+export const LAUNCH: Record<LaunchKind, { speed: number; height: number; pitch: number }> = {
+  hand: { speed: 9, height: 1.8, pitch: 10 * Math.PI / 180 },
+  catapult: { speed: 16, height: 1.2, pitch: 15 * Math.PI / 180 },
+};
+
+const MAX_BANK = 35 * Math.PI / 180;
+const MAX_PITCH_UP = 15 * Math.PI / 180;
+const MAX_PITCH_DOWN = 12 * Math.PI / 180;
+const COURSE_GAIN = 1.2; // Bank per radian of course error
+const ORBIT_GAIN = 2; // How hard the loiter vector field pulls back onto the circle
+const FLARE_HEIGHT = 1.5; // m
+const FLARE_SINK_RATE = 0.5; // m/s
+
+const ALTITUDE_GAINS: PidGains = { kp: 0.08, ki: 0.01, kd: 0, iLimit: 0.1 }; // m -> rad of pitch
+const AIRSPEED_GAINS: PidGains = { kp: 0.15, ki: 0.08, kd: 0, iLimit: 0.5 }; // m/s -> throttle
+const GLIDE_GAINS: PidGains = { kp: 0.05, ki: 0.01, kd: 0, iLimit: 0.1 }; // m/s -> rad of pitch
+const ROLL_KP = 1.5;
+const ROLL_KD = 0.15;
+const PITCH_KP = 2;
+const PITCH_KD = 0.2;
+const TURN_ELEVATOR = 0.3; // Extra up elevator to hold altitude in a bank
+const CLIMB_THROTTLE = 1.2; // Throttle per radian of commanded climb
+const CRUISE_THROTTLE = 0.35;
+const YAW_DAMPER = 0.3;
+
+export const createFixedWingControllerState = (): FixedWingControllerState => ({
+  course: null,
+  altitude: createPidState(),
+  airspeed: createPidState(),
+  glide: createPidState(),
+});
+
+// Tightest circle the plane can fly at the bank limit
+export const minTurnRadius = (airspeed: number) => airspeed * airspeed / (GRAVITY * Math.tan(MAX_BANK));
+
+export const minAirspeed = (airframe: Airframe) => (airframe.wing ? stallSpeed(airframe.wing, airframe.mass) * MIN_AIRSPEED_MARGIN : 0);
+
+// Ground course, falling back to the heading when barely moving
+export function groundCourse(body: RigidBodyState): number {
+  const [vx, , vz] = body.velocity;
+  return Math.hypot(vx, vz) > 1 ? Math.atan2(vx, vz) : toYawPitchRoll(body.attitude).yaw;
+}
+
+// Body state just after a hand throw or catapult stroke, nose up on the given heading
+export function launchBody(body: RigidBodyState, kind: LaunchKind, yaw: number): RigidBodyState {
+  const { speed, height, pitch } = LAUNCH[kind];
+  const climb = pitch / 2; // The throw climbs a little less steeply than the nose points
+  return {
+    ...body,
+    position: [body.position[0], height, body.position[2]],
+    velocity: [Math.sin(yaw) * speed * Math.cos(climb), speed * Math.sin(climb), Math.cos(yaw) * speed * Math.cos(climb)],
+    attitude: quatFromYawPitchRoll(yaw, -pitch, 0),
+    angularVelocity: [0, 0, 0],
+    onGround: false,
+  };
+}
+
+// Course to fly for the current navigation target
+function courseCommand(nav: FixedWingNav, body: RigidBodyState, course: number): number {
+  const [x, , z] = body.position;
+  switch (nav.kind) {
+    case 'course':
+      return nav.course;
+    case 'waypoint':
+      return course + wrapAngle(Math.atan2(nav.target[0] - x, nav.target[2] - z) - course);
+    case 'loiter': {
+      // Vector field: fly the circle's tangent, turned in or out by the radial error
+      const dx = x - nav.center[0];
+      const dz = z - nav.center[2];
+      const distance = Math.hypot(dx, dz);
+      const around = Math.atan2(dx, dz);
+      const desired = around + nav.direction * (Math.PI / 2 + Math.atan(ORBIT_GAIN * (distance - nav.radius) / nav.radius));
+      return course + wrapAngle(desired - course);
+    }
+  }
+}
+
+// Total energy-style autopilot: bank steers the course, pitch holds altitude and the motor holds
+// airspeed. In a glide the motor is off and pitch holds airspeed instead.
+export function computeFixedWingCommands(
+  body: RigidBodyState,
+  airframe: Airframe,
+  setpoint: FixedWingSetpoint,
+  ctrl: FixedWingControllerState,
+  wind: Vec3,
+  dt: number,
+): { motors: number[]; surfaces: ControlSurfaces } {
+  const { pitch, roll } = toYawPitchRoll(body.attitude);
+  const theta = -pitch; // Nose-up pitch
+  const [wx, wy, wz] = body.angularVelocity;
+  const { airspeed, beta } = airData(body, wind);
+  const height = body.position[1];
+  const vMin = minAirspeed(airframe);
+  const targetAirspeed = Math.max(setpoint.airspeed, vMin);
+
+  const measured = groundCourse(body);
+  ctrl.course = ctrl.course === null ? measured : ctrl.course + wrapAngle(measured - ctrl.course);
+  const courseError = clamp(courseCommand(setpoint.nav, body, ctrl.course) - ctrl.course, -Math.PI / 2, Math.PI / 2);
+  // A larger course means turning left, which takes a left (negative) bank
+  let bankCmd = clamp(-COURSE_GAIN * courseError, -MAX_BANK, MAX_BANK);
+
+  let pitchCmd: number;
+  let throttle: number;
+  if (setpoint.glide) {
+    throttle = 0;
+    // Too slow -> nose down. Close to the ground, level the wings and flare to arrest the sink.
+    pitchCmd = clamp(updatePid(ctrl.glide, GLIDE_GAINS, airspeed, targetAirspeed, dt) - 3 * Math.PI / 180, -MAX_PITCH_DOWN, MAX_PITCH_UP);
+    if (height < FLARE_HEIGHT) {
+      bankCmd = 0;
+      pitchCmd = Math.max(pitchCmd, clamp(0.3 * (body.velocity[1] + FLARE_SINK_RATE), -MAX_PITCH_DOWN, MAX_PITCH_UP));
+    }
+  } else {
+    pitchCmd = clamp(updatePid(ctrl.altitude, ALTITUDE_GAINS, setpoint.altitude, height, dt), -MAX_PITCH_DOWN, MAX_PITCH_UP);
+    // Stall protection: below the minimum airspeed, give up altitude for speed
+    if (airspeed < vMin) pitchCmd = Math.min(pitchCmd, -0.1 * (vMin - airspeed));
+    throttle = clamp(CRUISE_THROTTLE + updatePid(ctrl.airspeed, AIRSPEED_GAINS, targetAirspeed, airspeed, dt) + CLIMB_THROTTLE * pitchCmd, 0, 1);
+  }
+
+  const surfaces: ControlSurfaces = {
+    aileron: clamp(ROLL_KP * (bankCmd - roll) - ROLL_KD * wz, -1, 1),
+    elevator: clamp(PITCH_KP * (pitchCmd - theta) + PITCH_KD * wx + TURN_ELEVATOR * (1 / Math.max(Math.cos(roll), 0.5) - 1), -1, 1),
+    rudder: clamp(YAW_DAMPER * (beta + 0.2 * wy), -1, 1),
+  };
+  // Only the pusher flies the plane; a quadplane's lift motors stay stopped
+  return { motors: combineMotorCommands(airframe, [], throttle), surfaces };
+}
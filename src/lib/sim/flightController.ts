@@ -0,0 +1,196 @@
+import { Airframe } from './airframe';
+import { RigidBodyState } from './rigidBody';
+import { GRAVITY, Vec3, clamp, dot, scale, toYawPitchRoll, wrapAngle } from './math';
+import { PidGains, PidState, createPidState, updatePid } from './pid';
+
+export interface Setpoint {
+  position: Vec3;
+  yaw: number; // rad
+  attitude?: { roll: number; pitch: number }; // rad; bypasses the horizontal position and velocity loops
+  rates?: Vec3; // rad/s body rates [pitch, yaw, roll]; bypasses the attitude loop as well
+  thrust?: number; // N collective before tilt compensation; bypasses the vertical position and velocity loops
+  descentRate?: number; // m/s; raises the descent limit for a commanded fast descent
+}
+
+export const MAX_HORIZONTAL_SPEED = 3; // m/s
+export const MAX_CLIMB_RATE = 1.5;
+export const MAX_DESCENT_RATE = 1;
+export const MAX_TILT = 30 * Math.PI / 180;
+const MAX_YAW_RATE = 3; // rad/s
+const GYRO_LPF_HZ = 20; // The filtering lag is what makes an over-tuned rate loop oscillate
+
+// Builds the motor mixer: the pseudo-inverse of the matrix that maps per-motor thrust
+// to collective thrust and body torques. Row i gives motor i's share of [T, τx, τy, τz].
+export function buildMixer(airframe: Airframe): number[][] {
+  const b = [
+    airframe.motors.map(() => 1),
+    airframe.motors.map(m => -m.position[2]),
+    airframe.motors.map(m => -m.spin * airframe.yawTorquePerThrust),
+    airframe.motors.map(m => m.position[0]),
+  ];
+  const bbt = b.map(r1 => b.map(r2 => r1.reduce((acc, v, k) => acc + v * r2[k], 0)));
+  const inv = invert4(bbt);
+  return airframe.motors.map((_, i) => inv.map((_, j) => b.reduce((acc, row, k) => acc + row[i] * inv[k][j], 0)));
+}
+
+function invert4(m: number[][]): number[][] {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col] || 1e-12;
+    for (let c = 0; c < 2 * n; c++) a[col][c] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      for (let c = 0; c < 2 * n; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+// Turns a thrust/torque demand into 0..1 motor commands. Roll and pitch get priority:
+// collective is lowered to make room at the top, but never raised to make room at the
+// bottom (that would climb away), and yaw only uses the headroom that is left.
+export function mix(mixer: number[][], airframe: Airframe, thrust: number, torque: Vec3): number[] {
+  const max = airframe.maxThrustPerMotor;
+  if (max <= 0) return mixer.map(() => 0);
+
+  let rp = mixer.map(r => r[1] * torque[0] + r[3] * torque[2]);
+  const span = Math.max(...rp) - Math.min(...rp);
+  if (span > max) rp = rp.map(t => t * max / span);
+
+  let collective = mixer.map(r => r[0] * thrust);
+  const over = Math.max(...collective.map((c, i) => c + rp[i])) - max;
+  if (over > 0) collective = collective.map(c => c - over);
+  const lowScale = rp.reduce((s, t, i) => (t < 0 ? Math.min(s, Math.max(0, collective[i]) / -t) : s), 1);
+  const out = collective.map((c, i) => c + rp[i] * lowScale);
+
+  const yaw = mixer.map(r => r[2] * torque[1]);
+  const yawScale = yaw.reduce((s, y, i) => {
+    if (y > 0) return Math.min(s, Math.max(0, max - out[i]) / y);
+    if (y < 0) return Math.min(s, Math.max(0, out[i]) / -y);
+    return s;
+  }, 1);
+
+  return out.map((t, i) => clamp((t + yaw[i] * yawScale) / max, 0, 1));
+}
+
+export interface ControllerGains {
+  rate: { roll: PidGains; pitch: PidGains; yaw: PidGains }; // rad/s error -> rad/s²
+  attitude: { roll: PidGains; pitch: PidGains; yaw: PidGains }; // rad error -> rad/s
+  velocity: { horizontal: PidGains; vertical: PidGains }; // m/s error -> m/s²
+  position: { horizontal: PidGains; vertical: PidGains }; // m error -> m/s
+}
+
+export type ControlLoop = keyof ControllerGains;
+
+export const DEFAULT_GAINS: ControllerGains = {
+  rate: {
+    roll: { kp: 25, ki: 10, kd: 0.3, iLimit: 20 },
+    pitch: { kp: 25, ki: 10, kd: 0.3, iLimit: 20 },
+    yaw: { kp: 10, ki: 2, kd: 0, iLimit: 10 },
+  },
+  attitude: {
+    roll: { kp: 8, ki: 0, kd: 0, iLimit: 0 },
+    pitch: { kp: 8, ki: 0, kd: 0, iLimit: 0 },
+    yaw: { kp: 4, ki: 0, kd: 0, iLimit: 0 },
+  },
+  velocity: {
+    horizontal: { kp: 2.5, ki: 0.6, kd: 0, iLimit: 3 },
+    vertical: { kp: 3, ki: 1, kd: 0, iLimit: 4 },
+  },
+  position: {
+    horizontal: { kp: 1.2, ki: 0, kd: 0, iLimit: 0 },
+    vertical: { kp: 1.5, ki: 0, kd: 0, iLimit: 0 },
+  },
+};
+
+// Integrator and derivative memory for every loop, reset whenever the motors arm
+export interface ControllerState {
+  rate: { roll: PidState; pitch: PidState; yaw: PidState };
+  attitude: { roll: PidState; pitch: PidState; yaw: PidState };
+  velocity: { x: PidState; y: PidState; z: PidState };
+  position: { x: PidState; y: PidState; z: PidState };
+  yawUnwrapped: number | null; // Continuous heading so the yaw D-term doesn't spike at ±180°
+  gyro: Vec3; // Low-pass filtered body rates
+}
+
+export const createControllerState = (): ControllerState => ({
+  rate: { roll: createPidState(), pitch: createPidState(), yaw: createPidState() },
+  attitude: { roll: createPidState(), pitch: createPidState(), yaw: createPidState() },
+  velocity: { x: createPidState(), y: createPidState(), z: createPidState() },
+  position: { x: createPidState(), y: createPidState(), z: createPidState() },
+  yawUnwrapped: null,
+  gyro: [0, 0, 0],
+});
+
+// Cascaded position -> velocity -> attitude -> body-rate controller, one PID per axis per loop.
+// Each outer loop produces the setpoint for the loop inside it. Updates `ctrl` in place.
+export function computeMotorCommands(state: RigidBodyState, airframe: Airframe, mixer: number[][], setpoint: Setpoint, gains: ControllerGains, ctrl: ControllerState, dt: number): number[] {
+  const { yaw, pitch, roll } = toYawPitchRoll(state.attitude);
+  const { position, velocity } = state;
+
+  // Vertical position and velocity loops
+  const tiltComp = Math.max(Math.cos(roll) * Math.cos(pitch), 0.5);
+  const maxTotal = airframe.maxThrustPerMotor * airframe.motors.length;
+  let collective: number;
+  if (setpoint.thrust !== undefined) {
+    collective = setpoint.thrust;
+  } else {
+    const climbSp = clamp(updatePid(ctrl.position.y, gains.position.vertical, setpoint.position[1], position[1], dt), -(setpoint.descentRate ?? MAX_DESCENT_RATE), MAX_CLIMB_RATE);
+    const accY = updatePid(ctrl.velocity.y, gains.velocity.vertical, climbSp, velocity[1], dt);
+    collective = airframe.mass * (GRAVITY + accY);
+  }
+  const thrust = clamp(collective / tiltComp, 0, maxTotal);
+
+  // Horizontal position and velocity loops -> lean angles in the heading frame
+  let pitchSp: number;
+  let rollSp: number;
+  if (setpoint.attitude) {
+    pitchSp = setpoint.attitude.pitch;
+    rollSp = setpoint.attitude.roll;
+  } else {
+    let velSp: Vec3 = [
+      updatePid(ctrl.position.x, gains.position.horizontal, setpoint.position[0], position[0], dt),
+      0,
+      updatePid(ctrl.position.z, gains.position.horizontal, setpoint.position[2], position[2], dt),
+    ];
+    const horizontal = Math.hypot(velSp[0], velSp[2]);
+    if (horizontal > MAX_HORIZONTAL_SPEED) velSp = scale(velSp, MAX_HORIZONTAL_SPEED / horizontal);
+
+    const acc: Vec3 = [
+      updatePid(ctrl.velocity.x, gains.velocity.horizontal, velSp[0], velocity[0], dt),
+      0,
+      updatePid(ctrl.velocity.z, gains.velocity.horizontal, velSp[2], velocity[2], dt),
+    ];
+    const forward: Vec3 = [Math.sin(yaw), 0, Math.cos(yaw)];
+    const right: Vec3 = [-Math.cos(yaw), 0, Math.sin(yaw)];
+    pitchSp = clamp(Math.atan(dot(acc, forward) / GRAVITY), -MAX_TILT, MAX_TILT);
+    rollSp = clamp(Math.atan(dot(acc, right) / GRAVITY), -MAX_TILT, MAX_TILT);
+  }
+
+  // Attitude loop -> body rate setpoints
+  ctrl.yawUnwrapped = ctrl.yawUnwrapped === null ? yaw : ctrl.yawUnwrapped + wrapAngle(yaw - ctrl.yawUnwrapped);
+  const yawError = wrapAngle(setpoint.yaw - yaw);
+  const rateSp: Vec3 = setpoint.rates ?? [
+    updatePid(ctrl.attitude.pitch, gains.attitude.pitch, pitchSp, pitch, dt),
+    clamp(updatePid(ctrl.attitude.yaw, gains.attitude.yaw, setpoint.yaw, ctrl.yawUnwrapped, dt, yawError), -MAX_YAW_RATE, MAX_YAW_RATE),
+    updatePid(ctrl.attitude.roll, gains.attitude.roll, rollSp, roll, dt),
+  ];
+
+  // Rate loop -> angular acceleration -> body torques
+  const alpha = 1 - Math.exp(-2 * Math.PI * GYRO_LPF_HZ * dt);
+  ctrl.gyro = [0, 1, 2].map(i => ctrl.gyro[i] + (state.angularVelocity[i] - ctrl.gyro[i]) * alpha) as Vec3;
+  const angularVelocity = ctrl.gyro;
+  const angAcc: Vec3 = [
+    updatePid(ctrl.rate.pitch, gains.rate.pitch, rateSp[0], angularVelocity[0], dt),
+    updatePid(ctrl.rate.yaw, gains.rate.yaw, rateSp[1], angularVelocity[1], dt),
+    updatePid(ctrl.rate.roll, gains.rate.roll, rateSp[2], angularVelocity[2], dt),
+  ];
+  const torque: Vec3 = [angAcc[0] * airframe.inertia[0], angAcc[1] * airframe.inertia[1], angAcc[2] * airframe.inertia[2]];
+
+  return mix(mixer, airframe, thrust, torque);
+}
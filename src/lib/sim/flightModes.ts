@@ -0,0 +1,196 @@
+import { ControllerState, MAX_CLIMB_RATE, MAX_DESCENT_RATE, MAX_HORIZONTAL_SPEED, MAX_TILT, Setpoint } from './flightController';
+import { createPidState } from './pid';
+import { RigidBodyState } from './rigidBody';
+import { GRAVITY, Vec3, clamp, toYawPitchRoll } from './math';
+
+// Multirotor flight modes, named and behaving like ArduPilot Copter's
+export type FlightMode = 'STABILIZE' | 'ACRO' | 'ALT_HOLD' | 'LOITER' | 'RTL' | 'LAND';
+
+export const FLIGHT_MODES: Record<FlightMode, { label: string; desc: string; needsPosition: boolean; canArm: boolean }> = {
+  STABILIZE: {
+    label: 'Stabilize',
+    desc: 'Sticks set the lean angle and the throttle sets thrust directly, mid-stick for hover. Self-levels when you let go, but drifts with the wind and climbs or sinks with the battery.',
+    needsPosition: false,
+    canArm: true,
+  },
+  ACRO: {
+    label: 'Acro',
+    desc: 'Sticks set rotation rates and nothing levels the drone for you. Let go mid-roll and it stays rolled. For flips, and for learning how the rate loop feels.',
+    needsPosition: false,
+    canArm: true,
+  },
+  ALT_HOLD: {
+    label: 'Alt Hold',
+    desc: 'Like Stabilize, but the barometer holds altitude and the throttle sets the climb rate. Horizontal position still drifts.',
+    needsPosition: false,
+    canArm: true,
+  },
+  LOITER: {
+    label: 'Loiter',
+    desc: 'Holds position and altitude on GPS. Sticks move the drone at up to 3 m/s and it stops where you let go. Scripted moves fly in this mode.',
+    needsPosition: true,
+    canArm: true,
+  },
+  RTL: {
+    label: 'RTL',
+    desc: 'Return to launch: climbs to 5 m, flies back over the spot where it armed, then lands and disarms.',
+    needsPosition: true,
+    canArm: false,
+  },
+  LAND: {
+    label: 'Land',
+    desc: 'Descends at 0.5 m/s where it is and disarms on touchdown. Sticks can still nudge it sideways with a position fix.',
+    needsPosition: false,
+    canArm: false,
+  },
+};
+
+// Pilot stick deflections, -1..1 and centred at 0: pitch forward, roll right, yaw right, throttle up
+export interface Sticks {
+  roll: number;
+  pitch: number;
+  yaw: number;
+  throttle: number;
+}
+
+export type RtlStage = 'climb' | 'return' | 'land';
+
+export interface FlightModeState {
+  mode: FlightMode;
+  rtl: RtlStage; // Stage of the return, while in RTL
+  home: Vec3 | null; // Where the motors armed; set by the simulation, for planes too
+  reason: string | null; // Why the autopilot last changed mode by itself, for the ground station
+  landSpeed: number; // m/s descent in LAND above LAND_FINAL_ALTITUDE; a script can ask for more
+}
+
+const STICK_DEADBAND = 0.05;
+const PILOT_YAW_RATE = 2; // rad/s at full stick
+const ACRO_RATE = 3; // rad/s roll and pitch at full stick
+const THROTTLE_RANGE = 0.5; // Full stick is 1 ± this share of hover thrust
+const HORIZONTAL_LEASH = 2; // m; how far the position target may run ahead of the drone
+const VERTICAL_LEASH = 1; // m
+const RTL_ALTITUDE = 5; // m, minimum altitude for the return
+const RTL_ARRIVAL = 0.5; // m from home before descending
+export const LAND_SPEED = 0.5; // m/s
+const LAND_FINAL_ALTITUDE = 2; // m; below this LAND always slows to LAND_SPEED
+
+export const CENTERED_STICKS: Sticks = { roll: 0, pitch: 0, yaw: 0, throttle: 0 };
+
+export const createFlightModeState = (): FlightModeState => ({ mode: 'LOITER', rtl: 'climb', home: null, reason: null, landSpeed: LAND_SPEED });
+
+const deadband = (v: number) => (Math.abs(v) < STICK_DEADBAND ? 0 : v);
+
+// Switches mode, taking over from the current estimate so the drone doesn't lurch toward an old
+// setpoint. Returns an error instead if the mode needs a position fix the drone doesn't have.
+export function setFlightMode(
+  state: FlightModeState,
+  mode: FlightMode,
+  estimate: RigidBodyState,
+  setpoint: Setpoint,
+  ctrl: ControllerState,
+  positionFix: boolean,
+  reason: string | null = null,
+): string | null {
+  if (FLIGHT_MODES[mode].needsPosition && !positionFix) return `${FLIGHT_MODES[mode].label} needs a position fix.`;
+  if (mode === 'RTL' && !state.home) return 'No home position. Arm first.';
+
+  const { yaw } = toYawPitchRoll(estimate.attitude);
+  Object.assign(setpoint, { position: [...estimate.position], yaw, attitude: undefined, rates: undefined, thrust: undefined, descentRate: undefined });
+  // The outer loops were idle in the manual modes; start them clean
+  ctrl.position = { x: createPidState(), y: createPidState(), z: createPidState() };
+  ctrl.velocity = { x: createPidState(), y: createPidState(), z: createPidState() };
+  state.mode = mode;
+  state.rtl = 'climb';
+  state.reason = reason;
+  state.landSpeed = LAND_SPEED;
+  return null;
+}
+
+// Moves the target by the stick's rate, but no further than `leash` from the estimate
+const steer = (target: number, current: number, rate: number, leash: number, dt: number) =>
+  rate === 0 ? target : clamp(target + rate * dt, current - leash, current + leash);
+
+// Turns the sticks and the mode's automatic behaviour into the setpoint for the cascaded
+// controller; updates `setpoint` and `state` in place. Position modes drop to Alt Hold when the
+// fix is lost. Returns true once a landing mode has touched down, so the caller can disarm.
+export function stepFlightMode(
+  state: FlightModeState,
+  setpoint: Setpoint,
+  ctrl: ControllerState,
+  sticks: Sticks,
+  estimate: RigidBodyState,
+  onGround: boolean,
+  mass: number,
+  voltageScale: number, // Thrust per command relative to the rated pack voltage
+  positionFix: boolean,
+  dt: number,
+): boolean {
+  if (FLIGHT_MODES[state.mode].needsPosition && !positionFix) {
+    setFlightMode(state, 'ALT_HOLD', estimate, setpoint, ctrl, positionFix, 'Position fix lost');
+  }
+
+  const roll = deadband(sticks.roll);
+  const pitch = deadband(sticks.pitch);
+  const yaw = deadband(sticks.yaw);
+  const throttle = deadband(sticks.throttle);
+  const { yaw: heading } = toYawPitchRoll(estimate.attitude);
+  const [x, y, z] = estimate.position;
+  // Mid-stick hover thrust, compensated for the pack voltage as ArduPilot does
+  const hoverThrust = mass * GRAVITY / Math.max(voltageScale, 0.1);
+  const climbRate = throttle > 0 ? throttle * MAX_CLIMB_RATE : throttle * MAX_DESCENT_RATE;
+
+  // Positive yaw turns left, so a right stick winds the heading down
+  if (state.mode !== 'ACRO') setpoint.yaw -= yaw * PILOT_YAW_RATE * dt;
+
+  // Sticks move the position target through the air in the heading frame
+  const steerHorizontal = () => {
+    const forward = pitch * MAX_HORIZONTAL_SPEED;
+    const right = roll * MAX_HORIZONTAL_SPEED;
+    const vx = Math.sin(heading) * forward - Math.cos(heading) * right;
+    const vz = Math.cos(heading) * forward + Math.sin(heading) * right;
+    setpoint.position[0] = steer(setpoint.position[0], x, vx, HORIZONTAL_LEASH, dt);
+    setpoint.position[2] = steer(setpoint.position[2], z, vz, HORIZONTAL_LEASH, dt);
+  };
+
+  switch (state.mode) {
+    case 'ACRO':
+      setpoint.rates = [pitch * ACRO_RATE, -yaw * PILOT_YAW_RATE, roll * ACRO_RATE];
+      setpoint.thrust = hoverThrust * (1 + throttle * THROTTLE_RANGE);
+      return false;
+    case 'STABILIZE':
+      setpoint.attitude = { roll: roll * MAX_TILT, pitch: pitch * MAX_TILT };
+      setpoint.thrust = hoverThrust * (1 + throttle * THROTTLE_RANGE);
+      return false;
+    case 'ALT_HOLD':
+      setpoint.attitude = { roll: roll * MAX_TILT, pitch: pitch * MAX_TILT };
+      setpoint.position[1] = steer(setpoint.position[1], y, climbRate, VERTICAL_LEASH, dt);
+      return false;
+    case 'LOITER':
+      steerHorizontal();
+      setpoint.position[1] = steer(setpoint.position[1], y, climbRate, VERTICAL_LEASH, dt);
+      return false;
+    case 'RTL': {
+      const home = state.home ?? estimate.position;
+      const altitude = Math.max(setpoint.position[1], RTL_ALTITUDE);
+      if (state.rtl === 'climb') {
+        setpoint.position[1] = altitude;
+        if (y > altitude - 0.3) state.rtl = 'return';
+      } else if (state.rtl === 'return') {
+        setpoint.position = [home[0], altitude, home[2]];
+        if (Math.hypot(x - home[0], z - home[2]) < RTL_ARRIVAL) state.rtl = 'land';
+      }
+      if (state.rtl !== 'land') return false;
+      break;
+    }
+  }
+
+  // LAND, and the last stage of RTL: the target sinks at the landing speed, staying within the
+  // leash so it can't run far below a drone that is slow to follow. Near the ground it always
+  // slows to LAND_SPEED, but a drone coming down fast may not manage to brake in time.
+  if (positionFix) steerHorizontal();
+  else setpoint.attitude = { roll: roll * MAX_TILT, pitch: pitch * MAX_TILT };
+  const speed = y > LAND_FINAL_ALTITUDE ? state.landSpeed : LAND_SPEED;
+  setpoint.descentRate = Math.max(speed, MAX_DESCENT_RATE);
+  setpoint.position[1] = Math.max(setpoint.position[1] - speed * dt, y - Math.max(VERTICAL_LEASH, speed));
+  return onGround;
+}
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAirframe } from './airframe';
+import { DEFAULT_BATTERY } from './battery';
+import { buildMixer } from './flightController';
+import { FRAME_LAYOUTS, FrameLayout, layoutMotors, motorCount } from './frames';
+
+const BUILD = { frame: true, motors: true, esc: true, fc: true, battery: true, props: true, camera: true };
+const LAYOUTS = Object.keys(FRAME_LAYOUTS) as FrameLayout[];
+
+test('every layout is balanced: centred, with as many motors turning each way', () => {
+  for (const layout of LAYOUTS) {
+    const motors = layoutMotors(layout);
+    assert.equal(motors.length, motorCount(layout), layout);
+    assert.equal(motors.reduce((acc, m) => acc + m.spin, 0), 0, layout);
+    for (const axis of [0, 2]) assert.ok(Math.abs(motors.reduce((acc, m) => acc + m.position[axis], 0)) < 1e-9, layout);
+  }
+});
+
+test('the mixer turns each demand into exactly that thrust or torque', () => {
+  for (const layout of LAYOUTS) {
+    const airframe = buildAirframe(BUILD, 'multirotor', DEFAULT_BATTERY, layout);
+    const mixer = buildMixer(airframe);
+    // What a unit of each motor's thrust does: lift, then the three torques, as buildMixer takes them
+    const effect = [
+      airframe.motors.map(() => 1),
+      airframe.motors.map(m => -m.position[2]),
+      airframe.motors.map(m => -m.spin * airframe.yawTorquePerThrust),
+      airframe.motors.map(m => m.position[0]),
+    ];
+    effect.forEach((row, i) => mixer[0].forEach((_, j) => {
+      const produced = row.reduce((acc, v, k) => acc + v * mixer[k][j], 0);
+      assert.ok(Math.abs(produced - (i === j ? 1 : 0)) < 1e-6, `${layout}: demand ${j} gives ${produced} on axis ${i}`);
+    }));
+  }
+});
@@ -0,0 +1,66 @@
+import type { MotorSpec } from './airframe';
+import type { Vec3 } from './math';
+
+export type FrameLayout = 'quad-x' | 'quad-plus' | 'quad-h' | 'hex-x' | 'hex-plus' | 'y6' | 'octo-x' | 'octo-plus' | 'x8';
+
+export interface FrameSpec {
+  label: string;
+  desc: string;
+  arms: number; // Motor positions around the frame
+  coaxial: boolean; // Two motors per arm, one above and one below, spinning opposite ways
+  armRadius: number; // Motor distance from centre, m
+  weight: number; // Bare frame, g
+}
+
+export const FRAME_LAYOUTS: Record<FrameLayout, FrameSpec> = {
+  'quad-x': { label: 'Quad X', desc: 'The standard: arms at 45° to the nose, every motor helps with roll and pitch.', arms: 4, coaxial: false, armRadius: 0.16, weight: 150 },
+  'quad-plus': { label: 'Quad +', desc: 'One arm straight ahead. Roll and pitch each rely on just two motors.', arms: 4, coaxial: false, armRadius: 0.16, weight: 150 },
+  'quad-h': { label: 'Quad H', desc: 'Motors on two side beams. Wider than long, leaving room for a camera up front.', arms: 4, coaxial: false, armRadius: 0.16, weight: 170 },
+  'hex-x': { label: 'Hex X', desc: 'Six arms with two motors to each side of the nose. Survives a motor failure.', arms: 6, coaxial: false, armRadius: 0.22, weight: 220 },
+  'hex-plus': { label: 'Hex +', desc: 'Six arms, one straight ahead. Survives a motor failure.', arms: 6, coaxial: false, armRadius: 0.22, weight: 220 },
+  y6: { label: 'Y6', desc: 'Three arms with coaxial pairs. Compact, but the lower props lose efficiency in the upper props\' wash.', arms: 3, coaxial: true, armRadius: 0.2, weight: 170 },
+  'octo-x': { label: 'Octo X', desc: 'Eight arms for heavy lift. Plenty of margin after a motor failure.', arms: 8, coaxial: false, armRadius: 0.28, weight: 300 },
+  'octo-plus': { label: 'Octo +', desc: 'Eight arms, one straight ahead, for heavy lift.', arms: 8, coaxial: false, armRadius: 0.28, weight: 300 },
+  x8: { label: 'X8', desc: 'A quad X frame with coaxial pairs: octocopter lift and redundancy in a quad footprint.', arms: 4, coaxial: true, armRadius: 0.16, weight: 170 },
+};
+
+export const COAXIAL_EFFICIENCY = 0.85; // Thrust of a coaxial pair relative to two isolated props
+const COAXIAL_OFFSET = 0.03; // m above and below the arm
+const H_FRAME_LENGTH = 0.75; // Fore-aft motor spacing as a fraction of the lateral spacing
+
+export const motorCount = (layout: FrameLayout) => FRAME_LAYOUTS[layout].arms * (FRAME_LAYOUTS[layout].coaxial ? 2 : 1);
+
+// Motor positions and spin directions. Quad X and H keep the classic front-left, rear-left,
+// front-right, rear-right order. Other frames go round to the left from the front-left arm (or the
+// nose, for + frames), alternating spin; coaxial frames list each arm's upper then lower motor.
+export function layoutMotors(layout: FrameLayout): MotorSpec[] {
+  const { arms, coaxial, armRadius: r } = FRAME_LAYOUTS[layout];
+
+  if (layout === 'quad-x' || layout === 'quad-h') {
+    const x = r / Math.SQRT2;
+    const z = layout === 'quad-h' ? x * H_FRAME_LENGTH : x;
+    return [
+      { position: [x, 0, z], spin: 1 },    // front left
+      { position: [x, 0, -z], spin: -1 },  // rear left
+      { position: [-x, 0, z], spin: -1 },  // front right
+      { position: [-x, 0, -z], spin: 1 },  // rear right
+    ];
+  }
+
+  // A Y6 has two arms forward and one straight back
+  const offset = layout === 'y6' ? Math.PI / 3 : layout.endsWith('plus') ? 0 : Math.PI / arms;
+  const motors: MotorSpec[] = [];
+  for (let i = 0; i < arms; i++) {
+    const angle = offset + i * 2 * Math.PI / arms;
+    const position: Vec3 = [r * Math.sin(angle), 0, r * Math.cos(angle)];
+    // Y6 upper props all turn one way and the lower ones the other, so yaw comes from the upper/lower split
+    const spin = layout === 'y6' || i % 2 === 0 ? 1 : -1;
+    if (coaxial) {
+      motors.push({ position: [position[0], COAXIAL_OFFSET, position[2]], spin });
+      motors.push({ position: [position[0], -COAXIAL_OFFSET, position[2]], spin: spin === 1 ? -1 : 1 });
+    } else {
+      motors.push({ position, spin });
+    }
+  }
+  return motors;
+}
@@ -0,0 +1,103 @@
+// Small vector/quaternion helpers for the flight simulation.
+// World frame matches the 3D scene: +Y up, +Z is the drone's nose at zero heading, +X is its left.
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number]; // [w, x, y, z]
+
+export const GRAVITY = 9.81;
+
+export const vec3 = (x = 0, y = 0, z = 0): Vec3 => [x, y, z];
+export const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+export const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+export const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+export const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+export const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+export const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Wraps an angle to [-PI, PI]
+export const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export const quatIdentity = (): Quat => [1, 0, 0, 0];
+
+export function quatMultiply(a: Quat, b: Quat): Quat {
+  return [
+    a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+    a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+    a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+    a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0],
+  ];
+}
+
+export function quatNormalize(q: Quat): Quat {
+  const n = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  return [q[0] / n, q[1] / n, q[2] / n, q[3] / n];
+}
+
+// Rotates a body-frame vector into the world frame
+export function rotate(q: Quat, v: Vec3): Vec3 {
+  const [w, x, y, z] = q;
+  const t = scale(cross([x, y, z], v), 2);
+  return add(add(v, scale(t, w)), cross([x, y, z], t));
+}
+
+// Rotates a world-frame vector into the body frame
+export function rotateInverse(q: Quat, v: Vec3): Vec3 {
+  return rotate([q[0], -q[1], -q[2], -q[3]], v);
+}
+
+// Advances an attitude by a body-frame angular velocity over dt
+export function integrateAttitude(q: Quat, omega: Vec3, dt: number): Quat {
+  const angle = length(omega) * dt;
+  if (angle < 1e-12) return q;
+  const axis = scale(omega, 1 / length(omega));
+  const s = Math.sin(angle / 2);
+  return quatNormalize(quatMultiply(q, [Math.cos(angle / 2), axis[0] * s, axis[1] * s, axis[2] * s]));
+}
+
+// Yaw about Y, then pitch about the body X axis, then roll about the body Z (nose) axis.
+// Positive pitch tilts thrust forward, positive roll tilts it to the right.
+export function quatFromYawPitchRoll(yaw: number, pitch: number, roll: number): Quat {
+  const qy: Quat = [Math.cos(yaw / 2), 0, Math.sin(yaw / 2), 0];
+  const qx: Quat = [Math.cos(pitch / 2), Math.sin(pitch / 2), 0, 0];
+  const qz: Quat = [Math.cos(roll / 2), 0, 0, Math.sin(roll / 2)];
+  return quatMultiply(quatMultiply(qy, qx), qz);
+}
+
+export function toYawPitchRoll(q: Quat): { yaw: number; pitch: number; roll: number } {
+  const [w, x, y, z] = q;
+  const m13 = 2 * (x * z + w * y);
+  const m21 = 2 * (x * y + w * z);
+  const m22 = 1 - 2 * (x * x + z * z);
+  const m23 = 2 * (y * z - w * x);
+  const m33 = 1 - 2 * (x * x + y * y);
+  const pitch = Math.asin(clamp(-m23, -1, 1));
+  if (Math.abs(m23) < 0.9999999) {
+    return { yaw: Math.atan2(m13, m33), pitch, roll: Math.atan2(m21, m22) };
+  }
+  const m11 = 1 - 2 * (y * y + z * z);
+  const m31 = 2 * (x * z - w * y);
+  return { yaw: Math.atan2(-m31, m11), pitch, roll: 0 };
+}
+
+// Euler angles in three.js' default 'XYZ' order, for handing to the 3D model
+export function toEulerXYZ(q: Quat): Vec3 {
+  const [w, x, y, z] = q;
+  const m11 = 1 - 2 * (y * y + z * z);
+  const m12 = 2 * (x * y - w * z);
+  const m13 = 2 * (x * z + w * y);
+  const m22 = 1 - 2 * (x * x + z * z);
+  const m23 = 2 * (y * z - w * x);
+  const m32 = 2 * (y * z + w * x);
+  const m33 = 1 - 2 * (x * x + y * y);
+  const ry = Math.asin(clamp(m13, -1, 1));
+  if (Math.abs(m13) < 0.9999999) {
+    return [Math.atan2(-m23, m33), ry, Math.atan2(-m12, m11)];
+  }
+  return [Math.atan2(m32, m22), ry, 0];
+}
@@ -0,0 +1,29 @@
+export interface PidGains {
+  kp: number;
+  ki: number;
+  kd: number;
+  iLimit: number; // Clamp on the integral term's contribution to the output
+}
+
+export interface PidState {
+  integral: number;
+  prevMeasurement: number | null;
+}
+
+export const createPidState = (): PidState => ({ integral: 0, prevMeasurement: null });
+
+// u = Kp·e + Ki·∫e dt + Kd·de/dt. The derivative is taken on the measurement rather than
+// the error so a setpoint step doesn't kick the output. Updates `state` in place.
+export function updatePid(state: PidState, gains: PidGains, setpoint: number, measurement: number, dt: number, error = setpoint - measurement): number {
+  if (gains.ki > 0) {
+    const limit = gains.iLimit / gains.ki;
+    state.integral = Math.min(limit, Math.max(-limit, state.integral + error * dt));
+  } else {
+    state.integral = 0;
+  }
+
+  const derivative = state.prevMeasurement === null ? 0 : -(measurement - state.prevMeasurement) / dt;
+  state.prevMeasurement = measurement;
+
+  return gains.kp * error + gains.ki * state.integral + gains.kd * derivative;
+}
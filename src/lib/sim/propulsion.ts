@@ -0,0 +1,37 @@
+const AIR_DENSITY = 1.225;
+export const PROP_DIAMETER = 0.127; // 5" propeller, metres
+const FIGURE_OF_MERIT = 0.6; // Real props reach ~60% of ideal momentum-theory efficiency
+const MOTOR_EFFICIENCY = 0.8;
+const REFERENCE_VOLTAGE = 16; // Pack voltage the motor thrust rating was measured at
+const RATED_RPM = 28000; // Loaded RPM at rated thrust for a 5" prop, e.g. a 2400KV motor on 4S
+
+export interface MotorTelemetry {
+  command: number; // 0..1 from the mixer
+  thrust: number; // N
+  rpm: number;
+  current: number; // A
+}
+
+// Electrical power one motor draws to produce `thrust` newtons with air flowing into the prop
+// at `inflow` m/s (0 in hover, the airspeed for a plane's pusher).
+// Momentum theory: P_ideal = T·(V/2 + sqrt(V²/4 + T/(2·ρ·A))), which is T^1.5 / sqrt(2·ρ·A) in hover
+export function motorPower(thrust: number, inflow = 0, propDiameter = PROP_DIAMETER): number {
+  if (thrust <= 0) return 0;
+  const diskArea = Math.PI * (propDiameter / 2) ** 2;
+  const v = Math.max(inflow, 0);
+  const ideal = thrust * (v / 2 + Math.sqrt(v * v / 4 + thrust / (2 * AIR_DENSITY * diskArea)));
+  return ideal / (FIGURE_OF_MERIT * MOTOR_EFFICIENCY);
+}
+
+// Motor RPM scales with voltage and thrust with RPM², so a sagging pack loses thrust quadratically
+export function voltageThrustScale(voltage: number): number {
+  return Math.max(0, voltage / REFERENCE_VOLTAGE) ** 2;
+}
+
+// What one motor's ESC would report. Thrust goes with RPM², and a bigger prop turns slower for
+// the same tip speed. `ratedThrust` is the motor's full-throttle thrust at the reference voltage.
+export function motorTelemetry(command: number, thrust: number, ratedThrust: number, voltage: number, inflow = 0, propDiameter = PROP_DIAMETER): MotorTelemetry {
+  const rpm = ratedThrust > 0 ? RATED_RPM * (PROP_DIAMETER / propDiameter) * Math.sqrt(Math.max(thrust, 0) / ratedThrust) : 0;
+  const current = voltage > 0 ? motorPower(thrust, inflow, propDiameter) / voltage : 0;
+  return { command, thrust, rpm, current };
+}
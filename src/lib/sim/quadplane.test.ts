@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAirframe } from './airframe';
+import { DEFAULT_BATTERY } from './battery';
+import { DEFAULT_GAINS } from './flightController';
+import { MIN_TRANSITION_ALTITUDE, VTOL_TAKEOFF_ALTITUDE, startTransitionBack, startTransitionForward } from './quadplane';
+import { SENSOR_PRESETS } from './sensors';
+import { FlightSim, createFlightSim, createSimConfig, runSim } from './simulation';
+import { WIND_PRESETS } from './wind';
+
+const BUILD = { frame: true, motors: true, esc: true, fc: true, battery: true, props: true, camera: true, wings: true, pusher: true };
+const airframe = buildAirframe(BUILD, 'quadplane', DEFAULT_BATTERY);
+const config = createSimConfig(airframe, DEFAULT_BATTERY, WIND_PRESETS.calm.config, SENSOR_PRESETS.ideal.config, DEFAULT_GAINS);
+
+// Armed and hovering at the VTOL takeoff height
+function hovering(): FlightSim {
+  const sim = createFlightSim(airframe, DEFAULT_BATTERY);
+  sim.armed = true;
+  sim.setpoint = { position: [0, VTOL_TAKEOFF_ALTITUDE, 0], yaw: 0 };
+  runSim(sim, config, 8);
+  return sim;
+}
+
+test('a forward transition needs height and starts from hover', () => {
+  const sim = createFlightSim(airframe, DEFAULT_BATTERY);
+  assert.match(startTransitionForward(sim.quadplane, sim.body, sim.setpoint, 0) ?? '', new RegExp(`at least ${MIN_TRANSITION_ALTITUDE}m`));
+  assert.match(startTransitionBack(sim.quadplane, sim.body, sim.setpoint, sim.controller, 0) ?? '', /only possible from cruise/);
+});
+
+test('hover, transition to cruise and back to hover', () => {
+  const sim = hovering();
+  assert.ok(sim.body.position[1] > MIN_TRANSITION_ALTITUDE);
+  assert.equal(startTransitionForward(sim.quadplane, sim.estimate, sim.setpoint, sim.time), null);
+  runSim(sim, config, 15);
+  assert.equal(sim.quadplane.phase, 'cruise');
+  assert.equal(sim.crash, null);
+
+  assert.equal(startTransitionBack(sim.quadplane, sim.estimate, sim.setpoint, sim.controller, sim.time), null);
+  runSim(sim, config, 15);
+  assert.equal(sim.quadplane.phase, 'hover');
+  assert.equal(sim.crash, null);
+  assert.ok(sim.body.position[1] > MIN_TRANSITION_ALTITUDE / 2, 'keeps its height');
+});
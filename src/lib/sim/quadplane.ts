@@ -0,0 +1,125 @@
+import { Airframe, combineMotorCommands, liftAirframe } from './airframe';
+import { ControlSurfaces, NEUTRAL_SURFACES, airData } from './aerodynamics';
+import { ControllerGains, ControllerState, Setpoint, computeMotorCommands, createControllerState } from './flightController';
+import { CRUISE_AIRSPEED, FixedWingControllerState, FixedWingSetpoint, computeFixedWingCommands, createFixedWingControllerState, groundCourse, minAirspeed } from './fixedWingController';
+import { RigidBodyState } from './rigidBody';
+import { Vec3, toYawPitchRoll } from './math';
+
+export type QuadplanePhase = 'hover' | 'transition-forward' | 'cruise' | 'transition-back';
+
+export interface QuadplaneState {
+  phase: QuadplanePhase;
+  since: number; // Sim time the current phase started
+  failed: boolean; // The last forward transition timed out before reaching airspeed
+}
+
+export const PHASE_LABELS: Record<QuadplanePhase, string> = {
+  hover: 'VTOL Hover',
+  'transition-forward': 'Transition',
+  cruise: 'Cruise',
+  'transition-back': 'Back-Transition',
+};
+
+export const VTOL_TAKEOFF_ALTITUDE = 10; // m, default takeoff height, with room to transition
+export const MIN_TRANSITION_ALTITUDE = 5; // m; below this a failed transition has no room to recover
+export const TRANSITION_TIMEOUT = 10; // s to reach the transition airspeed before falling back to hover
+export const BACK_TRANSITION_SPEED = 3; // m/s airspeed at which the lift motors take over position hold
+const TRANSITION_THROTTLE = 0.9; // Pusher command while accelerating
+const BLEND_TIME = 2; // s over which the lift motors wind down after reaching airspeed
+const BRAKE_PITCH = -8 * Math.PI / 180; // Nose-up attitude the lift motors hold to slow down on the way back
+
+export const createQuadplaneState = (): QuadplaneState => ({ phase: 'hover', since: 0, failed: false });
+
+// Airspeed the wing has to reach before the lift motors can be handed off
+export const transitionAirspeed = (airframe: Airframe) => minAirspeed(airframe);
+
+function enterPhase(qp: QuadplaneState, phase: QuadplanePhase, time: number) {
+  qp.phase = phase;
+  qp.since = time;
+}
+
+// Flies a quadplane through its phases: multirotor hover, the forward transition (lift motors
+// hold altitude while the pusher builds airspeed), fixed-wing cruise, and the back-transition
+// (pusher off, nose up to bleed speed, then hover). Phase changes update the setpoints of the
+// controller taking over, so `setpoint` and `planeSetpoint` are modified in place. Without a
+// position fix, hover holds a level attitude and cruise holds its course.
+export function computeQuadplaneCommands(
+  body: RigidBodyState,
+  airframe: Airframe,
+  mixer: number[][],
+  qp: QuadplaneState,
+  setpoint: Setpoint,
+  ctrl: ControllerState,
+  gains: ControllerGains,
+  planeSetpoint: FixedWingSetpoint,
+  planeCtrl: FixedWingControllerState,
+  wind: Vec3,
+  positionFix: boolean,
+  time: number,
+  dt: number,
+): { motors: number[]; surfaces: ControlSurfaces } {
+  const lift = liftAirframe(airframe);
+  const { airspeed } = airData(body, wind);
+  const yaw = toYawPitchRoll(body.attitude).yaw;
+
+  if (qp.phase === 'transition-forward') {
+    if (airspeed >= transitionAirspeed(airframe)) {
+      enterPhase(qp, 'cruise', time);
+      Object.assign(planeCtrl, createFixedWingControllerState());
+      Object.assign(planeSetpoint, { nav: { kind: 'course', course: groundCourse(body) }, altitude: setpoint.position[1], airspeed: CRUISE_AIRSPEED, glide: false });
+    } else if (time - qp.since > TRANSITION_TIMEOUT) {
+      qp.failed = true;
+      startTransitionBack(qp, body, setpoint, ctrl, time);
+    }
+  } else if (qp.phase === 'transition-back' && airspeed < BACK_TRANSITION_SPEED) {
+    // Airspeed, not ground speed: in a breeze stronger than the threshold the ground speed never drops below it
+    enterPhase(qp, 'hover', time);
+    Object.assign(ctrl, createControllerState());
+    Object.assign(setpoint, { position: [body.position[0], setpoint.position[1], body.position[2]], yaw, attitude: undefined });
+  }
+
+  switch (qp.phase) {
+    case 'hover': {
+      const hold: Setpoint = positionFix ? setpoint : { ...setpoint, attitude: { roll: 0, pitch: 0 } };
+      return { motors: combineMotorCommands(airframe, computeMotorCommands(body, lift, mixer, hold, gains, ctrl, dt), 0), surfaces: NEUTRAL_SURFACES };
+    }
+    case 'transition-forward': {
+      const level: Setpoint = { ...setpoint, attitude: { roll: 0, pitch: 0 } };
+      return { motors: combineMotorCommands(airframe, computeMotorCommands(body, lift, mixer, level, gains, ctrl, dt), TRANSITION_THROTTLE), surfaces: NEUTRAL_SURFACES };
+    }
+    case 'cruise': {
+      const nav: FixedWingSetpoint = positionFix ? planeSetpoint : { ...planeSetpoint, nav: { kind: 'course', course: planeCtrl.course ?? 0 } };
+      const plane = computeFixedWingCommands(body, airframe, nav, planeCtrl, wind, dt);
+      // Right after the hand-off the wing is only just flying, so the lift motors taper off instead of cutting
+      const assist = 1 - (time - qp.since) / BLEND_TIME;
+      if (assist <= 0) return plane;
+      const level: Setpoint = { ...setpoint, attitude: { roll: 0, pitch: 0 } };
+      const hold = computeMotorCommands(body, lift, mixer, level, gains, ctrl, dt).map(c => c * assist);
+      return { motors: combineMotorCommands(airframe, hold, Math.max(...plane.motors)), surfaces: plane.surfaces };
+    }
+    case 'transition-back': {
+      const brake: Setpoint = { ...setpoint, attitude: { roll: 0, pitch: BRAKE_PITCH } };
+      return { motors: combineMotorCommands(airframe, computeMotorCommands(body, lift, mixer, brake, gains, ctrl, dt), 0), surfaces: NEUTRAL_SURFACES };
+    }
+  }
+}
+
+// Starts the forward transition. Returns an error message if it isn't allowed right now.
+export function startTransitionForward(qp: QuadplaneState, body: RigidBodyState, setpoint: Setpoint, time: number): string | null {
+  if (qp.phase !== 'hover') return 'Forward transition is only possible from VTOL hover.';
+  if (body.position[1] < MIN_TRANSITION_ALTITUDE) return `Climb to at least ${MIN_TRANSITION_ALTITUDE}m before transitioning.`;
+  qp.failed = false;
+  setpoint.position = [body.position[0], body.position[1], body.position[2]];
+  enterPhase(qp, 'transition-forward', time);
+  return null;
+}
+
+export function startTransitionBack(qp: QuadplaneState, body: RigidBodyState, setpoint: Setpoint, ctrl: ControllerState, time: number): string | null {
+  if (qp.phase !== 'cruise' && qp.phase !== 'transition-forward') return 'Back-transition is only possible from cruise.';
+  // The multirotor loops pick up from scratch at the current altitude and heading
+  Object.assign(ctrl, createControllerState());
+  setpoint.position = [body.position[0], body.position[1], body.position[2]];
+  setpoint.yaw = toYawPitchRoll(body.attitude).yaw;
+  enterPhase(qp, 'transition-back', time);
+  return null;
+}
@@ -0,0 +1,24 @@
+// Seedable pseudo-random numbers (mulberry32), so the same seed replays the same turbulence,
+// gusts and fault timing. The state is a plain object and can be copied to fork a run.
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+export const DEFAULT_SEED = 1;
+
+export const createRandom = (seed: number = DEFAULT_SEED): RandomState => ({ seed, state: seed >>> 0 });
+
+// Uniform in [0, 1). Advances `rng` in place.
+export function nextRandom(rng: RandomState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Standard normal sample (Box-Muller)
+export function gaussian(random: () => number) {
+  return Math.sqrt(-2 * Math.log(random() || 1e-12)) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,92 @@
+import { Airframe } from './airframe';
+import { ControlSurfaces, NEUTRAL_SURFACES, wingForces } from './aerodynamics';
+import { GRAVITY, Quat, Vec3, add, clamp, cross, integrateAttitude, length, quatFromYawPitchRoll, quatIdentity, rotate, scale, sub, toYawPitchRoll } from './math';
+
+const AIR_DENSITY = 1.225;
+
+export interface RigidBodyState {
+  position: Vec3; // World, metres
+  velocity: Vec3; // World, m/s
+  attitude: Quat; // Body to world
+  angularVelocity: Vec3; // Body frame, rad/s
+  motorThrust: number[]; // Actual thrust per motor after spool-up lag, N
+  onGround: boolean;
+}
+
+export interface Environment {
+  wind: Vec3; // World, m/s
+  thrustScale?: number[]; // Per-motor multiplier on the propeller force from the air around the rotor (see rotorFlow.ts)
+}
+
+export function createRigidBodyState(airframe: Airframe, position: Vec3 = [0, 0, 0], yaw = 0): RigidBodyState {
+  return {
+    position: [...position],
+    velocity: [0, 0, 0],
+    attitude: yaw === 0 ? quatIdentity() : quatFromYawPitchRoll(yaw, 0, 0),
+    angularVelocity: [0, 0, 0],
+    motorThrust: airframe.motors.map(() => 0),
+    onGround: position[1] <= 0,
+  };
+}
+
+// Advances the body by one fixed timestep. `motorCommands` are 0..1 per motor; `surfaces` only act on winged airframes.
+export function stepRigidBody(state: RigidBodyState, airframe: Airframe, motorCommands: number[], env: Environment, dt: number, surfaces: ControlSurfaces = NEUTRAL_SURFACES): RigidBodyState {
+  const { mass, inertia, motors } = airframe;
+
+  // Motors spool towards their commanded thrust
+  const alpha = 1 - Math.exp(-dt / airframe.motorTimeConstant);
+  const motorThrust = motors.map((motor, i) => {
+    const target = clamp(motorCommands[i] ?? 0, 0, 1) * (motor.maxThrust ?? airframe.maxThrustPerMotor);
+    return state.motorThrust[i] + (target - state.motorThrust[i]) * alpha;
+  });
+
+  // Body-frame forces and torques from the propellers, which push along their motor axis
+  let bodyForce: Vec3 = [0, 0, 0];
+  let torque: Vec3 = [0, 0, 0];
+  motors.forEach((motor, i) => {
+    const axis = motor.axis ?? [0, 1, 0];
+    const t = scale(axis, motorThrust[i] * (env.thrustScale?.[i] ?? 1));
+    bodyForce = add(bodyForce, t);
+    torque = add(torque, cross(motor.position, t));
+    torque = sub(torque, scale(axis, motor.spin * airframe.yawTorquePerThrust * motorThrust[i]));
+  });
+  if (airframe.wing) {
+    const aero = wingForces(airframe.wing, state, env.wind, surfaces);
+    bodyForce = add(bodyForce, aero.force);
+    torque = add(torque, aero.torque);
+  }
+  torque = sub(torque, scale(state.angularVelocity, airframe.angularDrag));
+
+  // World-frame forces: thrust, gravity, and quadratic drag against the relative airflow
+  const airspeed = sub(state.velocity, env.wind);
+  const drag = scale(airspeed, -0.5 * AIR_DENSITY * airframe.dragArea * length(airspeed));
+  const force = add(add(rotate(state.attitude, bodyForce), [0, -mass * GRAVITY, 0]), drag);
+
+  let velocity = add(state.velocity, scale(force, dt / mass));
+  let position = add(state.position, scale(velocity, dt));
+
+  // Euler's rotation equation: I·dω/dt = τ - ω × (I·ω)
+  const w = state.angularVelocity;
+  const gyro = cross(w, [inertia[0] * w[0], inertia[1] * w[1], inertia[2] * w[2]]);
+  let angularVelocity: Vec3 = [
+    w[0] + ((torque[0] - gyro[0]) / inertia[0]) * dt,
+    w[1] + ((torque[1] - gyro[1]) / inertia[1]) * dt,
+    w[2] + ((torque[2] - gyro[2]) / inertia[2]) * dt,
+  ];
+  let attitude = integrateAttitude(state.attitude, angularVelocity, dt);
+
+  // Ground contact: the floor stops the fall and friction holds the drone level until thrust or lift raises it
+  let onGround = false;
+  if (position[1] <= 0) {
+    onGround = true;
+    position = [position[0], 0, position[2]];
+    if (velocity[1] < 0) velocity = [velocity[0], 0, velocity[2]];
+    if (force[1] < 0) {
+      velocity = [velocity[0] * 0.8, velocity[1], velocity[2] * 0.8];
+      angularVelocity = [0, angularVelocity[1] * 0.8, 0];
+      attitude = quatFromYawPitchRoll(toYawPitchRoll(attitude).yaw, 0, 0);
+    }
+  }
+
+  return { position, velocity, attitude, angularVelocity, motorThrust, onGround };
+}
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAirframe } from './airframe';
+import { DEFAULT_BATTERY } from './battery';
+import { createRotorFlow, groundEffectFactor, rotorThrustScale } from './rotorFlow';
+
+const BUILD = { frame: true, motors: true, esc: true, fc: true, battery: true, props: true, camera: true };
+
+test('ground effect adds thrust near the ground and fades with height', () => {
+  assert.ok(groundEffectFactor(0.05, 0.0635) > 1.1);
+  assert.ok(Math.abs(groundEffectFactor(1, 0.0635) - 1) < 0.001);
+});
+
+test('a flow made for fewer motors scales every motor of a bigger frame', () => {
+  const quad = buildAirframe(BUILD, 'multirotor', DEFAULT_BATTERY, 'quad-x');
+  const octo = buildAirframe(BUILD, 'multirotor', DEFAULT_BATTERY, 'octo-x');
+  const flow = { ...createRotorFlow(quad), vortexRing: 0.5 };
+  const scale = rotorThrustScale(flow, octo);
+  assert.equal(scale.length, octo.motors.length);
+  assert.ok(scale.every(Number.isFinite));
+});
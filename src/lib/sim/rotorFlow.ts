@@ -0,0 +1,88 @@
+import { Airframe } from './airframe';
+import { gaussian } from './random';
+import { RigidBodyState } from './rigidBody';
+import { GRAVITY, Vec3, add, clamp, dot, length, rotate, scale, sub } from './math';
+
+const AIR_DENSITY = 1.225;
+
+// Descent speeds through the rotor, as multiples of the hover induced velocity: vortex ring state
+// sets in from VRS_ONSET, is fully developed over VRS_FULL and gone by VRS_END, where the rotor
+// windmills and flies again.
+export const VRS_ONSET = 0.3;
+const VRS_FULL: [number, number] = [0.6, 1.2];
+const VRS_END = 2;
+const VRS_ESCAPE = 0.5; // Edgewise speed, over induced velocity, that blows the ring clear of the disc
+export const VRS_LIFT_LOSS = 0.7; // Share of thrust lost in a fully developed ring; more throttle only feeds the ring
+const VRS_BUILD_TIME = 0.3; // s for the ring to form or shed
+const BUFFET = 0.15; // RMS thrust fluctuation per rotor in a full ring
+const BUFFET_TIME = 0.15; // s, correlation time of the buffeting
+
+// How the air around the lift rotors changes their thrust. Pushers are left alone.
+export interface RotorFlow {
+  groundEffect: number; // Thrust multiplier from the cushion under the rotors, 1 out of ground effect
+  vortexRing: number; // 0..1, how developed the vortex ring is
+  descentRatio: number; // Descent speed through the rotor discs over the hover induced velocity
+  buffet: number[]; // Per-motor unsteady share of thrust while the ring recirculates
+}
+
+export const createRotorFlow = (airframe: Airframe): RotorFlow => ({
+  groundEffect: 1,
+  vortexRing: 0,
+  descentRatio: 0,
+  buffet: airframe.motors.map(() => 0),
+});
+
+// Momentum theory: the speed a rotor pushes air through its disc to hover, √(T / 2ρA)
+export function hoverInducedVelocity(airframe: Airframe): number {
+  const lift = airframe.motors.filter(m => !m.axis).length;
+  if (lift === 0) return Infinity;
+  const diskArea = Math.PI * airframe.propRadius ** 2;
+  return Math.sqrt(airframe.mass * GRAVITY / lift / (2 * AIR_DENSITY * diskArea));
+}
+
+// Cheeseman-Bennett: T/T∞ = 1 / (1 - (R/4z)²), fading out within about a rotor diameter of the ground
+export function groundEffectFactor(height: number, propRadius: number): number {
+  const z = Math.max(height, propRadius / 2);
+  return 1 / (1 - (propRadius / (4 * z)) ** 2);
+}
+
+// How developed a vortex ring would be at this descent speed and edgewise speed, both over the induced velocity
+function vortexRingSeverity(descent: number, edgewise: number): number {
+  const rise = clamp((descent - VRS_ONSET) / (VRS_FULL[0] - VRS_ONSET), 0, 1);
+  const fall = clamp((VRS_END - descent) / (VRS_END - VRS_FULL[1]), 0, 1);
+  return Math.min(rise, fall) * clamp(1 - edgewise / VRS_ESCAPE, 0, 1);
+}
+
+// Updates the flow for the body's motion through the air. The ring takes a moment to form and
+// to shed, so a quick dip doesn't trigger it and a recovery isn't instant.
+export function stepRotorFlow(flow: RotorFlow, body: RigidBodyState, airframe: Airframe, wind: Vec3, dt: number, random: () => number = Math.random): RotorFlow {
+  const vh = hoverInducedVelocity(airframe);
+  if (!Number.isFinite(vh)) return flow; // No lift rotors
+  const up = rotate(body.attitude, [0, 1, 0]);
+  const air = sub(body.velocity, wind);
+  const descent = -dot(air, up) / vh;
+  const edgewise = length(add(air, scale(up, descent * vh))) / vh;
+
+  const target = vortexRingSeverity(descent, edgewise);
+  const vortexRing = flow.vortexRing + (target - flow.vortexRing) * (1 - Math.exp(-dt / VRS_BUILD_TIME));
+  // Gauss-Markov buffeting, only drawn while there is a ring to drive it
+  const a = dt / BUFFET_TIME;
+  const buffet = vortexRing > 0.01 || flow.vortexRing > 0.01
+    ? flow.buffet.map(b => (1 - a) * b + Math.sqrt(2 * a) * gaussian(random))
+    : flow.buffet.map(() => 0);
+
+  return {
+    groundEffect: groundEffectFactor(body.position[1] + airframe.propClearance, airframe.propRadius),
+    vortexRing,
+    descentRatio: descent,
+    buffet,
+  };
+}
+
+// Per-motor multiplier on the propeller force, for the rigid body
+export function rotorThrustScale(flow: RotorFlow, airframe: Airframe): number[] {
+  const loss = 1 - VRS_LIFT_LOSS * flow.vortexRing;
+  return airframe.motors.map((motor, i) => (motor.axis
+    ? 1
+    : Math.max(0, flow.groundEffect * loss * (1 + BUFFET * flow.vortexRing * (flow.buffet[i] ?? 0)))));
+}
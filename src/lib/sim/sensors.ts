@@ -0,0 +1,177 @@
+import { RigidBodyState } from './rigidBody';
+import { FaultState } from './faults';
+import { GRAVITY, Vec3, add, quatFromYawPitchRoll, rotate, rotateInverse, scale, sub } from './math';
+import { gaussian } from './random';
+
+// Noise levels for each sensor. Zero everywhere gives perfect sensors.
+export interface SensorConfig {
+  gyroNoise: number; // rad/s RMS
+  gyroBias: number; // rad/s RMS turn-on bias
+  accelNoise: number; // m/s² RMS
+  accelBias: number; // m/s² RMS turn-on bias
+  vibration: number; // m/s² RMS on the accelerometer at full throttle, from prop and motor imbalance
+  baroNoise: number; // m RMS
+  baroDrift: number; // m RMS, wandering over minutes as the air pressure and board temperature change
+  gpsRate: number; // Fixes per second
+  hdop: number; // Horizontal dilution of precision; grows with fewer or badly spread satellites
+  gpsUere: number; // m RMS range error per satellite, scaled by the HDOP into position error
+  gpsVelocityNoise: number; // m/s RMS
+  magNoise: number; // µT RMS
+  hardIron: number; // µT offset from magnetised parts of the airframe, uncalibrated
+}
+
+export type SensorPresetId = 'ideal' | 'typical' | 'budget';
+
+export const SENSOR_PRESETS: Record<SensorPresetId, { label: string; desc: string; config: SensorConfig }> = {
+  ideal: {
+    label: 'Ideal',
+    desc: 'Perfect sensors: the flight controller sees exactly where the drone is.',
+    config: {
+      gyroNoise: 0, gyroBias: 0, accelNoise: 0, accelBias: 0, vibration: 0,
+      baroNoise: 0, baroDrift: 0, gpsRate: 10, hdop: 0, gpsUere: 0, gpsVelocityNoise: 0, magNoise: 0, hardIron: 0,
+    },
+  },
+  typical: {
+    label: 'Typical',
+    desc: 'A soft-mounted flight controller with a good GPS module on a mast, compass calibrated.',
+    config: {
+      gyroNoise: 0.003, gyroBias: 0.005, accelNoise: 0.05, accelBias: 0.1, vibration: 0.5,
+      baroNoise: 0.05, baroDrift: 0.3, gpsRate: 5, hdop: 0.8, gpsUere: 1, gpsVelocityNoise: 0.1, magNoise: 0.3, hardIron: 0,
+    },
+  },
+  budget: {
+    label: 'Budget',
+    desc: 'Hard-mounted board, cheap GPS with a poor sky view, compass next to the battery leads and never calibrated.',
+    config: {
+      gyroNoise: 0.01, gyroBias: 0.02, accelNoise: 0.15, accelBias: 0.3, vibration: 3,
+      baroNoise: 0.15, baroDrift: 1, gpsRate: 2, hdop: 2, gpsUere: 1.5, gpsVelocityNoise: 0.2, magNoise: 1, hardIron: 8,
+    },
+  },
+};
+
+export interface GpsFix {
+  position: Vec3; // m
+  velocity: Vec3; // m/s
+  hdop: number;
+  time: number; // Sim time of the fix
+}
+
+// What each sensor last reported
+export interface SensorReadings {
+  gyro: Vec3; // Body rates, rad/s
+  accel: Vec3; // Specific force in the body frame, m/s²; reads 1 g upward at rest
+  baroAltitude: number; // m
+  baroClimb: number; // m/s, filtered from successive barometer samples
+  baroTime: number; // Sim time of the last barometer sample
+  gps: GpsFix | null; // Null without satellite lock
+  mag: Vec3; // Magnetic field in the body frame, µT
+}
+
+export interface SensorState {
+  // Biases and slowly wandering errors, in units of their configured RMS so the config can change mid-flight
+  gyroBias: Vec3;
+  accelBias: Vec3;
+  baroDrift: number;
+  gpsError: Vec3;
+  nextBaro: number; // Sim time of the next sample
+  nextFix: number;
+  lastFix: GpsFix | null; // Kept through a loss of lock
+  readings: SensorReadings;
+}
+
+const BARO_RATE = 50; // Hz
+const BARO_CLIMB_TC = 0.5; // s, smoothing on the climb rate taken from the barometer
+const BARO_DRIFT_TC = 120; // s
+const GPS_ERROR_TC = 60; // s; GPS position error wanders with the satellite geometry rather than jumping
+const VDOP_RATIO = 1.5; // GPS altitude is less precise than its horizontal position
+const GYRO_VIBRATION = 0.01; // rad/s of gyro noise per m/s² of vibration
+// Earth's field at mid-latitudes, 60° inclination, with magnetic north along +Z
+const EARTH_FIELD: Vec3 = [0, -43, 25];
+const HARD_IRON_DIRECTION: Vec3 = [0.6, 0, 0.8];
+const COMPASS_UT_PER_AMP = 2; // Field from the battery leads per amp of pack current
+
+export const DEFAULT_SENSOR_CONFIG = SENSOR_PRESETS.typical.config;
+
+const gaussianVec = (random: () => number): Vec3 => [gaussian(random), gaussian(random), gaussian(random)];
+
+// Biases are drawn once per power-up
+export const createSensorState = (random: () => number): SensorState => ({
+  gyroBias: gaussianVec(random),
+  accelBias: gaussianVec(random),
+  baroDrift: gaussian(random),
+  gpsError: gaussianVec(random),
+  nextBaro: 0,
+  nextFix: 0,
+  lastFix: null,
+  readings: { gyro: [0, 0, 0], accel: [0, GRAVITY, 0], baroAltitude: 0, baroClimb: 0, baroTime: 0, gps: null, mag: EARTH_FIELD },
+});
+
+// First-order Gauss-Markov step for an error held in units of its RMS
+const wander = (x: number, tc: number, dt: number, random: () => number) =>
+  x * (1 - dt / tc) + Math.sqrt(2 * dt / tc) * gaussian(random);
+
+// Samples every sensor for the new body state. `prev` is the state one step earlier, for the
+// accelerometer; `throttle` (0..1) sets the vibration level and `current` (A) the battery-lead
+// interference with the compass. Updates `state` in place.
+export function stepSensors(
+  state: SensorState,
+  config: SensorConfig,
+  prev: RigidBodyState,
+  body: RigidBodyState,
+  faults: FaultState,
+  throttle: number,
+  current: number,
+  time: number,
+  dt: number,
+  random: () => number,
+) {
+  const readings = state.readings;
+  const vibration = config.vibration * throttle;
+
+  // IMU, sampled every step
+  readings.gyro = add(add(body.angularVelocity, scale(state.gyroBias, config.gyroBias)),
+    scale(gaussianVec(random), config.gyroNoise + vibration * GYRO_VIBRATION));
+  const acceleration = scale(sub(body.velocity, prev.velocity), 1 / dt);
+  const specificForce = rotateInverse(body.attitude, [acceleration[0], acceleration[1] + GRAVITY, acceleration[2]]);
+  readings.accel = add(add(specificForce, scale(state.accelBias, config.accelBias)),
+    scale(gaussianVec(random), config.accelNoise + vibration));
+
+  // Barometer
+  state.baroDrift = wander(state.baroDrift, BARO_DRIFT_TC, dt, random);
+  if (time >= state.nextBaro) {
+    const altitude = body.position[1] + state.baroDrift * config.baroDrift + gaussian(random) * config.baroNoise;
+    const alpha = 1 / (BARO_RATE * BARO_CLIMB_TC);
+    readings.baroClimb += alpha * ((altitude - readings.baroAltitude) * BARO_RATE - readings.baroClimb);
+    readings.baroAltitude = altitude;
+    readings.baroTime = time;
+    state.nextBaro = Math.max(state.nextBaro + 1 / BARO_RATE, time);
+  }
+
+  // GPS: no new fixes without satellite lock
+  state.gpsError = state.gpsError.map(e => wander(e, GPS_ERROR_TC, dt, random)) as Vec3;
+  if (faults.active.gps_loss) {
+    readings.gps = null;
+  } else if (time >= state.nextFix) {
+    const sigma = config.hdop * config.gpsUere;
+    const error: Vec3 = [state.gpsError[0] * sigma, state.gpsError[1] * sigma * VDOP_RATIO, state.gpsError[2] * sigma];
+    readings.gps = {
+      position: add(body.position, error),
+      velocity: add(body.velocity, scale(gaussianVec(random), config.gpsVelocityNoise)),
+      hdop: config.hdop,
+      time,
+    };
+    state.lastFix = readings.gps;
+    state.nextFix = Math.max(state.nextFix + 1 / config.gpsRate, time);
+  }
+
+  // Magnetometer. Current through the battery leads adds a field that turns with the airframe.
+  let mag = add(rotateInverse(body.attitude, EARTH_FIELD), scale(HARD_IRON_DIRECTION, config.hardIron));
+  if (faults.active.compass_interference) mag = add(mag, [COMPASS_UT_PER_AMP * current, 0, 0]);
+  readings.mag = add(mag, scale(gaussianVec(random), config.magNoise));
+}
+
+// Tilt-compensated compass heading from a body-frame field reading
+export function magHeading(mag: Vec3, roll: number, pitch: number): number {
+  const level = rotate(quatFromYawPitchRoll(0, pitch, roll), mag);
+  return Math.atan2(-level[0], level[2]);
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAirframe } from './airframe';
+import { DEFAULT_BATTERY } from './battery';
+import { DEFAULT_GAINS } from './flightController';
+import { SENSOR_PRESETS } from './sensors';
+import { FlightSim, SimConfig, createFlightSim, createSimConfig, runSim } from './simulation';
+import { WIND_PRESETS } from './wind';
+
+const BUILD = { frame: true, motors: true, esc: true, fc: true, battery: true, props: true, camera: true };
+const airframe = buildAirframe(BUILD, 'multirotor', DEFAULT_BATTERY, 'quad-x');
+const gusty = createSimConfig(airframe, DEFAULT_BATTERY, WIND_PRESETS.gusty.config, SENSOR_PRESETS.budget.config, DEFAULT_GAINS);
+
+// Arms, climbs to 3 m and flies to a point 4 m off, as a script would
+function fly(config: SimConfig, seed: number): FlightSim {
+  const sim = createFlightSim(airframe, DEFAULT_BATTERY, seed);
+  sim.setpoint = { position: [...sim.estimate.position], yaw: 0 };
+  sim.armed = true;
+  sim.setpoint.position = [0, 3, 0];
+  runSim(sim, config, 4);
+  sim.setpoint.position = [4, 3, -4];
+  runSim(sim, config, 6);
+  return sim;
+}
+
+test('the same seed flies the same flight', () => {
+  const first = fly(gusty, 7);
+  assert.equal(first.crash, null);
+  assert.ok(first.body.position[1] > 2, 'climbs off the pad');
+  assert.deepEqual(fly(gusty, 7), first);
+});
+
+test('another seed gives other gusts and sensor noise', () => {
+  assert.notDeepEqual(fly(gusty, 8).body, fly(gusty, 7).body);
+});
@@ -0,0 +1,208 @@
+import { Airframe, combineMotorCommands, isQuadplane, liftAirframe } from './airframe';
+import { ControlSurfaces, NEUTRAL_SURFACES, airData } from './aerodynamics';
+import { BatterySpec, BatteryState, batteryWarning, createBatteryState, stepBattery } from './battery';
+import { CrashMonitor, CrashReport, RingObstacle, createCrashMonitor, detectCrash } from './crash';
+import { EkfState, createEkfState, estimatedBody, stepEkf } from './ekf';
+import { DEFAULT_FAILSAFES, FailsafeAction, FailsafeConfig, FailsafeState, checkFailsafes, createFailsafeState, fenceBreach } from './failsafe';
+import { FaultState, applyMotorFaults, createFaultState, deadCells, hasPositionFix } from './faults';
+import { CRUISE_AIRSPEED, CRUISE_ALTITUDE, FixedWingControllerState, FixedWingSetpoint, computeFixedWingCommands, createFixedWingControllerState } from './fixedWingController';
+import { ControllerGains, ControllerState, Setpoint, buildMixer, computeMotorCommands, createControllerState } from './flightController';
+import { CENTERED_STICKS, FlightMode, FlightModeState, Sticks, createFlightModeState, setFlightMode, stepFlightMode } from './flightModes';
+import { motorPower, voltageThrustScale } from './propulsion';
+import { QuadplaneState, computeQuadplaneCommands, createQuadplaneState } from './quadplane';
+import { DEFAULT_SEED, RandomState, createRandom, nextRandom } from './random';
+import { RigidBodyState, createRigidBodyState, stepRigidBody } from './rigidBody';
+import { RotorFlow, createRotorFlow, rotorThrustScale, stepRotorFlow } from './rotorFlow';
+import { SensorConfig, SensorState, createSensorState, stepSensors } from './sensors';
+import { StepTest, recordStepSample } from './stepResponse';
+import { WindConfig, WindState, createWindState, stepWind, windAt } from './wind';
+import { Vec3 } from './math';
+
+export const PHYSICS_DT = 1 / 400; // Fixed integration step, seconds
+
+// Everything that changes during a flight. Commands and the physics step both modify it in place.
+export interface FlightSim {
+  body: RigidBodyState;
+  sensors: SensorState;
+  ekf: EkfState;
+  estimate: RigidBodyState; // The body state as the flight controller sees it, from the EKF
+  setpoint: Setpoint;
+  controller: ControllerState;
+  flightMode: FlightModeState; // Multirotor flight mode; a quadplane uses it while hovering
+  sticks: Sticks; // Pilot input, held until released
+  planeSetpoint: FixedWingSetpoint; // Used instead of `setpoint` when the airframe has wings
+  planeController: FixedWingControllerState;
+  quadplane: QuadplaneState; // Flight phase; only used by quadplanes
+  motorCommands: number[]; // Last mixer output, before faults and battery sag
+  battery: BatteryState;
+  wind: WindState;
+  rotorFlow: RotorFlow; // Ground effect and vortex ring state at the lift rotors
+  armed: boolean;
+  time: number; // Simulated seconds
+  stepTest: StepTest | null; // Step response currently being recorded
+  crash: CrashReport | null;
+  crashMonitor: CrashMonitor;
+  faults: FaultState;
+  failsafe: FailsafeState;
+  rng: RandomState; // Drives turbulence, gusts, sensor noise and intermittent faults
+}
+
+// What stays fixed during a flight: the aircraft, its pack, the weather and the course
+export interface SimConfig {
+  airframe: Airframe;
+  lift: Airframe; // The airframe's lift motors, which the multirotor mixer drives
+  mixer: number[][];
+  batterySpec: BatterySpec;
+  windConfig: WindConfig;
+  sensorConfig: SensorConfig;
+  gains: ControllerGains;
+  obstacles: RingObstacle[];
+  failsafes: FailsafeConfig;
+}
+
+export function createSimConfig(
+  airframe: Airframe,
+  batterySpec: BatterySpec,
+  windConfig: WindConfig,
+  sensorConfig: SensorConfig,
+  gains: ControllerGains,
+  obstacles: RingObstacle[] = [],
+  failsafes: FailsafeConfig = DEFAULT_FAILSAFES,
+): SimConfig {
+  const lift = liftAirframe(airframe);
+  return { airframe, lift, mixer: buildMixer(lift), batterySpec, windConfig, sensorConfig, gains, obstacles, failsafes };
+}
+
+// Disarmed on the ground at the origin with a full pack
+export function createFlightSim(airframe: Airframe, batterySpec: BatterySpec, seed: number = DEFAULT_SEED): FlightSim {
+  const rng = createRandom(seed);
+  const body = createRigidBodyState(airframe);
+  return {
+    body,
+    sensors: createSensorState(() => nextRandom(rng)),
+    ekf: createEkfState(body),
+    estimate: body,
+    setpoint: { position: [0, 0, 0], yaw: 0 },
+    controller: createControllerState(),
+    flightMode: createFlightModeState(),
+    sticks: { ...CENTERED_STICKS },
+    planeSetpoint: { nav: { kind: 'course', course: 0 }, altitude: 0, airspeed: CRUISE_AIRSPEED, glide: false },
+    planeController: createFixedWingControllerState(),
+    quadplane: createQuadplaneState(),
+    motorCommands: [],
+    battery: createBatteryState(batterySpec),
+    wind: createWindState(),
+    rotorFlow: createRotorFlow(airframe),
+    armed: false,
+    time: 0,
+    stepTest: null,
+    crash: null,
+    crashMonitor: createCrashMonitor(),
+    faults: createFaultState(),
+    failsafe: createFailsafeState(),
+    rng,
+  };
+}
+
+// Advances the flight by one PHYSICS_DT. Does nothing once crashed; a crash disarms the motors.
+export function stepSim(sim: FlightSim, config: SimConfig) {
+  if (sim.crash) return;
+  const { airframe, lift, mixer, batterySpec, windConfig, sensorConfig, gains, obstacles, failsafes } = config;
+  const random = () => nextRandom(sim.rng);
+
+  // The pack voltage sets how much of each motor's rated thrust a command produces
+  const warning = batteryWarning(sim.battery, batterySpec);
+  const depleted = warning === 'depleted';
+  const available = depleted ? 0 : voltageThrustScale(sim.battery.voltage);
+  sim.wind = stepWind(sim.wind, windConfig, sim.body.position[1], PHYSICS_DT, random);
+  const wind = windAt(sim.wind, windConfig, sim.body.position);
+
+  // The controller flies on the EKF's estimate; the motors then carry out what they can.
+  // The flight mode turns stick input into setpoints, and drops out of position hold without a
+  // fix; a plane holds its heading instead. Home is taken afresh at every arming, and the
+  // failsafes watch the battery, the links and the fence around it while armed.
+  const estimate = sim.estimate;
+  const positionFix = hasPositionFix(sim.faults);
+  let demand = airframe.motors.map(() => 0);
+  let surfaces: ControlSurfaces = NEUTRAL_SURFACES;
+  let landed = false;
+  const hovering = !airframe.wing || (isQuadplane(airframe) && sim.quadplane.phase === 'hover');
+  if (!sim.armed) {
+    sim.flightMode.home = null;
+    sim.failsafe = createFailsafeState();
+  } else {
+    if (!sim.flightMode.home) sim.flightMode.home = [...estimate.position];
+    const home = sim.flightMode.home;
+    const fired = checkFailsafes(sim.failsafe, {
+      low_battery: warning !== 'ok',
+      critical_battery: warning === 'critical' || depleted,
+      rc_loss: !!sim.faults.active.rx_failsafe,
+      gps_loss: !positionFix,
+      geofence: fenceBreach(failsafes.fence, home, estimate.position) !== null,
+    }, sim.time);
+    for (const id of fired) runFailsafeAction(sim, failsafes.actions[id], !hovering, positionFix);
+  }
+  if (sim.armed && hovering) {
+    landed = stepFlightMode(sim.flightMode, sim.setpoint, sim.controller, sim.sticks, estimate, sim.body.onGround, airframe.mass, available, positionFix, PHYSICS_DT);
+  }
+  if (sim.armed && isQuadplane(airframe)) {
+    ({ motors: demand, surfaces } = computeQuadplaneCommands(
+      estimate, airframe, mixer, sim.quadplane, sim.setpoint, sim.controller, gains,
+      sim.planeSetpoint, sim.planeController, wind, positionFix, sim.time, PHYSICS_DT,
+    ));
+  } else if (sim.armed && airframe.wing) {
+    const planeSetpoint: FixedWingSetpoint = positionFix
+      ? sim.planeSetpoint
+      : { ...sim.planeSetpoint, nav: { kind: 'course', course: sim.planeController.course ?? 0 } };
+    ({ motors: demand, surfaces } = computeFixedWingCommands(estimate, airframe, planeSetpoint, sim.planeController, wind, PHYSICS_DT));
+  } else if (sim.armed) {
+    demand = combineMotorCommands(airframe, computeMotorCommands(estimate, lift, mixer, sim.setpoint, gains, sim.controller, PHYSICS_DT), 0);
+  }
+  if (landed) sim.armed = false;
+  sim.motorCommands = demand;
+  const commands = applyMotorFaults(sim.faults, demand, sim.time, PHYSICS_DT, random).map(c => c * available);
+
+  const prev = sim.body;
+  sim.rotorFlow = stepRotorFlow(sim.rotorFlow, sim.body, airframe, wind, PHYSICS_DT, random);
+  sim.body = stepRigidBody(sim.body, airframe, commands, { wind, thrustScale: rotorThrustScale(sim.rotorFlow, airframe) }, PHYSICS_DT, surfaces);
+  // A pusher works in the oncoming air; lift props see roughly still air
+  const airspeed = airframe.wing ? airData(sim.body, wind).airspeed : 0;
+  const power = sim.body.motorThrust.reduce((acc, t, i) => acc + motorPower(t, airframe.motors[i].axis ? airspeed : 0, airframe.propRadius * 2), 0);
+  sim.battery = stepBattery(sim.battery, batterySpec, power, PHYSICS_DT, deadCells(sim.faults));
+  sim.time += PHYSICS_DT;
+  const throttle = commands.reduce((acc, c) => acc + c, 0) / Math.max(commands.length, 1);
+  stepSensors(sim.sensors, sensorConfig, prev, sim.body, sim.faults, throttle, sim.battery.current, sim.time, PHYSICS_DT, random);
+  stepEkf(sim.ekf, sim.sensors.readings, sensorConfig, sim.time, PHYSICS_DT);
+  sim.estimate = estimatedBody(sim.ekf, sim.sensors.readings, sim.body);
+  if (sim.stepTest) recordStepSample(sim.stepTest, sim.body, sim.time);
+
+  sim.crash = detectCrash(prev, sim.body, airframe, sim.crashMonitor, { batteryDepleted: depleted, wind, obstacles, vortexRing: sim.rotorFlow.vortexRing }, sim.time, PHYSICS_DT);
+  if (sim.crash) sim.armed = false;
+}
+
+const PLANE_LOITER_RADIUS = 30; // m
+
+// Carries out a failsafe action. A hovering drone switches flight mode, never to a milder one than
+// it is already in, and lands where it is if it can't return. A plane circles or glides in instead.
+function runFailsafeAction(sim: FlightSim, action: FailsafeAction, asPlane: boolean, positionFix: boolean) {
+  if (action === 'report') return;
+  const { flightMode, estimate, planeSetpoint } = sim;
+  if (asPlane) {
+    if (action === 'land') Object.assign(planeSetpoint, { glide: true, airspeed: 0 });
+    else {
+      const center: Vec3 = [...(action === 'rtl' ? flightMode.home ?? estimate.position : estimate.position)];
+      planeSetpoint.nav = { kind: 'loiter', center, radius: PLANE_LOITER_RADIUS, direction: -1 };
+      if (action === 'rtl') planeSetpoint.altitude = CRUISE_ALTITUDE;
+    }
+    return;
+  }
+  if (flightMode.mode === 'LAND' || (flightMode.mode === 'RTL' && action !== 'land')) return;
+  const fallbacks: FlightMode[] = action === 'hold' ? ['LOITER', 'ALT_HOLD'] : action === 'rtl' ? ['RTL', 'LAND'] : ['LAND'];
+  fallbacks.find(mode => !setFlightMode(flightMode, mode, estimate, sim.setpoint, sim.controller, positionFix));
+}
+
+// Steps for `seconds` of sim time, stopping early at a crash
+export function runSim(sim: FlightSim, config: SimConfig, seconds: number) {
+  const steps = Math.round(seconds / PHYSICS_DT);
+  for (let i = 0; i < steps && !sim.crash; i++) stepSim(sim, config);
+}
@@ -0,0 +1,88 @@
+import { RigidBodyState } from './rigidBody';
+import { toYawPitchRoll, wrapAngle } from './math';
+
+export type StepAxis = 'roll' | 'pitch' | 'yaw' | 'altitude';
+
+export interface ResponseSample {
+  t: number; // Seconds since the step
+  setpoint: number;
+  measured: number;
+}
+
+export interface StepTest {
+  axis: StepAxis;
+  initial: number;
+  target: number;
+  startTime: number;
+  duration: number;
+  samples: ResponseSample[];
+}
+
+export interface StepMetrics {
+  riseTime: number | null; // 10% -> 90% of the step, seconds
+  overshoot: number; // Percent of the step size
+  settlingTime: number | null; // Time to stay within the settling band, seconds
+  steadyStateError: number; // Mean error over the last 10% of the window, in axis units
+}
+
+export const STEP_UNITS: Record<StepAxis, string> = { roll: '°', pitch: '°', yaw: '°', altitude: 'm' };
+export const STEP_DURATION: Record<StepAxis, number> = { roll: 1.5, pitch: 1.5, yaw: 3, altitude: 5 };
+const SAMPLE_INTERVAL = 0.01;
+const SETTLING_BAND = 0.05; // ±5% of the step size
+
+// Reads the controlled quantity for an axis, in degrees or metres
+export function measureAxis(axis: StepAxis, body: RigidBodyState): number {
+  if (axis === 'altitude') return body.position[1];
+  const attitude = toYawPitchRoll(body.attitude);
+  return attitude[axis] * 180 / Math.PI;
+}
+
+export function createStepTest(axis: StepAxis, body: RigidBodyState, magnitude: number, time: number): StepTest {
+  const initial = measureAxis(axis, body);
+  return { axis, initial, target: initial + magnitude, startTime: time, duration: STEP_DURATION[axis], samples: [] };
+}
+
+// Appends a sample if the sampling interval has elapsed. Returns false once the test window is over.
+export function recordStepSample(test: StepTest, body: RigidBodyState, time: number): boolean {
+  const t = time - test.startTime;
+  if (t > test.duration) return false;
+  const last = test.samples[test.samples.length - 1];
+  if (!last || t - last.t >= SAMPLE_INTERVAL) {
+    let measured = measureAxis(test.axis, body);
+    // Keep heading continuous across ±180°
+    if (test.axis === 'yaw') measured = test.initial + wrapAngle((measured - test.initial) * Math.PI / 180) * 180 / Math.PI;
+    test.samples.push({ t, setpoint: test.target, measured });
+  }
+  return true;
+}
+
+export function analyzeStepResponse(test: StepTest): StepMetrics {
+  const { samples, initial, target } = test;
+  const step = target - initial;
+  if (samples.length === 0 || step === 0) {
+    return { riseTime: null, overshoot: 0, settlingTime: null, steadyStateError: 0 };
+  }
+
+  // Normalise so the response runs 0 -> 1 regardless of step direction
+  const progress = samples.map(s => (s.measured - initial) / step);
+
+  const t10 = samples.find((_, i) => progress[i] >= 0.1)?.t;
+  const t90 = samples.find((_, i) => progress[i] >= 0.9)?.t;
+  const riseTime = t10 !== undefined && t90 !== undefined ? t90 - t10 : null;
+
+  const peak = Math.max(...progress);
+  const overshoot = Math.max(0, (peak - 1) * 100);
+
+  let settlingTime: number | null = 0;
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (Math.abs(progress[i] - 1) > SETTLING_BAND) {
+      settlingTime = i === samples.length - 1 ? null : samples[i + 1].t;
+      break;
+    }
+  }
+
+  const tail = samples.slice(Math.floor(samples.length * 0.9));
+  const steadyStateError = tail.reduce((acc, s) => acc + (target - s.measured), 0) / tail.length;
+
+  return { riseTime, overshoot, settlingTime, steadyStateError };
+}
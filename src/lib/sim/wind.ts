@@ -0,0 +1,106 @@
+import { Vec3, add, scale } from './math';
+import { gaussian } from './random';
+
+export interface WindConfig {
+  speed: number; // Mean wind at the reference height, m/s
+  direction: number; // Degrees the wind blows FROM, 0 = from +Z
+  gustStrength: number; // Peak extra speed of a discrete gust, m/s
+  turbulence: number; // RMS horizontal turbulence intensity, m/s
+  shearExponent: number; // Power-law exponent: ~0.1 over water, ~0.14 open field, ~0.3 around buildings
+}
+
+export interface WindState {
+  turbulence: Vec3; // Current Dryden turbulence components, m/s
+  gust: { start: number; duration: number; peak: Vec3 } | null;
+  nextGust: number; // Sim time of the next gust
+  time: number;
+}
+
+export type WindPresetId = 'calm' | 'breezy' | 'gusty' | 'stormy';
+
+export const WIND_PRESETS: Record<WindPresetId, { label: string; desc: string; config: WindConfig }> = {
+  calm: {
+    label: 'Calm',
+    desc: 'Still air. The drone holds position on its own.',
+    config: { speed: 0, direction: 0, gustStrength: 0, turbulence: 0, shearExponent: 0.14 },
+  },
+  breezy: {
+    label: 'Breezy',
+    desc: 'Steady breeze with light turbulence. Watch the I-term trim out the lean.',
+    config: { speed: 4, direction: 270, gustStrength: 1.5, turbulence: 0.5, shearExponent: 0.14 },
+  },
+  gusty: {
+    label: 'Gusty',
+    desc: 'Moderate turbulence and strong gusts. Position hold has to work hard.',
+    config: { speed: 6, direction: 240, gustStrength: 4, turbulence: 1.2, shearExponent: 0.2 },
+  },
+  stormy: {
+    label: 'Stormy',
+    desc: 'Severe gusts near the airframe\'s limits. Expect to lose ground.',
+    config: { speed: 10, direction: 200, gustStrength: 6, turbulence: 2.5, shearExponent: 0.25 },
+  },
+};
+
+const REFERENCE_HEIGHT = 10; // m, where `speed` is specified
+const MIN_HEIGHT = 0.3; // The power law goes to zero at the ground; clamp just above it
+const GUST_INTERVAL: [number, number] = [4, 12]; // s between gusts
+const GUST_DURATION: [number, number] = [1, 3]; // s
+
+export const createWindState = (): WindState => ({ turbulence: [0, 0, 0], gust: null, nextGust: GUST_INTERVAL[0], time: 0 });
+
+const between = ([min, max]: [number, number], random: () => number) => min + (max - min) * random();
+
+// Direction the mean wind blows towards, as a unit vector
+export function windDirection(config: WindConfig): Vec3 {
+  const rad = config.direction * Math.PI / 180;
+  return [-Math.sin(rad), 0, -Math.cos(rad)];
+}
+
+// Wind shear: the mean speed follows a power law of height above ground
+export const shearFactor = (config: WindConfig, height: number) =>
+  Math.pow(Math.max(height, MIN_HEIGHT) / REFERENCE_HEIGHT, config.shearExponent);
+
+// Advances turbulence and gusts. Turbulence uses the first-order Dryden shaping filter
+// (a Gauss-Markov process) per axis, with low-altitude length scales from MIL-F-8785C.
+export function stepWind(state: WindState, config: WindConfig, height: number, dt: number, random: () => number = Math.random): WindState {
+  const time = state.time + dt;
+  const h = Math.max(height, MIN_HEIGHT) * 3.281; // The MIL spec formulas are in feet
+  const lengthU = h / Math.pow(0.177 + 0.000823 * h, 1.2) / 3.281;
+  const lengthW = h / 3.281;
+  // Near the ground vertical gusts are damped relative to horizontal ones
+  const sigmaU = config.turbulence;
+  const sigmaW = sigmaU * Math.pow(0.177 + 0.000823 * h, 0.4);
+  const airspeed = Math.max(config.speed * shearFactor(config, height), 1);
+
+  const sigmas: Vec3 = [sigmaU, sigmaW, sigmaU];
+  const lengths: Vec3 = [lengthU, lengthW, lengthU];
+  const turbulence = state.turbulence.map((x, i) => {
+    const a = airspeed * dt / lengths[i];
+    return (1 - a) * x + Math.sqrt(2 * a) * sigmas[i] * gaussian(random);
+  }) as Vec3;
+
+  let { gust, nextGust } = state;
+  if (gust && time > gust.start + gust.duration) gust = null;
+  if (!gust && time >= nextGust && config.gustStrength > 0) {
+    // Gusts mostly follow the mean wind, swinging up to ±30° off it
+    const swing = (random() - 0.5) * Math.PI / 3;
+    const heading = random() * 2 * Math.PI;
+    const dir: Vec3 = config.speed > 0 ? windDirection(config) : [Math.sin(heading), 0, Math.cos(heading)];
+    const rotated: Vec3 = [dir[0] * Math.cos(swing) + dir[2] * Math.sin(swing), 0, -dir[0] * Math.sin(swing) + dir[2] * Math.cos(swing)];
+    gust = { start: time, duration: between(GUST_DURATION, random), peak: scale(rotated, config.gustStrength * (0.6 + 0.4 * random())) };
+    nextGust = time + between(GUST_INTERVAL, random);
+  }
+
+  return { turbulence, gust, nextGust, time };
+}
+
+// Total wind at a point: sheared mean wind + "1-cosine" discrete gust + turbulence
+export function windAt(state: WindState, config: WindConfig, position: Vec3): Vec3 {
+  const height = position[1];
+  let wind = scale(windDirection(config), config.speed * shearFactor(config, height));
+  if (state.gust) {
+    const phase = (state.time - state.gust.start) / state.gust.duration;
+    wind = add(wind, scale(state.gust.peak, 0.5 * (1 - Math.cos(2 * Math.PI * phase))));
+  }
+  return add(wind, state.turbulence);
+}
@@ -1,15 +1,64 @@
-import React, { Suspense, useState, useRef, useEffect } from 'react';
+import React, { Suspense, useState, useRef, useEffect, useMemo } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, Html } from '@react-three/drei';
 import { motion, AnimatePresence } from 'motion/react';
-import DroneModel, { BuildState } from '../components/3d/DroneModel';
-import { Play, Square, Wrench, Code, Terminal, CheckCircle2, Circle, BookOpen, Wind, Battery, SlidersHorizontal, Gamepad2, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, RotateCcw, RotateCw, Info, Target, AlertTriangle, Keyboard } from 'lucide-react';
+import DroneModel, { BuildState, DroneType } from '../components/3d/DroneModel';
+import { Play, Square, Wrench, Code, Terminal, CheckCircle2, Circle, BookOpen, Library, Battery, SlidersHorizontal, Gamepad2, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, RotateCcw, RotateCw, ChevronsUp, ChevronsDown, Info, AlertTriangle, Keyboard, Dices } from 'lucide-react';
 import { cn } from '../lib/utils';
+import PidTuningPanel from '../components/simulator/PidTuningPanel';
+import StepResponsePanel from '../components/simulator/StepResponsePanel';
+import BatteryPanel, { WARNING_COLORS, formatDuration } from '../components/simulator/BatteryPanel';
+import MotorPanel from '../components/simulator/MotorPanel';
+import WindPanel from '../components/simulator/WindPanel';
+import FaultInjectionPanel from '../components/simulator/FaultInjectionPanel';
+import SensorPanel from '../components/simulator/SensorPanel';
+import EstimatorPanel, { SigmaSample } from '../components/simulator/EstimatorPanel';
+import RotorFlowPanel from '../components/simulator/RotorFlowPanel';
+import FailsafePanel from '../components/simulator/FailsafePanel';
+import ScriptEditor, { GuideText } from '../components/simulator/ScriptEditor';
+import ScriptLibraryPanel from '../components/simulator/ScriptLibraryPanel';
+import ScriptTabs, { ScriptFile } from '../components/simulator/ScriptTabs';
+import DebuggerPanel from '../components/simulator/DebuggerPanel';
+import WindField from '../components/3d/WindField';
+import CameraFollow from '../components/3d/CameraFollow';
+import GhostDrone from '../components/3d/GhostDrone';
+import GeofenceWalls from '../components/3d/GeofenceWalls';
+import { FLIGHT_COMMANDS, FlightCommand, MissionStatus, TELEMETRY_QUERIES, TelemetryQuery } from '../lib/script/commands';
+import { DRONE_API_DTS } from '../lib/script/droneApi';
+import { DRONEKIT_MODULES, HOME_LOCATION, createDronekitModules } from '../lib/script/dronekit';
+import { PausedAt, createScriptDebugger, debugStatement, resumeScript, toggleBreakpoint } from '../lib/script/debugger';
+import { Builtin, STANDARD_BUILTINS, Value, formatValue, runScript } from '../lib/script/interpreter';
+import { SavedScript, deleteScript, duplicateScript, freeName, importedName, latest, loadLibrary, loadOpenScripts, readScriptFile, saveScript, storeLibrary, storeOpenScripts } from '../lib/script/library';
+import { Program, parse } from '../lib/script/parser';
+import { Finding, PreflightContext, PreflightReport, preflightCheck } from '../lib/script/preflight';
+import { GUIDE_SECTIONS, ScriptLanguage, languageOf } from '../lib/script/reference';
+import { STEP_TIME_LIMIT, compileTypeScript, compilerLoaded, runInSandbox } from '../lib/script/sandbox';
+import { ScriptError, formatScriptError } from '../lib/script/tokenizer';
+import { Airframe, MIN_THRUST_TO_WEIGHT, buildAirframe, getMaxThrust, getTotalWeight, isQuadplane, liftAirframe } from '../lib/sim/airframe';
+import { AirData, airData, levelFlightDrag, stallSpeed } from '../lib/sim/aerodynamics';
+import { CRUISE_AIRSPEED, CRUISE_ALTITUDE, LaunchKind, createFixedWingControllerState, launchBody, minAirspeed, minTurnRadius } from '../lib/sim/fixedWingController';
+import { FRAME_LAYOUTS, FrameLayout, motorCount } from '../lib/sim/frames';
+import { PHASE_LABELS, QuadplanePhase, TRANSITION_TIMEOUT, VTOL_TAKEOFF_ALTITUDE, startTransitionBack, startTransitionForward, transitionAirspeed } from '../lib/sim/quadplane';
+import { ControllerGains, DEFAULT_GAINS, createControllerState } from '../lib/sim/flightController';
+import { CENTERED_STICKS, FLIGHT_MODES, FlightMode, LAND_SPEED, Sticks, setFlightMode } from '../lib/sim/flightModes';
+import { BatterySpec, BatteryState, BatteryWarning, DEFAULT_BATTERY, batteryWarning, createBatteryState, estimateHoverTime, remainingFlightTime, stateOfCharge } from '../lib/sim/battery';
+import { MotorTelemetry, motorPower, motorTelemetry } from '../lib/sim/propulsion';
+import { StepAxis, STEP_UNITS, createStepTest } from '../lib/sim/stepResponse';
+import { RingObstacle, formatCrashReport } from '../lib/sim/crash';
+import { FAULTS, FaultId, FaultState, clearFault, clearFaults, hasPositionFix, injectFault } from '../lib/sim/faults';
+import { DEFAULT_FAILSAFES, FAILSAFES, FAILSAFE_ACTIONS, FailsafeConfig, FailsafeId, FailsafeState, fenceBreach } from '../lib/sim/failsafe';
+import { WIND_PRESETS, WindConfig, WindPresetId, windAt } from '../lib/sim/wind';
+import { SENSOR_PRESETS, SensorConfig, SensorPresetId, SensorReadings } from '../lib/sim/sensors';
+import { RotorFlow, createRotorFlow, hoverInducedVelocity } from '../lib/sim/rotorFlow';
+import { NavigationError, estimateError, estimateSigma, shiftEkf } from '../lib/sim/ekf';
+import { DEFAULT_SEED } from '../lib/sim/random';
+import { FlightSim, PHYSICS_DT, createFlightSim, createSimConfig, stepSim } from '../lib/sim/simulation';
+import { GRAVITY, Vec3, length, sub, toEulerXYZ, toYawPitchRoll, wrapAngle } from '../lib/sim/math';
 
 type Mode = 'build' | 'code' | 'physics' | 'control';
 
 const defaultCode = `# --- RESEARCH FLIGHT SCRIPT ---
-# Language: Python-like pseudo-code
+# Language: a subset of Python (variables, if/for/while, def)
 # Simulating MAVLink commands to a PID-controlled Flight Controller
 
 # 1. Arm motors and climb to 2 meters
@@ -32,94 +81,186 @@ forward(3)
 land()
 `;
 
-// Component Specifications for Weight & Thrust calculations
-const COMPONENT_SPECS = {
-  frame: { weight: 150, thrust: 0 },
-  motors: { weight: 120, thrust: 3200 }, // Total thrust for 4 motors
-  esc: { weight: 20, thrust: 0 },
-  fc: { weight: 10, thrust: 0 },
-  camera: { weight: 15, thrust: 0 },
-  battery: { weight: 250, thrust: 0 },
-  props: { weight: 20, thrust: 0 },
-  wings: { weight: 200, thrust: 0 },
+const defaultTypeScript = `// --- RESEARCH FLIGHT SCRIPT (TypeScript) ---
+// Runs in a sandboxed Web Worker against the typed Drone API (drone.d.ts in the guide).
+// Every drone method is async: await it to wait until the drone has flown it.
+
+await drone.takeoff(2);
+await drone.hover(2);
+
+// Fly a 3 m square
+for (const [x, z] of [[0, 3], [-3, 3], [-3, 0], [0, 0]]) {
+  await drone.goto({ x, z });
+}
+
+const battery = await drone.batteryPercent();
+console.log(\`Battery at \${battery.toFixed(0)}%\`);
+await drone.land();
+`;
+
+const dronekitExample = `from dronekit import connect, VehicleMode
+import time
+
+# Connect to the Vehicle (via serial port or UDP)
+vehicle = connect('/dev/ttyAMA0', wait_ready=True, baud=921600)
+
+def arm_and_takeoff(aTargetAltitude):
+    print("Basic pre-arm checks")
+    while not vehicle.is_armable:
+        time.sleep(1)
+
+    print("Arming motors")
+    vehicle.mode = VehicleMode("GUIDED")
+    vehicle.armed = True
+
+    while not vehicle.armed:
+        time.sleep(1)
+
+    print("Taking off!")
+    vehicle.simple_takeoff(aTargetAltitude)
+
+    while True:
+        print(" Altitude: ", vehicle.location.global_relative_frame.alt)
+        if vehicle.location.global_relative_frame.alt >= aTargetAltitude * 0.95:
+            print("Reached target altitude")
+            break
+        time.sleep(1)
+
+arm_and_takeoff(2)
+print("Hovering for 5 seconds...")
+time.sleep(5)
+print("Landing...")
+vehicle.mode = VehicleMode("LAND")
+vehicle.close()
+`;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// A script's mistake, with where it is, or anything else that went wrong with running it
+const describeError = (error: unknown) => (error instanceof ScriptError ? formatScriptError(error)
+  : `Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+
+// The ground grid, m across. Scripts are checked against it as the flight area.
+const GRID_SIZE = { multirotor: 20, winged: 400 };
+const PREFLIGHT_DELAY = 400; // ms after the last edit before the script is re-checked
+
+const HOOP: RingObstacle = { center: [0, 3, -5], radius: 1.5, tube: 0.1 };
+// Stable references, so the sim config isn't rebuilt on every render
+const HOOP_COURSE = [HOOP];
+const NO_OBSTACLES: RingObstacle[] = [];
+
+// History of the estimator's uncertainty kept for its plot
+const SIGMA_WINDOW = 30; // s
+const SIGMA_SAMPLE_INTERVAL = 0.1; // s
+
+// Keys that hold a stick over, and the command a plane gets for the same key
+const STICK_KEYS: Record<string, { axis: keyof Sticks; value: number; cmd: string }> = {
+  w: { axis: 'pitch', value: 1, cmd: 'forward' },
+  s: { axis: 'pitch', value: -1, cmd: 'backward' },
+  a: { axis: 'roll', value: -1, cmd: 'left' },
+  d: { axis: 'roll', value: 1, cmd: 'right' },
+  q: { axis: 'yaw', value: -1, cmd: 'yaw_left' },
+  e: { axis: 'yaw', value: 1, cmd: 'yaw_right' },
+  arrowup: { axis: 'throttle', value: 1, cmd: 'forward' },
+  arrowdown: { axis: 'throttle', value: -1, cmd: 'backward' },
 };
 
-// A wrapper component to handle physics updates within the Canvas
+// Runs the simulation core in real time inside the render loop
 function PhysicsEngine({ 
-  position, 
-  setPosition, 
-  rotation,
-  setRotation,
-  isHovering, 
-  windX, 
-  windZ,
-  isRunning,
-  pGain,
-  crashed
+  simRef,
+  airframe,
+  windConfig,
+  sensorConfig,
+  gains,
+  batterySpec,
+  obstacles,
+  failsafes,
+  crashed,
+  onUpdate
 }: { 
-  position: [number, number, number], 
-  setPosition: React.Dispatch<React.SetStateAction<[number, number, number]>>,
-  rotation: [number, number, number],
-  setRotation: React.Dispatch<React.SetStateAction<[number, number, number]>>,
-  isHovering: boolean,
-  windX: number,
-  windZ: number,
-  isRunning: boolean,
-  pGain: number,
-  crashed: boolean
+  simRef: React.MutableRefObject<FlightSim>,
+  airframe: Airframe,
+  batterySpec: BatterySpec,
+  windConfig: WindConfig,
+  sensorConfig: SensorConfig,
+  gains: ControllerGains,
+  obstacles: RingObstacle[],
+  failsafes: FailsafeConfig,
+  crashed: boolean,
+  onUpdate: (sim: FlightSim) => void
 }) {
-  useFrame((state, delta) => {
-    if (crashed) return;
-
-    if (isHovering && isRunning) {
-      // Apply wind drift. A real PID controller would fight this, 
-      // but we simulate a slight drift that the "code" doesn't perfectly correct.
-      const driftFactor = 0.5; // How much wind affects the drone
-      const newX = position[0] + (windX * driftFactor * delta);
-      const newZ = position[2] + (windZ * driftFactor * delta);
-      
-      // Only update if there's actual wind to avoid constant re-renders
-      if (Math.abs(windX) > 0.1 || Math.abs(windZ) > 0.1) {
-        setPosition([newX, position[1], newZ]);
-      }
-
-      // PID Wobble Simulation
-      if (pGain !== 1.0) {
-        const time = state.clock.elapsedTime;
-        let wobbleX = 0;
-        let wobbleZ = 0;
-        
-        if (pGain < 0.8) {
-          // Sluggish, slow drift/wobble
-          wobbleX = Math.sin(time * 2) * (1.0 - pGain) * 0.2;
-          wobbleZ = Math.cos(time * 2.5) * (1.0 - pGain) * 0.2;
-        } else if (pGain > 1.2) {
-          // Overcompensated, rapid oscillation
-          wobbleX = Math.sin(time * 20) * (pGain - 1.0) * 0.1;
-          wobbleZ = Math.cos(time * 20) * (pGain - 1.0) * 0.1;
-        }
-        
-        // Update rotation if significant
-        if (Math.abs(wobbleX) > 0.01 || Math.abs(wobbleZ) > 0.01) {
-          setRotation([wobbleX, rotation[1], wobbleZ]);
-        }
-      } else if (rotation[0] !== 0 || rotation[2] !== 0) {
-        setRotation([0, rotation[1], 0]);
+  const config = useMemo(
+    () => createSimConfig(airframe, batterySpec, windConfig, sensorConfig, gains, obstacles, failsafes),
+    [airframe, batterySpec, windConfig, sensorConfig, gains, obstacles, failsafes],
+  );
+  const accumulator = useRef(0);
+
+  useFrame((_, delta) => {
+    const sim = simRef.current;
+    if (crashed || sim.crash) return;
+
+    // Clamp long frames (e.g. a background tab) so the integrator doesn't spiral
+    accumulator.current += Math.min(delta, 0.1);
+    while (accumulator.current >= PHYSICS_DT) {
+      stepSim(sim, config);
+      accumulator.current -= PHYSICS_DT;
+      if (sim.crash) {
+        accumulator.current = 0;
+        break;
       }
     }
+    onUpdate(sim);
   });
   return null;
 }
 
+// Deflects a stick while pressed and centres it on release
+function StickButton({ axis, value, cmd, disabled, onMove, children }: {
+  axis: keyof Sticks,
+  value: number,
+  cmd: string,
+  disabled: boolean,
+  onMove: (axis: keyof Sticks, value: number, cmd: string) => void,
+  children: React.ReactNode
+}) {
+  const release = () => onMove(axis, 0, cmd);
+  return (
+    <button
+      onPointerDown={() => onMove(axis, value, cmd)}
+      onPointerUp={release}
+      onPointerLeave={release}
+      disabled={disabled}
+      className="p-4 px-6 bg-secondary rounded-xl flex items-center justify-center gap-2 hover:bg-secondary/80 active:bg-primary/30 disabled:opacity-50 transition-colors select-none touch-none"
+    >
+      {children}
+    </button>
+  );
+}
+
 export default function Simulator() {
   const [mode, setMode] = useState<Mode>('build');
   const [isHovering, setIsHovering] = useState(false);
-  const [code, setCode] = useState(defaultCode);
+  // The open scripts come back as they were left, unsaved edits and all
+  const [files, setFiles] = useState<ScriptFile[]>(() => loadOpenScripts()?.files ?? [{ name: 'flight.py', code: defaultCode }, { name: 'flight.ts', code: defaultTypeScript }]);
+  const [activeFile, setActiveFile] = useState(() => loadOpenScripts()?.active ?? 'flight.py');
+  const [library, setLibrary] = useState<SavedScript[]>(loadLibrary);
+  const file = files.find(f => f.name === activeFile) ?? files[0];
+  const code = file.code;
+  const scriptLanguage = languageOf(file.name);
+  const setCode = (text: string) => setFiles(prev => prev.map(f => (f.name === file.name ? { ...f, code: text } : f)));
   const [isRunning, setIsRunning] = useState(false);
+  const scriptRef = useRef<AbortController | null>(null); // Cancels the running script; state would be a stale closure
+  const debuggerRef = useRef(createScriptDebugger());
+  const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
+  const [currentLine, setCurrentLine] = useState<number | null>(null); // Line the running script is on
+  const [pausedAt, setPausedAt] = useState<PausedAt | null>(null);
+  const [findings, setFindings] = useState<Finding[]>([]); // The pre-flight check's, shown in the editor
   const [logs, setLogs] = useState<string[]>(['System initialized. Ready.']);
   const [showGuide, setShowGuide] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const terminalRef = useRef<HTMLDivElement>(null);
-  const [droneType, setDroneType] = useState<DroneType>('quadcopter');
+  const [droneType, setDroneType] = useState<DroneType>('multirotor');
+  const [frameLayout, setFrameLayout] = useState<FrameLayout>('quad-x');
   const [keyboardEnabled, setKeyboardEnabled] = useState(false);
 
   useEffect(() => {
@@ -131,15 +272,39 @@ export default function Simulator() {
   // Drone State
   const [dronePos, setDronePos] = useState<[number, number, number]>([0, 0, 0]);
   const [droneRot, setDroneRot] = useState<[number, number, number]>([0, 0, 0]);
+  const [heading, setHeading] = useState(0);
 
   // Physics State
-  const [windX, setWindX] = useState(0);
-  const [windZ, setWindZ] = useState(0);
-  const [batteryVoltage, setBatteryVoltage] = useState(16.8); // 4S LiPo fully charged
+  const [windConfig, setWindConfig] = useState<WindConfig>(WIND_PRESETS.calm.config);
+  const [windPreset, setWindPreset] = useState<WindPresetId | 'custom'>('calm');
+  const [windAtDrone, setWindAtDrone] = useState<Vec3>([0, 0, 0]);
+  const windRef = useRef<Vec3>([0, 0, 0]); // Wind at the drone as of the last frame, for scripts
+  const [sensorConfig, setSensorConfig] = useState<SensorConfig>(SENSOR_PRESETS.typical.config);
+  const [sensorPreset, setSensorPreset] = useState<SensorPresetId | 'custom'>('typical');
+  const [sensorReadings, setSensorReadings] = useState<SensorReadings | null>(null);
+  const [estimateView, setEstimateView] = useState<{ position: Vec3; rotation: Vec3; error: NavigationError } | null>(null);
+  const [sigmaHistory, setSigmaHistory] = useState<SigmaSample[]>([]);
+  const [air, setAir] = useState<AirData>({ airspeed: 0, alpha: 0, beta: 0 });
+  const [rotorFlow, setRotorFlow] = useState<RotorFlow | null>(null);
+  const vortexRingRef = useRef(false); // Whether a vortex ring was last reported to the terminal
+  const [flightPhase, setFlightPhase] = useState<QuadplanePhase>('hover');
+  const phaseRef = useRef<QuadplanePhase>('hover'); // Last phase reported to the terminal
+  const [flightMode, setFlightModeView] = useState<FlightMode>('LOITER');
+  const modeRef = useRef<FlightMode>('LOITER'); // Last mode reported to the terminal
+  const armedRef = useRef(false); // Armed state at the last physics update, to catch auto-disarms
+  const [failsafes, setFailsafes] = useState<FailsafeConfig>(DEFAULT_FAILSAFES);
+  const [failsafesTriggered, setFailsafesTriggered] = useState<FailsafeState['triggered']>({});
+  const failsafeRef = useRef<FailsafeState['triggered']>({}); // Failsafes already reported to the terminal
+  const [home, setHome] = useState<Vec3 | null>(null);
+  const [batterySpec, setBatterySpec] = useState<BatterySpec>(DEFAULT_BATTERY);
+  const [battery, setBattery] = useState<BatteryState>(() => createBatteryState(DEFAULT_BATTERY));
+  const batteryWarningRef = useRef<BatteryWarning>('ok');
   const [throttle, setThrottle] = useState(0);
-  const [pGain, setPGain] = useState(1.0);
+  const [motorStats, setMotorStats] = useState<MotorTelemetry[]>([]);
+  const [gains, setGains] = useState<ControllerGains>(DEFAULT_GAINS);
   const [crashed, setCrashed] = useState(false);
   const [activeMission, setActiveMission] = useState('free');
+  const missionStatusRef = useRef<MissionStatus>('none'); // Live, for scripts; stays complete until the next run or mission
 
   // Build State
   const [buildState, setBuildState] = useState<BuildState>({
@@ -151,21 +316,371 @@ export default function Simulator() {
     props: false,
     camera: false,
     wings: false,
+    pusher: false,
   });
 
-  const isFullyBuilt = droneType === 'quadcopter' 
+  const isFullyBuilt = droneType === 'multirotor' 
     ? buildState.frame && buildState.motors && buildState.esc && buildState.fc && buildState.battery && buildState.props
-    : buildState.frame && buildState.motors && buildState.esc && buildState.fc && buildState.battery && buildState.props && buildState.wings;
-
-  // Calculate Weight and Thrust
-  const totalWeight = Object.entries(buildState).reduce((acc, [key, isInstalled]) => {
-    return acc + (isInstalled && COMPONENT_SPECS[key as keyof typeof COMPONENT_SPECS] ? COMPONENT_SPECS[key as keyof typeof COMPONENT_SPECS].weight : 0);
-  }, 0);
-  const maxThrust = buildState.motors && buildState.props && buildState.battery 
-    ? (droneType === 'quadcopter' ? COMPONENT_SPECS.motors.thrust : 2000) 
-    : 0;
+    : buildState.frame && buildState.motors && buildState.esc && buildState.fc && buildState.battery && buildState.props && buildState.wings
+      && (droneType !== 'quadplane' || buildState.pusher);
+
+  // Calculate Weight and Thrust. Planes and quadplanes carry four lift-motor sets' worth of parts, like a quad X.
+  const layout: FrameLayout = droneType === 'multirotor' ? frameLayout : 'quad-x';
+  const totalWeight = getTotalWeight(buildState, batterySpec, layout);
+  const maxThrust = getMaxThrust(buildState, droneType, layout);
   const twr = maxThrust > 0 ? (maxThrust / totalWeight).toFixed(1) : '0.0';
-  const canFly = parseFloat(twr) > 1.2;
+  const canFly = parseFloat(twr) > MIN_THRUST_TO_WEIGHT[droneType];
+
+  const airframe = useMemo(() => buildAirframe(buildState, droneType, batterySpec, layout), [buildState, droneType, batterySpec, layout]);
+  // A multirotor's endurance is set by hover power, a plane's by the power to overcome drag at cruise.
+  // A quadplane is rated on hover, its worst case.
+  const liftMotors = liftAirframe(airframe).motors.length;
+  const cruisePower = airframe.wing && !isQuadplane(airframe)
+    ? motorPower(levelFlightDrag(airframe.wing, airframe.mass, CRUISE_AIRSPEED), CRUISE_AIRSPEED, airframe.propRadius * 2)
+    : liftMotors * motorPower(airframe.mass * GRAVITY / liftMotors, 0, airframe.propRadius * 2);
+  const hoverTime = canFly ? estimateHoverTime(batterySpec, cruisePower) : null;
+  // A quadplane's wing only carries it in cruise; in hover and transitions the lift motors do
+  const wingBorne = !!airframe.wing && (!isQuadplane(airframe) || flightPhase === 'cruise');
+  const stalled = !!airframe.wing && wingBorne && isHovering && dronePos[1] > 0.5
+    && (air.alpha > airframe.wing.stallAngle || air.airspeed < stallSpeed(airframe.wing, airframe.mass));
+  const [seed, setSeed] = useState(DEFAULT_SEED); // Stop resets the drone with it, so a run can be repeated
+  // Created once; useRef's argument would build a throwaway sim on every render
+  const [initialSim] = useState(() => createFlightSim(airframe, DEFAULT_BATTERY, DEFAULT_SEED));
+  const simRef = useRef<FlightSim>(initialSim);
+  const [activeFaults, setActiveFaults] = useState<FaultState['active']>({});
+
+  // Switching frames on the bench changes the mixer and the motors. Every per-motor state (spool-up,
+  // buffeting, a failed motor's index) goes with them, so the drone starts over on the new frame.
+  useEffect(() => {
+    resetSim();
+  }, [droneType, layout]);
+
+  const handlePhysicsUpdate = ({ body, sensors, ekf, estimate, battery, wind, crash, quadplane, flightMode: modeState, failsafe, rotorFlow: flow, armed, motorCommands, time }: FlightSim) => {
+    setDronePos(body.position);
+    setDroneRot(toEulerXYZ(body.attitude));
+    setHeading(toYawPitchRoll(body.attitude).yaw);
+    const total = body.motorThrust.reduce((acc, t) => acc + t, 0);
+    setThrottle(airframe.maxThrustPerMotor > 0 ? total / (airframe.maxThrustPerMotor * body.motorThrust.length) : 0);
+    setBattery(battery);
+    setSensorReadings({ ...sensors.readings });
+    setEstimateView({ position: estimate.position, rotation: toEulerXYZ(estimate.attitude), error: estimateError(estimate, body) });
+    setSigmaHistory(prev => {
+      const last = prev[prev.length - 1];
+      if (last && time - last.time < SIGMA_SAMPLE_INTERVAL && time >= last.time) return prev;
+      const kept = last && time >= last.time ? prev.filter(s => s.time > time - SIGMA_WINDOW) : [];
+      return [...kept, { time, sigma: estimateSigma(ekf) }];
+    });
+    const windNow = windAt(wind, windConfig, body.position);
+    windRef.current = windNow;
+    setWindAtDrone(windNow);
+    setRotorFlow(flow);
+    const airNow = airData(body, windNow);
+    if (airframe.wing) setAir(airNow);
+    // A pusher works in the oncoming air; lift props see roughly still air
+    const airspeed = airframe.wing ? airNow.airspeed : 0;
+    setMotorStats(airframe.motors.map((motor, i) => motorTelemetry(
+      motorCommands[i] ?? 0, body.motorThrust[i] ?? 0, motor.maxThrust ?? airframe.maxThrustPerMotor,
+      battery.voltage, motor.axis ? airspeed : 0, airframe.propRadius * 2,
+    )));
+
+    // Report each time the pack crosses into a worse warning level
+    const warning = batteryWarning(battery, batterySpec);
+    const levels: BatteryWarning[] = ['ok', 'low', 'critical', 'depleted'];
+    if (levels.indexOf(warning) > levels.indexOf(batteryWarningRef.current)) {
+      batteryWarningRef.current = warning;
+      const perCell = (battery.voltage / batterySpec.cells).toFixed(2);
+      if (warning === 'low') addLog(`WARNING: Low battery (${perCell}V/cell). Land soon.`);
+      if (warning === 'critical') addLog(`ERROR: Critical battery (${perCell}V/cell). Land immediately.`);
+      if (warning === 'depleted') addLog("ERROR: Battery depleted. ESC low-voltage cutoff, motors stopped.");
+    }
+
+    // Checked every frame, so flying through the hoop counts even in the middle of a command
+    if (activeMission === 'hoop' && missionStatusRef.current !== 'complete' && length(sub(body.position, HOOP.center)) < HOOP.radius) {
+      missionStatusRef.current = 'complete';
+      addLog("MISSION COMPLETE: Passed through hoop!");
+      setActiveMission('free');
+    }
+
+    // A developed ring is reported once, and again only after the drone has flown clear of it
+    if (!vortexRingRef.current && flow.vortexRing > 0.5) {
+      vortexRingRef.current = true;
+      addLog(`WARNING: Vortex ring state, sinking at ${(-body.velocity[1]).toFixed(1)} m/s. Lift lost; move sideways to fly out of it.`);
+    } else if (flow.vortexRing < 0.1) {
+      vortexRingRef.current = false;
+    }
+
+    if (quadplane.phase !== phaseRef.current) {
+      phaseRef.current = quadplane.phase;
+      setFlightPhase(quadplane.phase);
+      switch (quadplane.phase) {
+        case 'transition-forward': addLog(`Forward transition: pusher on, accelerating to ${transitionAirspeed(airframe).toFixed(1)} m/s.`); break;
+        case 'cruise': addLog("Transition complete. Wing-borne, lift motors winding down."); break;
+        case 'transition-back':
+          addLog(quadplane.failed
+            ? `ERROR: Transition failed, airspeed not reached within ${TRANSITION_TIMEOUT}s. Reverting to hover.`
+            : "Back-transition: pusher off, slowing down on the lift motors.");
+          break;
+        case 'hover': addLog("VTOL hover. Lift motors holding position."); break;
+      }
+    }
+
+    // Each failsafe reports once when it fires, ahead of the mode change it causes
+    const fired = (Object.keys(failsafe.triggered) as FailsafeId[]).filter(id => failsafeRef.current[id] === undefined);
+    fired.forEach(id => {
+      const breach = id === 'geofence' && modeState.home ? fenceBreach(failsafes.fence, modeState.home, estimate.position) : null;
+      addLog(`FAILSAFE: ${FAILSAFES[id].label}${breach ? ` (${breach})` : ''}. Action: ${FAILSAFE_ACTIONS[failsafes.actions[id]].label}.`);
+    });
+    if (fired.length || Object.keys(failsafe.triggered).length !== Object.keys(failsafeRef.current).length) {
+      failsafeRef.current = { ...failsafe.triggered };
+      setFailsafesTriggered(failsafeRef.current);
+    }
+    setHome(modeState.home);
+
+    // Mode changes the autopilot made by itself come with a reason
+    if (modeState.mode !== modeRef.current) {
+      modeRef.current = modeState.mode;
+      setFlightModeView(modeState.mode);
+      addLog(modeState.reason ? `WARNING: ${modeState.reason}. Mode ${FLIGHT_MODES[modeState.mode].label}.` : `Mode: ${FLIGHT_MODES[modeState.mode].label}`);
+    }
+    // LAND and RTL disarm on touchdown
+    if (armedRef.current && !armed && !crash) {
+      setIsHovering(false);
+      addLog("Touchdown. Motors disarmed.");
+    }
+    armedRef.current = armed;
+
+    // The physics loop stops at the crash, so this runs once per crash
+    if (crash) {
+      setCrashed(true);
+      setIsHovering(false);
+      formatCrashReport(crash).forEach(addLog);
+      addLog("Press Stop / Reset to recover the drone.");
+    }
+  };
+
+  // Fits a fresh pack; only allowed on the ground
+  const swapBattery = (spec: BatterySpec = batterySpec) => {
+    simRef.current.battery = createBatteryState(spec);
+    batteryWarningRef.current = 'ok';
+    setBattery(simRef.current.battery);
+  };
+
+  const changeBatterySpec = (spec: BatterySpec) => {
+    setBatterySpec(spec);
+    swapBattery(spec);
+  };
+
+  const triggerFault = (id: FaultId, motor = 0) => {
+    const sim = simRef.current;
+    injectFault(sim.faults, id, sim.time, motor);
+    setActiveFaults({ ...sim.faults.active });
+    addLog(`FAULT INJECTED: ${FAULTS[id].label}${FAULTS[id].perMotor ? ` on motor ${motor + 1}` : ''}`);
+  };
+
+  const resolveFault = (id?: FaultId) => {
+    const { faults } = simRef.current;
+    if (id) clearFault(faults, id);
+    else clearFaults(faults);
+    setActiveFaults({ ...faults.active });
+    addLog(id ? `Fault cleared: ${FAULTS[id].label}` : "All faults cleared.");
+  };
+
+  // Refuses a target outside the geofence up front, as a ground station would
+  const outsideFence = (target: Vec3) => {
+    const sim = simRef.current;
+    const breach = fenceBreach(failsafes.fence, sim.flightMode.home ?? sim.estimate.position, target);
+    if (breach) addLog(`ERROR: Target is outside the geofence (${breach}).`);
+    return breach !== null;
+  };
+
+  // Resolves once `condition` holds, or after `timeout` seconds. Gives up on a crash, or when the
+  // script it was started from is stopped.
+  const waitUntil = async (condition: (sim: FlightSim) => boolean, timeout: number) => {
+    const start = performance.now();
+    const script = scriptRef.current;
+    while (performance.now() - start < timeout * 1000) {
+      if (simRef.current.crash || script?.signal.aborted) return false;
+      if (condition(simRef.current)) return true;
+      await sleep(50);
+    }
+    return false;
+  };
+
+  // Judged on what the flight controller senses, like a ground station waiting on the vehicle's reported position
+  const hasSettled = ({ estimate, setpoint }: FlightSim) =>
+    length(sub(estimate.position, setpoint.position)) < 0.15 &&
+    length(estimate.velocity) < 0.2 &&
+    Math.abs(wrapAngle(toYawPitchRoll(estimate.attitude).yaw - setpoint.yaw)) < 0.05;
+
+  // Switches flight mode on a multirotor, or a quadplane in hover. Logs and returns false if refused.
+  const changeFlightMode = (mode: FlightMode) => {
+    const sim = simRef.current;
+    const error = airframe.wing && !isQuadplane(airframe) ? "A fixed-wing flies its own navigation commands, not multirotor modes."
+      : sim.quadplane.phase !== 'hover' ? "Flight modes can only change in VTOL hover."
+      : setFlightMode(sim.flightMode, mode, sim.estimate, sim.setpoint, sim.controller, hasPositionFix(sim.faults));
+    if (error) addLog(`ERROR: ${error}`);
+    return !error;
+  };
+
+  // Arming is refused in modes that fly on their own, and in position modes without a fix
+  const arm = () => {
+    const sim = simRef.current;
+    const { mode } = sim.flightMode;
+    if (!FLIGHT_MODES[mode].canArm) {
+      addLog(`ERROR: Can't arm in ${FLIGHT_MODES[mode].label}. Switch mode first.`);
+      return false;
+    }
+    if (FLIGHT_MODES[mode].needsPosition && !hasPositionFix(sim.faults)) {
+      addLog(`ERROR: ${FLIGHT_MODES[mode].label} needs a position fix to arm.`);
+      return false;
+    }
+    sim.setpoint = { position: [...sim.estimate.position], yaw: toYawPitchRoll(sim.estimate.attitude).yaw };
+    sim.controller = createControllerState();
+    sim.armed = true;
+    armedRef.current = true;
+    setIsHovering(true);
+    return true;
+  };
+
+  const disarm = () => {
+    simRef.current.armed = false;
+    armedRef.current = false;
+    setIsHovering(false);
+  };
+
+  // Arms and climbs in a mode that holds altitude. Like a script switching to GUIDED, it leaves
+  // LAND or RTL for Loiter first; in Stabilize and Acro the pilot's throttle does the climbing.
+  const takeoff = (altitude: number) => {
+    const sim = simRef.current;
+    if (!FLIGHT_MODES[sim.flightMode.mode].canArm && !changeFlightMode(hasPositionFix(sim.faults) ? 'LOITER' : 'ALT_HOLD')) return false;
+    if (!sim.armed && !arm()) return false;
+    if (sim.flightMode.mode === 'STABILIZE' || sim.flightMode.mode === 'ACRO') {
+      addLog(`Armed in ${FLIGHT_MODES[sim.flightMode.mode].label}. Throttle up to climb.`);
+      return false;
+    }
+    sim.setpoint.position = [sim.setpoint.position[0], altitude, sim.setpoint.position[2]];
+    return true;
+  };
+
+  // Switches to LAND. A script can ask to come down faster than LAND_SPEED until the last couple of
+  // metres, at the risk of sinking into a vortex ring.
+  const landHere = async (speed?: number) => {
+    const sim = simRef.current;
+    if (!changeFlightMode('LAND')) return;
+    if (speed !== undefined) sim.flightMode.landSpeed = Math.max(speed, LAND_SPEED);
+    await waitUntil(s => !s.armed, 10 + sim.body.position[1] / LAND_SPEED);
+  };
+
+  // Script moves shift the position target, which only Loiter holds
+  const requireLoiter = (command: string) => {
+    const { mode } = simRef.current.flightMode;
+    if (mode === 'LOITER') return true;
+    addLog(`ERROR: ${command} needs Loiter mode (now ${FLIGHT_MODES[mode].label}). Use set_mode("LOITER").`);
+    return false;
+  };
+
+  // Moves the position setpoint relative to the current one, along the setpoint heading
+  const offsetSetpoint = (forward: number, left: number) => {
+    const { setpoint } = simRef.current;
+    const yaw = setpoint.yaw;
+    setpoint.position = [
+      setpoint.position[0] + Math.sin(yaw) * forward + Math.cos(yaw) * left,
+      setpoint.position[1],
+      setpoint.position[2] + Math.cos(yaw) * forward - Math.sin(yaw) * left,
+    ];
+  };
+
+  // Throws or catapults the plane into the air along its heading and climbs out to cruise
+  const launch = (kind: LaunchKind) => {
+    const sim = simRef.current;
+    const yaw = toYawPitchRoll(sim.body.attitude).yaw;
+    const before = sim.body;
+    sim.body = launchBody(sim.body, kind, yaw);
+    shiftEkf(sim.ekf, before, sim.body);
+    sim.planeController = createFixedWingControllerState();
+    sim.planeSetpoint = { nav: { kind: 'course', course: yaw }, altitude: CRUISE_ALTITUDE, airspeed: CRUISE_AIRSPEED, glide: false };
+    sim.armed = true;
+    setIsHovering(true);
+  };
+
+  // Banks onto a new course relative to the current one; positive degrees turn left, like yaw()
+  const turnPlane = (degrees: number, climb = 0) => {
+    const { planeSetpoint, planeController } = simRef.current;
+    const base = planeSetpoint.nav.kind === 'course' ? planeSetpoint.nav.course : planeController.course ?? 0;
+    planeSetpoint.nav = { kind: 'course', course: base + degrees * Math.PI / 180 };
+    planeSetpoint.altitude = Math.max(planeSetpoint.altitude + climb, 5);
+  };
+
+  const loiterHere = (radius: number) => {
+    const { planeSetpoint, estimate } = simRef.current;
+    planeSetpoint.nav = { kind: 'loiter', center: [...estimate.position], radius, direction: -1 };
+  };
+
+  const courseReached = ({ planeSetpoint, planeController }: FlightSim) =>
+    planeSetpoint.nav.kind === 'course' && Math.abs(planeSetpoint.nav.course - (planeController.course ?? 0)) < 5 * Math.PI / 180;
+
+  // Glides in with the motor off and belly-lands wherever it touches down
+  const landPlane = async () => {
+    const sim = simRef.current;
+    sim.planeSetpoint.glide = true;
+    sim.planeSetpoint.airspeed = 0; // Held at the minimum airspeed
+    if (await waitUntil(s => s.body.onGround && length(s.body.velocity) < 0.5, 120)) {
+      disarm();
+      addLog("Touchdown. Motor disarmed.");
+    }
+  };
+
+  // True while the wing carries the drone and it has to be flown like a plane
+  const flyingAsPlane = (sim: FlightSim) => !!airframe.wing && (!isQuadplane(airframe) || sim.quadplane.phase !== 'hover');
+
+  // Accelerates on the pusher until the wing flies. A timed-out transition ends back in hover.
+  const transitionForward = async () => {
+    const sim = simRef.current;
+    if (!requireLoiter('A transition')) return false;
+    const error = startTransitionForward(sim.quadplane, sim.estimate, sim.setpoint, sim.time);
+    if (error) {
+      addLog(`ERROR: ${error}`);
+      return false;
+    }
+    await waitUntil(s => s.quadplane.phase !== 'transition-forward', TRANSITION_TIMEOUT + 5);
+    if (sim.quadplane.phase === 'cruise') return true;
+    await waitUntil(s => s.quadplane.phase === 'hover', 30);
+    return false;
+  };
+
+  const transitionBack = async () => {
+    const sim = simRef.current;
+    const error = startTransitionBack(sim.quadplane, sim.estimate, sim.setpoint, sim.controller, sim.time);
+    if (error) {
+      addLog(`ERROR: ${error}`);
+      return false;
+    }
+    return waitUntil(s => s.quadplane.phase === 'hover', 30);
+  };
+
+  // Applies a step to one axis, records the response for the test window, then releases the override
+  const runStepTest = async (axis: StepAxis, magnitude: number) => {
+    const sim = simRef.current;
+    if (!sim.armed || sim.body.onGround) return null;
+
+    const test = createStepTest(axis, sim.body, magnitude, sim.time);
+    const { pitch, roll } = toYawPitchRoll(sim.body.attitude);
+    const rad = magnitude * Math.PI / 180;
+    switch (axis) {
+      case 'roll': sim.setpoint.attitude = { roll: roll + rad, pitch }; break;
+      case 'pitch': sim.setpoint.attitude = { roll, pitch: pitch + rad }; break;
+      case 'yaw': sim.setpoint.yaw += rad; break;
+      case 'altitude': sim.setpoint.position = [sim.setpoint.position[0], sim.setpoint.position[1] + magnitude, sim.setpoint.position[2]]; break;
+    }
+    sim.stepTest = test;
+    addLog(`Step test: ${axis} ${magnitude >= 0 ? '+' : ''}${magnitude}${STEP_UNITS[axis]}`);
+
+    await waitUntil(s => s.stepTest !== test || s.time - test.startTime > test.duration, test.duration + 5);
+    if (sim.stepTest !== test) return null; // Reset mid-test
+    sim.stepTest = null;
+    sim.setpoint.attitude = undefined;
+    return test;
+  };
 
   const toggleComponent = (key: keyof BuildState) => {
     setBuildState(prev => ({ ...prev, [key]: !prev[key] }));
@@ -175,97 +690,298 @@ export default function Simulator() {
     setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${msg}`]);
   };
 
-  // Simulate Voltage Sag based on throttle
-  useEffect(() => {
-    if (isHovering) {
-      // Base hover throttle is around 30%
-      const currentThrottle = throttle > 0 ? throttle : 0.3;
-      // Internal Resistance (IR) causes voltage drop: V_drop = I * R
-      const sag = currentThrottle * 1.5; 
-      setBatteryVoltage(Math.max(14.0, 16.8 - sag));
-    } else {
-      setBatteryVoltage(16.8);
-    }
-  }, [isHovering, throttle]);
-
   useEffect(() => {
     if (!keyboardEnabled || !isFullyBuilt || crashed) return;
 
+    // Held keys deflect a stick; the rest are one-shot commands
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (['w','a','s','d','arrowup','arrowdown','q','e'].includes(e.key.toLowerCase())) {
-        e.preventDefault();
-      }
-      switch(e.key.toLowerCase()) {
-        case 'w': handleManualCommand('forward'); break;
-        case 's': handleManualCommand('backward'); break;
-        case 'a': handleManualCommand('left'); break;
-        case 'd': handleManualCommand('right'); break;
-        case 'q': handleManualCommand('yaw_left'); break;
-        case 'e': handleManualCommand('yaw_right'); break;
-        case 'arrowup': handleManualCommand('takeoff'); break;
-        case 'arrowdown': handleManualCommand('land'); break;
-      }
+      const key = e.key.toLowerCase();
+      if ([...Object.keys(STICK_KEYS), 'l', 't'].includes(key)) e.preventDefault();
+      if (e.repeat) return;
+      if (key === 'arrowup' && !simRef.current.armed) return handleManualCommand('takeoff');
+      if (key === 'l') return handleManualCommand('land');
+      if (key === 't') return handleManualCommand('transition');
+      const stick = STICK_KEYS[key];
+      if (stick) moveStick(stick.axis, stick.value, stick.cmd);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const stick = STICK_KEYS[e.key.toLowerCase()];
+      if (stick) moveStick(stick.axis, 0, stick.cmd);
     };
+    // A key released while the window is in the background would otherwise stay held
+    const releaseSticks = () => { simRef.current.sticks = { ...CENTERED_STICKS }; };
 
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [keyboardEnabled, isFullyBuilt, crashed, dronePos, droneRot]);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseSticks);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseSticks);
+    };
+  }, [keyboardEnabled, isFullyBuilt, crashed]);
 
-  const handleManualCommand = (cmd: string) => {
-    if (!isFullyBuilt) return;
+  const handleManualCommand = async (cmd: string) => {
+    if (!isFullyBuilt || crashed) return;
     
-    let currentPos = [...dronePos] as [number, number, number];
-    let currentRot = [...droneRot] as [number, number, number];
-    const val = 1; // 1 meter or 15 degrees
-    const yaw = currentRot[1];
+    const sim = simRef.current;
+
+    if (sim.faults.active.rx_failsafe) {
+      addLog("RX FAILSAFE: No radio link, stick input ignored.");
+      return;
+    }
 
     addLog(`Manual Override: ${cmd.toUpperCase()}`);
 
-    switch (cmd) {
-      case 'takeoff':
-        setIsHovering(true);
-        setThrottle(0.8);
-        setDronePos([currentPos[0], 2, currentPos[2]]);
-        setTimeout(() => setThrottle(0.3), 1000);
-        break;
-      case 'land':
-        setThrottle(0.1);
-        setDronePos([currentPos[0], 0, currentPos[2]]);
-        setTimeout(() => {
-          setIsHovering(false);
-          setThrottle(0);
-        }, 1000);
-        break;
-      case 'forward':
-        setThrottle(0.5);
-        setDronePos([currentPos[0] + Math.sin(yaw) * val, currentPos[1], currentPos[2] + Math.cos(yaw) * val]);
-        setTimeout(() => setThrottle(0.3), 500);
-        break;
-      case 'backward':
-        setThrottle(0.5);
-        setDronePos([currentPos[0] - Math.sin(yaw) * val, currentPos[1], currentPos[2] - Math.cos(yaw) * val]);
-        setTimeout(() => setThrottle(0.3), 500);
-        break;
-      case 'left':
-        setThrottle(0.5);
-        setDronePos([currentPos[0] + Math.sin(yaw + Math.PI/2) * val, currentPos[1], currentPos[2] + Math.cos(yaw + Math.PI/2) * val]);
-        setTimeout(() => setThrottle(0.3), 500);
-        break;
-      case 'right':
-        setThrottle(0.5);
-        setDronePos([currentPos[0] + Math.sin(yaw - Math.PI/2) * val, currentPos[1], currentPos[2] + Math.cos(yaw - Math.PI/2) * val]);
-        setTimeout(() => setThrottle(0.3), 500);
-        break;
-      case 'yaw_left':
-        setDroneRot([currentRot[0], currentRot[1] + (15 * Math.PI / 180), currentRot[2]]);
-        break;
-      case 'yaw_right':
-        setDroneRot([currentRot[0], currentRot[1] - (15 * Math.PI / 180), currentRot[2]]);
-        break;
+    if (cmd === 'transition') {
+      if (!isQuadplane(airframe) || !sim.armed) return;
+      if (sim.quadplane.phase === 'hover') await transitionForward();
+      else if (sim.quadplane.phase === 'cruise') await transitionBack();
+      return;
+    }
+
+    if (isQuadplane(airframe) && sim.quadplane.phase.startsWith('transition')) {
+      addLog("Transition in progress, stick input ignored.");
+      return;
+    }
+    // A quadplane comes back to hover before it lands vertically
+    if (cmd === 'land' && isQuadplane(airframe) && sim.quadplane.phase === 'cruise' && !(await transitionBack())) return;
+
+    // A plane can't stop or strafe: the stick commands turn, climb and descend it instead
+    if (flyingAsPlane(sim)) {
+      switch (cmd) {
+        case 'takeoff': if (!sim.armed) launch('hand'); break;
+        case 'land': if (sim.armed) await landPlane(); break;
+        case 'forward': sim.planeSetpoint.altitude += 5; break;
+        case 'backward': sim.planeSetpoint.altitude = Math.max(sim.planeSetpoint.altitude - 5, 5); break;
+        case 'left': turnPlane(30); break;
+        case 'right': turnPlane(-30); break;
+        case 'yaw_left': turnPlane(15); break;
+        case 'yaw_right': turnPlane(-15); break;
+      }
+      return;
+    }
+
+    // Hovering, the sticks fly the drone through the flight mode (see moveStick)
+    if (cmd === 'takeoff') takeoff(isQuadplane(airframe) ? VTOL_TAKEOFF_ALTITUDE : 2);
+    else if (cmd === 'land') changeFlightMode('LAND');
+  };
+
+  // Holds a stick deflection until released. A plane in the air gets one discrete command per press instead.
+  const moveStick = (axis: keyof Sticks, value: number, cmd: string) => {
+    const sim = simRef.current;
+    if (!isFullyBuilt || crashed) return;
+    if (value !== 0 && sim.faults.active.rx_failsafe) {
+      addLog("RX FAILSAFE: No radio link, stick input ignored.");
+      return;
+    }
+    if (flyingAsPlane(sim)) {
+      if (value !== 0) handleManualCommand(cmd);
+      return;
+    }
+    sim.sticks[axis] = value;
+  };
+
+  // Script commands for the plane. It can't stop in the air, so moves are turns, orbits and waypoints.
+  const runFixedWingCommand = async (name: FlightCommand, args: (Value | undefined)[]) => {
+    const sim = simRef.current;
+    const [a, b] = args as number[];
+    const airborne = () => sim.armed && !sim.body.onGround;
+
+    if (name === 'launch') {
+      const kind = args[0];
+      if (airborne()) return addLog("ERROR: Already flying.");
+      if (kind !== 'hand' && kind !== 'catapult') return addLog('ERROR: launch() takes "hand" or "catapult".');
+      launch(kind);
+      await waitUntil(s => s.estimate.position[1] > CRUISE_ALTITUDE - 2, 30);
+    } else if (name === 'takeoff') {
+      addLog("ERROR: A fixed-wing can't take off vertically. Use launch() or launch(\"catapult\").");
+    } else if (!airborne()) {
+      addLog("ERROR: Not flying. Use launch() first.");
+    } else if (name === 'land') {
+      if (!isQuadplane(airframe)) return landPlane();
+      // A quadplane comes back to hover and lets down vertically
+      if (await transitionBack()) await landHere(a);
+    } else if (name === 'loiter') {
+      const [radius, turns] = [a, b];
+      const safeRadius = Math.max(radius, 1.3 * minTurnRadius(sim.planeSetpoint.airspeed || CRUISE_AIRSPEED));
+      if (safeRadius > radius) addLog(`WARNING: ${radius}m is tighter than the plane can turn, loitering at ${safeRadius.toFixed(0)}m`);
+      loiterHere(safeRadius);
+      const startCourse = sim.planeController.course ?? 0;
+      await waitUntil(s => Math.abs((s.planeController.course ?? 0) - startCourse) >= turns * 2 * Math.PI, 10 + turns * 2 * Math.PI * safeRadius / CRUISE_AIRSPEED * 2);
+    } else if (name === 'climbing_turn') {
+      const [degrees, climb] = [a, b];
+      turnPlane(degrees, climb);
+      await waitUntil(s => courseReached(s) && Math.abs(s.estimate.position[1] - s.planeSetpoint.altitude) < 1, 10 + Math.abs(degrees) / 10 + Math.abs(climb));
+    } else if (name === 'forward') {
+      const distance = a ?? 20;
+      turnPlane(0);
+      const from = [...sim.estimate.position] as Vec3;
+      await waitUntil(s => Math.hypot(s.estimate.position[0] - from[0], s.estimate.position[2] - from[2]) >= distance, 5 + distance / CRUISE_AIRSPEED * 2);
+    } else if (name === 'waypoint') {
+      const [x, z] = [a, b];
+      if (outsideFence([x, sim.planeSetpoint.altitude, z])) return;
+      sim.planeSetpoint.nav = { kind: 'waypoint', target: [x, 0, z] };
+      const distance = Math.hypot(x - sim.estimate.position[0], z - sim.estimate.position[2]);
+      if (await waitUntil(s => Math.hypot(x - s.estimate.position[0], z - s.estimate.position[2]) < 10, 10 + distance / CRUISE_AIRSPEED * 2)) {
+        addLog(`Reached (${x}, ${z}). Loitering.`);
+        loiterHere(30);
+      }
+    } else if (name === 'set_airspeed') {
+      const speed = a ?? CRUISE_AIRSPEED;
+      const vMin = minAirspeed(airframe);
+      if (speed < vMin) addLog(`WARNING: ${speed} m/s is below the minimum airspeed, holding ${vMin.toFixed(1)} m/s`);
+      sim.planeSetpoint.airspeed = speed;
+      await waitUntil(s => Math.abs(airData(s.body, windAt(s.wind, windConfig, s.body.position)).airspeed - Math.max(speed, vMin)) < 0.5, 10);
+    } else if (name === 'hover' || name === 'backward' || name === 'left' || name === 'right') {
+      addLog("ERROR: A fixed-wing can't hover or fly sideways. Use loiter() to hold a position.");
+    } else if (name === 'yaw') {
+      addLog("ERROR: A fixed-wing turns by banking. Use climbing_turn(degrees, climb).");
+    }
+  };
+
+  // Flies one command of a running script. Arguments arrive checked against FLIGHT_COMMANDS, with
+  // its defaults filled in; those left undefined depend on the airframe.
+  const runCommand = async (name: FlightCommand, args: (Value | undefined)[]) => {
+    const sim = simRef.current;
+    const [a, b] = args as number[];
+    addLog(`Executing: ${name}(${args.filter(arg => arg !== undefined).map(arg => formatValue(arg!, true)).join(', ')})`);
+
+    if (name === 'inject_fault') {
+      const id = args[0] as FaultId;
+      if (!(id in FAULTS)) {
+        addLog(`ERROR: Unknown fault. Use one of: ${Object.keys(FAULTS).join(', ')}`);
+      } else if (FAULTS[id].perMotor && !(Number.isInteger(b) && b >= 1 && b <= airframe.motors.length)) {
+        addLog(`ERROR: Motor must be 1-${airframe.motors.length}`);
+      } else {
+        triggerFault(id, b - 1);
+      }
+    } else if (name === 'clear_faults') {
+      resolveFault();
+    } else if (name === 'print_telemetry') {
+      addLog(`Telemetry - Alt: ${sim.estimate.position[1].toFixed(1)}m, Bat: ${sim.battery.voltage.toFixed(1)}V`);
+    } else if (name === 'set_mode') {
+      const mode = (args[0] as string).toUpperCase();
+      if (!(mode in FLIGHT_MODES)) addLog(`ERROR: Unknown mode. Use one of: ${Object.keys(FLIGHT_MODES).join(', ')}`);
+      else changeFlightMode(mode as FlightMode);
+    } else if (name === 'transition_forward' || name === 'transition_back') {
+      if (!isQuadplane(airframe)) addLog("ERROR: Only a quadplane can transition between hover and wing-borne flight.");
+      else if (name === 'transition_forward') await transitionForward();
+      else await transitionBack();
+    } else if (flyingAsPlane(sim)) {
+      await runFixedWingCommand(name, args);
+    } else if (name === 'launch' || name === 'loiter' || name === 'climbing_turn' || name === 'set_airspeed') {
+      addLog(`ERROR: ${name}() is a fixed-wing command.${isQuadplane(airframe) ? ' Use transition_forward() first.' : ''}`);
+    } else if (name === 'takeoff') {
+      const altitude = a ?? (isQuadplane(airframe) ? VTOL_TAKEOFF_ALTITUDE : 2);
+      if (takeoff(altitude)) await waitUntil(hasSettled, 6 + altitude);
+    } else if (name === 'land') {
+      await landHere(a);
+    } else if (name === 'hover') {
+      await waitUntil(() => false, a); // Holds for the duration; ends early on a crash or Stop
+    } else if (!requireLoiter(`${name}()`)) {
+      // Refused; requireLoiter explains why
+    } else if (name === 'forward' || name === 'backward' || name === 'left' || name === 'right') {
+      const distance = a ?? 1;
+      const [forward, left] = { forward: [distance, 0], backward: [-distance, 0], left: [0, distance], right: [0, -distance] }[name];
+      offsetSetpoint(forward, left);
+      await waitUntil(hasSettled, 5 + Math.abs(distance));
+    } else if (name === 'yaw') {
+      sim.setpoint.yaw += a * (Math.PI / 180);
+      await waitUntil(hasSettled, 5);
+    } else if (name === 'waypoint') {
+      const target: Vec3 = [a, sim.setpoint.position[1], b];
+      if (!outsideFence(target)) {
+        sim.setpoint.position = target;
+        await waitUntil(hasSettled, 5 + length(sub(sim.setpoint.position, sim.body.position)));
+      }
+    }
+
+  };
+
+  // What a script's telemetry queries read, live from the sim rather than from render state
+  const readTelemetry = (name: TelemetryQuery): Value => {
+    const { estimate, battery } = simRef.current;
+    switch (name) {
+      case 'altitude': return estimate.position[1];
+      case 'position': return [...estimate.position];
+      // Compass degrees, clockwise from north; yaw is counter-clockwise
+      case 'heading': return (360 - toYawPitchRoll(estimate.attitude).yaw * 180 / Math.PI) % 360;
+      case 'groundspeed': return Math.hypot(estimate.velocity[0], estimate.velocity[2]);
+      case 'battery_voltage': return battery.voltage;
+      case 'battery_percent': return stateOfCharge(battery, batterySpec) * 100;
+      case 'wind': return Math.hypot(windRef.current[0], windRef.current[2]);
+      case 'mission_status': return missionStatusRef.current;
     }
   };
 
-  const runCode = async () => {
+  // What the pre-flight check knows: the build, the fence, and where the drone is now
+  const preflightContext = (): PreflightContext => {
+    const sim = simRef.current;
+    return {
+      airframe,
+      start: {
+        position: [...sim.estimate.position],
+        yaw: toYawPitchRoll(sim.estimate.attitude).yaw,
+        mode: sim.flightMode.mode,
+        airborne: sim.armed && !sim.body.onGround,
+      },
+      fence: failsafes.fence,
+      flightArea: (droneType === 'multirotor' ? GRID_SIZE.multirotor : GRID_SIZE.winged) / 2,
+      endurance: hoverTime,
+      batterySpec,
+      wind: Math.hypot(windRef.current[0], windRef.current[2]),
+      missionStatus: activeMission === 'hoop' ? 'in_progress' : 'none',
+      modules: DRONEKIT_MODULES,
+    };
+  };
+
+  // Re-checks the script as it's edited, for the findings shown in the editor. TypeScript is only
+  // compiled, for its syntax errors; its types are checked in the user's own project. Editing
+  // doesn't fetch the compiler: its syntax errors show once a first run has loaded it.
+  useEffect(() => {
+    if (isRunning) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const check = scriptLanguage === 'python'
+        ? preflightCheck(code, preflightContext()).then(report => report.findings)
+        : !compilerLoaded() ? Promise.resolve([])
+        : compileTypeScript(code).then((): Finding[] => [], (error): Finding[] => {
+          if (!(error instanceof ScriptError)) throw error;
+          return [{ line: error.line, column: error.column, severity: 'error', message: error.message }];
+        });
+      // A failure of the check itself, e.g. the compiler failing to load, shows as one finding
+      check.catch((error): Finding[] => [
+        { line: 1, column: 1, severity: 'error', message: `The check failed: ${error instanceof Error ? error.message : error}` },
+      ]).then(found => {
+        if (!cancelled) setFindings(found);
+      });
+    }, PREFLIGHT_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, scriptLanguage, isRunning, airframe, failsafes.fence, hoverTime, activeMission]);
+
+  // Prints the pre-flight check to the terminal. False if it found errors, which keep the drone on the ground.
+  const logPreflight = ({ findings, estimate }: PreflightReport) => {
+    for (const { line, column, severity, message } of findings) {
+      addLog(`${severity === 'info' ? 'NOTE' : severity.toUpperCase()}: Line ${line}, column ${column}: ${message}`);
+    }
+    const errors = findings.filter(f => f.severity === 'error').length;
+    if (errors) {
+      addLog(`Pre-flight check failed with ${errors} error${errors === 1 ? '' : 's'}. Fix ${errors === 1 ? 'it' : 'them'} before flying.`);
+      return false;
+    }
+    if (estimate) {
+      const battery = estimate.battery === null ? '' : `, ${Math.round(estimate.battery * 100)}% of the usable battery`;
+      addLog(`Pre-flight estimate${estimate.complete ? '' : ' (as far as the check followed)'}: ${formatDuration(estimate.flightTime)} in the air, ${estimate.distance.toFixed(0)} m flown${battery}.`);
+    }
+    return true;
+  };
+
+  // Runs the script. Started paused, it stops before its first statement for stepping.
+  const runCode = async (startPaused = false) => {
     if (!isFullyBuilt) {
       addLog("ERROR: Drone is not fully built. Complete assembly first.");
       return;
@@ -278,123 +994,275 @@ export default function Simulator() {
       addLog("ERROR: Drone is crashed. Reset required.");
       return;
     }
-    
+    if (scriptLanguage === 'typescript') return runTypeScript();
+
+    let program: Program;
+    try {
+      program = parse(code);
+    } catch (error) {
+      addLog(`ERROR: ${describeError(error)}`);
+      return;
+    }
+    let report: PreflightReport;
+    try {
+      report = await preflightCheck(code, preflightContext());
+    } catch (error) {
+      addLog(`ERROR: The pre-flight check failed: ${describeError(error)}`);
+      return;
+    }
+    setFindings(report.findings);
+    if (!logPreflight(report)) return;
+
+    const commands = Object.fromEntries((Object.keys(FLIGHT_COMMANDS) as FlightCommand[]).map(name => [name, {
+      params: FLIGHT_COMMANDS[name],
+      call: (args: (Value | undefined)[]) => runCommand(name, args),
+    }]));
+    const queries = Object.fromEntries((Object.keys(TELEMETRY_QUERIES) as TelemetryQuery[]).map(name => [name, {
+      params: TELEMETRY_QUERIES[name],
+      call: () => readTelemetry(name),
+    }]));
+    const builtins: Record<string, Builtin> = {
+      ...STANDARD_BUILTINS,
+      ...commands,
+      ...queries,
+      print: { params: [{ name: 'values', type: 'any', optional: true }], variadic: true, call: (values) => addLog(values.map(v => formatValue(v!)).join(' ')) },
+    };
+    // DroneKit's vehicle, for scripts written for a companion computer. Its RC overrides hold the
+    // sticks until released, or until the script ends.
+    const overridden = new Set<keyof Sticks>();
+    const modules = createDronekitModules({
+      sim: () => simRef.current,
+      batteryPercent: () => readTelemetry('battery_percent') as number,
+      setMode: changeFlightMode,
+      setArmed: (armed) => {
+        const sim = simRef.current;
+        if (airframe.wing && !isQuadplane(airframe)) {
+          addLog("ERROR: A fixed-wing arms as it launches. Use launch().");
+          return false;
+        }
+        if (armed) return arm();
+        if (!sim.body.onGround) {
+          addLog("ERROR: Can't disarm in flight. Land first.");
+          return false;
+        }
+        disarm();
+        return true;
+      },
+      takeoff: (altitude) => { takeoff(altitude); },
+      goto: (target) => {
+        if (!outsideFence(target)) simRef.current.setpoint.position = target;
+      },
+      setStick: (axis, value) => {
+        if (flyingAsPlane(simRef.current)) return addLog("WARNING: RC overrides on channels 1-4 only fly a hovering drone here.");
+        overridden.add(axis);
+        simRef.current.sticks[axis] = value;
+      },
+      sleep: async (seconds) => { await waitUntil(() => false, seconds); },
+      log: addLog,
+    });
+
+    const script = new AbortController();
+    scriptRef.current = script;
+    debuggerRef.current.pauseRequested = startPaused;
+    missionStatusRef.current = activeMission === 'hoop' ? 'in_progress' : 'none';
     setIsRunning(true);
     addLog("Starting execution...");
-    
-    const lines = code.split('\n').map(l => l.trim().toLowerCase()).filter(l => l && !l.startsWith('#'));
-    
-    let currentRot = [...droneRot] as [number, number, number];
+    const sim = simRef.current;
+
+    let failed = false;
+    try {
+      await runScript(program, {
+        builtins,
+        modules,
+        shouldStop: () => script.signal.aborted || !!sim.crash,
+        onStatement: (event) => {
+          setCurrentLine(event.line);
+          return debugStatement(debuggerRef.current, event, script.signal, setPausedAt);
+        },
+      });
+    } catch (error) {
+      failed = true;
+      if (!script.signal.aborted) addLog(`ERROR: ${describeError(error)}`);
+    }
+    for (const axis of overridden) simRef.current.sticks[axis] = 0;
+    endRun(script, failed);
+  };
 
-    for (const line of lines) {
-      if (!isRunning) break; // Allow stopping
-      addLog(`Executing: ${line}`);
-      
-      if (line.startsWith('takeoff()')) {
-        setIsHovering(true);
-        setThrottle(0.8); // High throttle to climb
-        setDronePos(prev => [prev[0], 2, prev[2]]);
-        await new Promise(r => setTimeout(r, 1500));
-        setThrottle(0.3); // Hover throttle
-      } else if (line.startsWith('land()')) {
-        setThrottle(0.1); // Low throttle to descend
-        setDronePos(prev => [prev[0], 0, prev[2]]);
-        await new Promise(r => setTimeout(r, 1500));
-        setIsHovering(false);
-        setThrottle(0);
-      } else if (line.startsWith('forward(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '1');
-        const yaw = currentRot[1];
-        setThrottle(0.5);
-        setDronePos(prev => [
-          prev[0] + Math.sin(yaw) * val,
-          prev[1],
-          prev[2] + Math.cos(yaw) * val
-        ]);
-        await new Promise(r => setTimeout(r, 1500));
-        setThrottle(0.3);
-      } else if (line.startsWith('backward(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '1');
-        const yaw = currentRot[1];
-        setThrottle(0.5);
-        setDronePos(prev => [
-          prev[0] - Math.sin(yaw) * val,
-          prev[1],
-          prev[2] - Math.cos(yaw) * val
-        ]);
-        await new Promise(r => setTimeout(r, 1500));
-        setThrottle(0.3);
-      } else if (line.startsWith('left(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '1');
-        const yaw = currentRot[1];
-        setThrottle(0.5);
-        setDronePos(prev => [
-          prev[0] + Math.sin(yaw + Math.PI/2) * val,
-          prev[1],
-          prev[2] + Math.cos(yaw + Math.PI/2) * val
-        ]);
-        await new Promise(r => setTimeout(r, 1500));
-        setThrottle(0.3);
-      } else if (line.startsWith('right(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '1');
-        const yaw = currentRot[1];
-        setThrottle(0.5);
-        setDronePos(prev => [
-          prev[0] + Math.sin(yaw - Math.PI/2) * val,
-          prev[1],
-          prev[2] + Math.cos(yaw - Math.PI/2) * val
-        ]);
-        await new Promise(r => setTimeout(r, 1500));
-        setThrottle(0.3);
-      } else if (line.startsWith('yaw(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '90');
-        currentRot[1] += val * (Math.PI / 180);
-        setDroneRot([...currentRot]);
-        await new Promise(r => setTimeout(r, 1500));
-      } else if (line.startsWith('hover(')) {
-        const val = parseFloat(line.match(/\d+/)?.[0] || '1');
-        setThrottle(0.3);
-        await new Promise(r => setTimeout(r, val * 1000));
-      } else if (line.startsWith('waypoint(')) {
-        const match = line.match(/waypoint\(([-.\d]+),\s*([-.\d]+)\)/);
-        if (match) {
-          const targetX = parseFloat(match[1]);
-          const targetZ = parseFloat(match[2]);
-          setThrottle(0.6);
-          setDronePos(prev => [targetX, prev[1], targetZ]);
-          await new Promise(r => setTimeout(r, 2000));
-          setThrottle(0.3);
-        }
-      } else if (line.startsWith('print_telemetry()')) {
-        addLog(`Telemetry - Alt: ${dronePos[1].toFixed(1)}m, Bat: ${batteryVoltage.toFixed(1)}V`);
-      } else {
-        addLog(`Unknown command: ${line}`);
-      }
+  // Compiles a TypeScript or JavaScript script and runs it in the worker sandbox. Its drone calls
+  // go through the same commands and queries as the Python-like language.
+  const runTypeScript = async () => {
+    let js: string;
+    try {
+      js = await compileTypeScript(code);
+    } catch (error) {
+      addLog(`ERROR: ${describeError(error)}`);
+      return;
+    }
 
-      // Mission Checks
-      if (activeMission === 'hoop') {
-        // Check if drone is near the hoop at [0, 3, -5]
-        const dist = Math.sqrt(Math.pow(dronePos[0], 2) + Math.pow(dronePos[1] - 3, 2) + Math.pow(dronePos[2] - (-5), 2));
-        if (dist < 1.5) {
-          addLog("MISSION COMPLETE: Passed through hoop!");
-          setActiveMission('free');
-        }
-      }
+    const script = new AbortController();
+    scriptRef.current = script;
+    setIsRunning(true);
+    addLog("Starting execution in the sandbox...");
+    const sim = simRef.current;
+
+    let failed = false;
+    try {
+      await runInSandbox(js, {
+        onCall: async (method, args) => {
+          if (sim.crash) throw new Error("The drone has crashed.");
+          if (method === 'sleep') {
+            await waitUntil(() => false, args[0] as number);
+            return null;
+          }
+          if (method in TELEMETRY_QUERIES) return readTelemetry(method as TelemetryQuery);
+          await runCommand(method as FlightCommand, args);
+          return null;
+        },
+        onLog: addLog,
+        signal: script.signal,
+      });
+    } catch (error) {
+      failed = true;
+      if (!script.signal.aborted && !sim.crash) addLog(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    addLog("Execution finished.");
+    endRun(script, failed);
+  };
+
+  // Reports how a script ended, unless Stop has already reset everything
+  const endRun = (script: AbortController, failed: boolean) => {
+    if (script.signal.aborted) return;
+    addLog(simRef.current.crash ? "Execution aborted: drone crashed." : failed ? "Execution stopped on the error." : "Execution finished.");
+    scriptRef.current = null;
+    setCurrentLine(null);
     setIsRunning(false);
-    setThrottle(0);
+  };
+
+  const downloadDroneTypes = () => {
+    const url = URL.createObjectURL(new Blob([DRONE_API_DTS], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'drone.d.ts';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  useEffect(() => storeOpenScripts({ files, active: file.name }), [files, file.name]);
+
+  const updateLibrary = (next: SavedScript[]) => {
+    try {
+      storeLibrary(next);
+      setLibrary(next);
+      return true;
+    } catch (error) {
+      addLog(`ERROR: Couldn't save the script library: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  };
+
+  const saveActiveFile = () => {
+    const next = saveScript(library, file.name, code);
+    if (next === library) return;
+    if (updateLibrary(next)) addLog(`Saved ${file.name}, revision ${next.find(s => s.name === file.name)!.revisions.length}.`);
+  };
+
+  // Imported scripts are saved to the library and opened, under a name neither already uses
+  const importFiles = async (imported: File[]) => {
+    let next = library;
+    for (const upload of imported) {
+      try {
+        const text = await readScriptFile(upload);
+        const name = freeName([...next.map(s => s.name), ...files.map(f => f.name)], importedName(upload.name), ' imported');
+        next = saveScript(next, name, text);
+        openFile(name, text);
+        addLog(`Imported ${upload.name} as ${name}.`);
+      } catch (error) {
+        addLog(`ERROR: Couldn't import ${upload.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    updateLibrary(next);
+  };
+
+  // Breakpoints and findings are by line, so they don't carry over to another script
+  const switchFile = (name: string) => {
+    debuggerRef.current.breakpoints.clear();
+    setBreakpoints(new Set());
+    setFindings([]);
+    setActiveFile(name);
+  };
+
+  // Opens a script in a tab of its own, replacing what a tab of that name held
+  const openFile = (name: string, text: string) => {
+    setFiles(prev => (prev.some(f => f.name === name) ? prev.map(f => (f.name === name ? { name, code: text } : f)) : [...prev, { name, code: text }]));
+    switchFile(name);
+  };
+
+  // Switches to a script's tab if it's open, so its unsaved edits aren't lost
+  const showFile = (name: string, text: string) => {
+    if (files.some(f => f.name === name)) switchFile(name);
+    else openFile(name, text);
+  };
+
+  const newFile = () => {
+    const extension = scriptLanguage === 'python' ? 'py' : 'ts';
+    let name = `untitled.${extension}`;
+    for (let n = 2; files.some(f => f.name === name); n++) name = `untitled-${n}.${extension}`;
+    openFile(name, '');
+  };
+
+  const closeFile = (name: string) => {
+    const i = files.findIndex(f => f.name === name);
+    const rest = files.filter(f => f.name !== name);
+    if (!rest.length) return;
+    setFiles(rest);
+    if (name === file.name) switchFile(rest[Math.min(i, rest.length - 1)].name);
+  };
+
+  const renameFile = (name: string, to: string) => {
+    setFiles(prev => prev.map(f => (f.name === name ? { ...f, name: to } : f)));
+    if (name !== file.name) return;
+    if (languageOf(name) !== languageOf(to)) switchFile(to);
+    else setActiveFile(to);
+  };
+
+  // The language picker opens the first script in that language, or a new one
+  const setScriptLanguage = (language: ScriptLanguage) => {
+    const existing = files.find(f => languageOf(f.name) === language);
+    if (existing) switchFile(existing.name);
+    else openFile(language === 'python' ? 'flight.py' : 'flight.ts', language === 'python' ? defaultCode : defaultTypeScript);
+  };
+
+  const handleToggleBreakpoint = (line: number) => {
+    toggleBreakpoint(debuggerRef.current, line);
+    setBreakpoints(new Set(debuggerRef.current.breakpoints));
   };
 
   const stopCode = () => {
+    // End the script first, so a command still waiting on the sim gives up
+    scriptRef.current?.abort();
+    scriptRef.current = null;
+    setCurrentLine(null);
+    setPausedAt(null);
+    resetSim();
     setIsRunning(false);
+    addLog("Execution stopped. Drone reset.");
+  };
+
+  // Back on the pad, disarmed, with a full pack and the seed's noise from the start
+  const resetSim = () => {
+    // Reset in place so a script still awaiting this object sees the reset
+    Object.assign(simRef.current, createFlightSim(airframe, batterySpec, seed));
+    setActiveFaults({});
+    batteryWarningRef.current = 'ok';
+    phaseRef.current = 'hover';
+    setFlightPhase('hover');
+    modeRef.current = 'LOITER';
+    setFlightModeView('LOITER');
+    armedRef.current = false;
+    failsafeRef.current = {};
+    setFailsafesTriggered({});
+    vortexRingRef.current = false;
     setIsHovering(false);
     setCrashed(false);
-    setThrottle(0);
-    setDronePos([0,0,0]);
-    setDroneRot([0,0,0]);
-    addLog("Execution stopped. Drone reset.");
   };
 
   return (
@@ -441,27 +1309,51 @@ export default function Simulator() {
 
               <div className="flex gap-2 mb-4">
                 <button 
-                  onClick={() => setDroneType('quadcopter')}
-                  className={cn("flex-1 py-2 text-xs font-bold rounded-lg border transition-all", droneType === 'quadcopter' ? "bg-primary/20 border-primary text-primary" : "border-border/50 text-muted-foreground hover:bg-secondary")}
+                  onClick={() => setDroneType('multirotor')}
+                  className={cn("flex-1 py-2 text-xs font-bold rounded-lg border transition-all", droneType === 'multirotor' ? "bg-primary/20 border-primary text-primary" : "border-border/50 text-muted-foreground hover:bg-secondary")}
                 >
-                  Quadcopter
+                  Multirotor
                 </button>
                 <button 
                   onClick={() => setDroneType('fixed-wing')}
                   className={cn("flex-1 py-2 text-xs font-bold rounded-lg border transition-all", droneType === 'fixed-wing' ? "bg-primary/20 border-primary text-primary" : "border-border/50 text-muted-foreground hover:bg-secondary")}
                 >
-                  VTOL Fixed-Wing
+                  Fixed-Wing
+                </button>
+                <button 
+                  onClick={() => setDroneType('quadplane')}
+                  className={cn("flex-1 py-2 text-xs font-bold rounded-lg border transition-all", droneType === 'quadplane' ? "bg-primary/20 border-primary text-primary" : "border-border/50 text-muted-foreground hover:bg-secondary")}
+                >
+                  Quadplane
                 </button>
               </div>
+
+              {droneType === 'multirotor' && (
+                <div className="mb-4">
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(FRAME_LAYOUTS) as FrameLayout[]).map(id => (
+                      <button
+                        key={id}
+                        onClick={() => setFrameLayout(id)}
+                        disabled={isHovering}
+                        className={cn("py-1.5 text-xs font-bold rounded-lg border transition-all disabled:opacity-50", frameLayout === id ? "bg-accent/20 border-accent text-accent" : "border-border/50 text-muted-foreground hover:bg-secondary")}
+                      >
+                        {FRAME_LAYOUTS[id].label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">{FRAME_LAYOUTS[frameLayout].desc}</p>
+                </div>
+              )}
               
               {[
                 { id: 'frame', label: 'Carbon Fiber Frame', desc: 'The backbone. X-geometry for optimal CG.' },
-                { id: 'motors', label: 'Brushless Motors (x4)', desc: 'Provides thrust. High KV for racing, low KV for cinematic.' },
-                { id: 'esc', label: '4-in-1 ESC', desc: 'Electronic Speed Controller. Translates digital signals to 3-phase AC.' },
+                { id: 'motors', label: `Brushless Motors (x${droneType === 'fixed-wing' ? 1 : motorCount(layout)})`, desc: 'Provides thrust. High KV for racing, low KV for cinematic.' },
+                { id: 'esc', label: motorCount(layout) > 4 ? `ESCs (x${motorCount(layout)})` : '4-in-1 ESC', desc: 'Electronic Speed Controller. Translates digital signals to 3-phase AC.' },
                 { id: 'fc', label: 'Flight Controller', desc: 'The brain. Runs PID loops and processes gyro data.' },
                 { id: 'camera', label: 'FPV Camera & VTX', desc: 'Video transmitter and camera for real-time vision.' },
                 { id: 'battery', label: 'LiPo Battery', desc: 'High-discharge power source. Usually 4S to 6S.' },
-                { id: 'props', label: 'Propellers (x4)', desc: 'Converts rotational motion into thrust.' },
+                { id: 'props', label: `Propellers (x${droneType === 'fixed-wing' ? 1 : motorCount(layout)})`, desc: 'Converts rotational motion into thrust.' },
               ].map((comp) => {
                 const isInstalled = buildState[comp.id as keyof BuildState];
                 return (
@@ -523,7 +1415,7 @@ export default function Simulator() {
                 )
               })}
 
-              {droneType === 'fixed-wing' && (
+              {droneType !== 'multirotor' && (
                 <button 
                   onClick={() => toggleComponent('wings')}
                   className={cn("w-full flex items-center justify-between p-3 rounded-xl border transition-all", buildState.wings ? "bg-emerald-500/10 border-emerald-500/50 text-emerald-500 shadow-[0_0_15px_rgba(16,185,129,0.2)]" : "bg-secondary/50 border-border/50 text-muted-foreground hover:border-primary/50")}
@@ -535,6 +1427,19 @@ export default function Simulator() {
                   <span className="text-xs font-mono opacity-70">200g</span>
                 </button>
               )}
+
+              {droneType === 'quadplane' && (
+                <button 
+                  onClick={() => toggleComponent('pusher')}
+                  className={cn("w-full flex items-center justify-between p-3 rounded-xl border transition-all", buildState.pusher ? "bg-emerald-500/10 border-emerald-500/50 text-emerald-500 shadow-[0_0_15px_rgba(16,185,129,0.2)]" : "bg-secondary/50 border-border/50 text-muted-foreground hover:border-primary/50")}
+                >
+                  <div className="flex items-center gap-3">
+                    {buildState.pusher ? <CheckCircle2 className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                    <span className="font-medium">Pusher Motor & Prop</span>
+                  </div>
+                  <span className="text-xs font-mono opacity-70">80g</span>
+                </button>
+              )}
               
               <div className="mt-8 p-4 bg-secondary/30 rounded-xl border border-border/50">
                 <h3 className="text-sm font-bold mb-3">Drone Specifications</h3>
@@ -548,10 +1453,15 @@ export default function Simulator() {
                     <div className="font-mono font-bold">{maxThrust}g</div>
                   </div>
                 </div>
+
+                <div className="flex items-center justify-between p-3 bg-background rounded-lg border border-border/50 mb-4">
+                  <div className="text-sm font-medium">{droneType === 'fixed-wing' ? 'Est. Flight Time' : 'Est. Hover Time'}</div>
+                  <div className="font-mono font-bold">{formatDuration(hoverTime)}</div>
+                </div>
                 
                 <div className="flex items-center justify-between p-3 bg-background rounded-lg border border-border/50 mb-4">
                   <div className="text-sm font-medium">Thrust-to-Weight Ratio</div>
-                  <div className={cn("font-mono font-bold", parseFloat(twr) < 1.2 ? "text-red-500" : "text-emerald-500")}>
+                  <div className={cn("font-mono font-bold", parseFloat(twr) < MIN_THRUST_TO_WEIGHT[droneType] ? "text-red-500" : "text-emerald-500")}>
                     {twr} : 1
                   </div>
                 </div>
@@ -575,17 +1485,36 @@ export default function Simulator() {
               <div className="mb-4 flex justify-between items-center">
                 <div>
                   <h2 className="text-lg font-bold">Flight Computer</h2>
-                  <p className="text-sm text-muted-foreground">Write Python-like scripts.</p>
+                  <p className="text-sm text-muted-foreground">{scriptLanguage === 'python' ? 'Write Python-like scripts.' : 'Write TypeScript against the Drone API.'}</p>
                 </div>
                 <div className="flex gap-2">
+                  <select
+                    value={scriptLanguage}
+                    onChange={(e) => setScriptLanguage(e.target.value as ScriptLanguage)}
+                    disabled={isRunning}
+                    className="bg-secondary text-sm rounded-lg px-3 py-1.5 border border-border/50 focus:outline-none focus:border-primary disabled:opacity-50"
+                  >
+                    <option value="python">Python</option>
+                    <option value="typescript">TypeScript</option>
+                  </select>
                   <select 
                     value={activeMission}
-                    onChange={(e) => setActiveMission(e.target.value)}
+                    onChange={(e) => {
+                      setActiveMission(e.target.value);
+                      missionStatusRef.current = e.target.value === 'hoop' ? 'in_progress' : 'none';
+                    }}
                     className="bg-secondary text-sm rounded-lg px-3 py-1.5 border border-border/50 focus:outline-none focus:border-primary"
                   >
                     <option value="free">Free Flight</option>
                     <option value="hoop">Mission: Hoop Challenge</option>
                   </select>
+                  <button
+                    onClick={() => setShowLibrary(!showLibrary)}
+                    className={cn("p-2 bg-secondary rounded-lg hover:bg-secondary/80 transition-colors", showLibrary && "ring-1 ring-primary/50")}
+                    title="Script Library"
+                  >
+                    <Library className="w-5 h-5 text-primary" />
+                  </button>
                   <button 
                     onClick={() => setShowGuide(!showGuide)}
                     className="p-2 bg-secondary rounded-lg hover:bg-secondary/80 transition-colors"
@@ -596,6 +1525,29 @@ export default function Simulator() {
                 </div>
               </div>
 
+              {showLibrary && (
+                <motion.div
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mb-4 p-4 bg-primary/5 border border-primary/20 rounded-xl text-sm text-foreground/80 overflow-y-auto max-h-80 custom-scrollbar"
+                >
+                  <h4 className="font-bold text-primary mb-3">Script Library</h4>
+                  <ScriptLibraryPanel
+                    library={library}
+                    activeName={file.name}
+                    activeCode={code}
+                    disabled={isRunning}
+                    onSave={saveActiveFile}
+                    onOpen={showFile}
+                    onRestore={openFile}
+                    onDuplicate={name => updateLibrary(duplicateScript(library, name))}
+                    onDelete={name => updateLibrary(deleteScript(library, name))}
+                    onImport={importFiles}
+                  />
+                </motion.div>
+              )}
+
               {showGuide && (
                 <motion.div 
                   initial={{ opacity: 0, height: 0 }}
@@ -606,39 +1558,58 @@ export default function Simulator() {
                   <h4 className="font-bold text-accent sticky top-0 bg-[#09090b]/90 backdrop-blur py-1 z-10">Code Guide & Real-World Implementation</h4>
                   
                   <div className="space-y-4">
+                    {scriptLanguage === 'typescript' && (
+                      <div>
+                        <div className="flex items-center justify-between">
+                          <code className="text-primary font-bold bg-primary/10 px-1 rounded">drone.d.ts</code>
+                          <button onClick={downloadDroneTypes} className="text-xs font-bold text-accent hover:underline">Download</button>
+                        </div>
+                        <p className="text-xs mt-1">TypeScript and JavaScript scripts run in a Web Worker with no access to the page, and reach the drone only through the <code>drone</code> object. The methods below are the Python commands in camelCase, e.g. <code>await drone.setMode("LOITER")</code>, with <code>goto(&#123; x, z &#125;)</code> for <code>waypoint()</code>. A script must <code>await</code> the drone at least every {STEP_TIME_LIMIT / 1000} seconds, or it's stopped as stuck. The compiler that strips the types is large, so it's downloaded when the first TypeScript script runs; from then on, syntax errors also show as you type. Add the declarations to your project to prototype companion-computer code with full type checking.</p>
+                        <pre className="mt-2 p-2 bg-black/50 rounded border border-border/50 overflow-x-auto text-[10px] leading-tight">{DRONE_API_DTS}</pre>
+                      </div>
+                    )}
+
                     <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">takeoff()</code>
-                      <p className="text-xs mt-1">Arms the motors and climbs to a default altitude of 2 meters. Equivalent to sending a <code>MAV_CMD_NAV_TAKEOFF</code> command.</p>
-                    </div>
-                    
-                    <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">land()</code>
-                      <p className="text-xs mt-1">Descends to 0 meters and disarms the motors. Equivalent to <code>MAV_CMD_NAV_LAND</code>.</p>
-                    </div>
-                    
-                    <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">forward(distance)</code>
-                      <p className="text-xs mt-1">Pitches the drone forward to travel the specified distance in meters. Uses local NED (North-East-Down) coordinate frames.</p>
-                    </div>
-                    
-                    <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">yaw(angle_degrees)</code>
-                      <p className="text-xs mt-1">Rotates the drone around its Z-axis by the specified degrees. Uses <code>MAV_CMD_CONDITION_YAW</code>.</p>
+                      <p className="text-xs">Scripts are a small subset of Python: variables, arithmetic, <code>if</code>/<code>elif</code>/<code>else</code>, <code>for i in range(4):</code>, <code>while</code>, and functions with optional typed parameters, e.g. <code>def square(side: float):</code>. Commands take positional or keyword arguments and negative numbers (<code>forward(-2)</code> flies backward). <code>print()</code>, <code>len()</code>, <code>abs()</code>, <code>round()</code>, <code>min()</code> and <code>max()</code> work as in Python. Dicts like <code>&#123;"3": 1500&#125;</code> and attributes like <code>vehicle.armed</code> work too, for DroneKit scripts (below). Mistakes are reported with their line and column.</p>
                     </div>
-                    
+
                     <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">hover(seconds)</code>
-                      <p className="text-xs mt-1">Maintains current position and altitude for the specified duration using GPS and Barometer sensor fusion.</p>
+                      <p className="text-xs">As you type, a pre-flight check marks mistakes in the editor: unknown names (with the likely one you meant), wrong arguments, and a dry run of the flight that finds moves through the geofence, moves before takeoff or outside LOITER, loops that never end and scripts that ask for more battery than the pack holds. The same findings print in the terminal when you press Run, with the estimated flight time, distance and battery use; a script with errors doesn't fly.</p>
                     </div>
 
                     <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">waypoint(x, z)</code>
-                      <p className="text-xs mt-1">Flies directly to the specified X and Z coordinates. E.g., <code>waypoint(0, -5)</code></p>
+                      <p className="text-xs">In the editor, names complete as you type (Ctrl+Space asks), a call shows its parameters while you fill them in, and resting the mouse on a command shows its entry below with links to the MAVLink it stands for. The tabs hold several scripts; double-click one to rename it, and its extension (<code>.py</code> or <code>.ts</code>) picks the language. The Script Library saves the open script in this browser (Ctrl+S), keeping every revision, imports and exports <code>.py</code> and <code>.txt</code> files, and has example scripts to start from.</p>
                     </div>
 
+                    {GUIDE_SECTIONS.map(({ title, entries, note }, i) => (
+                      <React.Fragment key={i}>
+                        {title && <h5 className="font-bold text-accent pt-2">{title}</h5>}
+                        {entries.map(entry => (
+                          <div key={entry.title}>
+                            <code className="text-primary font-bold bg-primary/10 px-1 rounded">{entry.title}</code>
+                            <p className="text-xs mt-1"><GuideText text={entry.text} /></p>
+                          </div>
+                        ))}
+                        {note && (
+                          <div>
+                            <p className="text-xs mt-1"><GuideText text={note} /></p>
+                          </div>
+                        )}
+                      </React.Fragment>
+                    ))}
+
+                    <h5 className="font-bold text-accent pt-2">DroneKit Compatibility</h5>
+
                     <div>
-                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">print_telemetry()</code>
-                      <p className="text-xs mt-1">Reads sensor data (Altitude, Battery) and prints it to the terminal.</p>
+                      <code className="text-primary font-bold bg-primary/10 px-1 rounded">from dronekit import connect, VehicleMode</code>
+                      <p className="text-xs mt-1">Python scripts written for a companion computer run unchanged against the simulated vehicle. <code>connect()</code> ignores its address and returns the one <code>vehicle</code>; <code>import time</code> gives <code>time.sleep()</code> for polling loops.</p>
+                      <ul className="text-xs mt-1 list-disc pl-4 space-y-1">
+                        <li><code>vehicle.mode = VehicleMode("GUIDED")</code>: GUIDED flies as Loiter here, and <code>STABILIZE</code>, <code>ALT_HOLD</code>, <code>LOITER</code>, <code>RTL</code> and <code>LAND</code> work as in <code>set_mode()</code>.</li>
+                        <li><code>vehicle.armed = True</code>, then <code>vehicle.simple_takeoff(alt)</code> and <code>vehicle.simple_goto(LocationGlobalRelative(lat, lon, alt))</code>. As in DroneKit they return at once, and ArduPilot refuses them outside GUIDED.</li>
+                        <li>Home is ArduPilot SITL's default at {HOME_LOCATION.lat}, {HOME_LOCATION.lon}; one meter north is about 0.000009° of latitude.</li>
+                        <li>Read <code>vehicle.location.global_relative_frame.alt</code>, <code>attitude</code>, <code>heading</code>, <code>groundspeed</code>, <code>velocity</code>, <code>battery</code>, <code>gps_0</code>, <code>is_armable</code> and <code>system_status.state</code>.</li>
+                        <li><code>vehicle.channels.overrides['3'] = 1600</code> overrides an RC channel in µs: 1-4 are roll, pitch, throttle and yaw, held until set to <code>None</code> or the script ends; 5-8, such as a payload servo on channel 8, are logged. <code>vehicle.channels.overrides = &#123;&#125;</code> releases them all.</li>
+                      </ul>
                     </div>
                   </div>
 
@@ -660,61 +1631,73 @@ export default function Simulator() {
                     </div>
 
                     <div>
-                      <strong className="text-foreground">3. Example Real-World Script (DroneKit):</strong>
+                      <div className="flex items-center justify-between">
+                        <strong className="text-foreground">3. Example Real-World Script (DroneKit):</strong>
+                        <button
+                          onClick={() => {
+                            openFile('dronekit_example.py', dronekitExample);
+                          }}
+                          disabled={isRunning}
+                          className="text-xs font-bold text-accent hover:underline disabled:opacity-50"
+                        >
+                          Open in editor
+                        </button>
+                      </div>
                       <pre className="mt-2 p-2 bg-black/50 rounded border border-border/50 overflow-x-auto text-[10px] leading-tight">
-{`from dronekit import connect, VehicleMode
-import time
-
-# Connect to the Vehicle (via serial port or UDP)
-vehicle = connect('/dev/ttyAMA0', wait_ready=True, baud=921600)
-
-def arm_and_takeoff(aTargetAltitude):
-    print("Basic pre-arm checks")
-    while not vehicle.is_armable:
-        time.sleep(1)
-
-    print("Arming motors")
-    vehicle.mode = VehicleMode("GUIDED")
-    vehicle.armed = True
-
-    while not vehicle.armed:
-        time.sleep(1)
-
-    print("Taking off!")
-    vehicle.simple_takeoff(aTargetAltitude)
-
-    while True:
-        print(" Altitude: ", vehicle.location.global_relative_frame.alt)
-        if vehicle.location.global_relative_frame.alt >= aTargetAltitude * 0.95:
-            print("Reached target altitude")
-            break
-        time.sleep(1)
-
-arm_and_takeoff(2)
-print("Hovering for 5 seconds...")
-time.sleep(5)
-print("Landing...")
-vehicle.mode = VehicleMode("LAND")
-vehicle.close()`}
+{dronekitExample}
                       </pre>
                     </div>
                   </div>
                 </motion.div>
               )}
               
-              <div className="flex-1 relative rounded-xl overflow-hidden border border-border/50 bg-[#1e1e1e] min-h-[200px]">
-                <textarea
-                  value={code}
-                  onChange={(e) => setCode(e.target.value)}
-                  className="w-full h-full p-4 bg-transparent text-emerald-400 font-mono text-sm resize-none focus:outline-none"
-                  spellCheck={false}
+              <ScriptTabs
+                files={files}
+                active={file.name}
+                disabled={isRunning}
+                onSelect={switchFile}
+                onNew={newFile}
+                onClose={closeFile}
+                onRename={renameFile}
+                modified={new Set(library.filter(s => files.some(f => f.name === s.name && f.code !== latest(s).code)).map(s => s.name))}
+              />
+              <div
+                onKeyDown={(e) => {
+                  if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+                    e.preventDefault();
+                    saveActiveFile();
+                  }
+                }}
+                className="flex-1 relative rounded-xl rounded-tl-none overflow-hidden border border-border/50 bg-[#1e1e1e] min-h-[200px]"
+              >
+                <ScriptEditor
+                  code={code}
+                  onChange={setCode}
+                  readOnly={isRunning}
+                  currentLine={currentLine}
+                  paused={pausedAt !== null}
+                  language={scriptLanguage}
+                  breakpoints={scriptLanguage === 'python' ? breakpoints : new Set()}
+                  onToggleBreakpoint={scriptLanguage === 'python' ? handleToggleBreakpoint : undefined}
+                  findings={findings}
                 />
               </div>
+
+              {scriptLanguage === 'python' && <DebuggerPanel
+                running={isRunning}
+                paused={pausedAt}
+                currentLine={currentLine}
+                breakpointCount={breakpoints.size}
+                canStart={isFullyBuilt}
+                onPause={() => { debuggerRef.current.pauseRequested = true; }}
+                onResume={() => resumeScript(debuggerRef.current, false)}
+                onStep={() => (isRunning ? resumeScript(debuggerRef.current, true) : runCode(true))}
+              />}
               
               <div className="mt-4 flex gap-2 shrink-0">
                 {!isRunning ? (
                   <button 
-                    onClick={runCode}
+                    onClick={() => runCode()}
                     disabled={!isFullyBuilt}
                     className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-accent text-accent-foreground font-bold hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
@@ -757,14 +1740,37 @@ vehicle.close()`}
                     </div>
                     {keyboardEnabled && (
                       <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground font-mono bg-background/50 p-3 rounded-lg border border-border/50">
-                        <div><strong className="text-foreground">W / S</strong> : Forward / Backward</div>
-                        <div><strong className="text-foreground">A / D</strong> : Strafe Left / Right</div>
-                        <div><strong className="text-foreground">↑ / ↓</strong> : Takeoff / Land</div>
+                        <div><strong className="text-foreground">W / S</strong> : Pitch Fwd / Back</div>
+                        <div><strong className="text-foreground">A / D</strong> : Roll Left / Right</div>
+                        <div><strong className="text-foreground">↑ / ↓</strong> : Throttle Up / Down</div>
                         <div><strong className="text-foreground">Q / E</strong> : Yaw Left / Right</div>
+                        <div><strong className="text-foreground">↑</strong> (disarmed) : Takeoff</div>
+                        <div><strong className="text-foreground">L</strong> : Land</div>
+                        {droneType === 'quadplane' && (
+                          <div><strong className="text-foreground">T</strong> : Transition</div>
+                        )}
                       </div>
                     )}
                   </div>
 
+                  {droneType !== 'fixed-wing' && (
+                    <div className="bg-secondary/30 p-4 rounded-xl border border-border/50">
+                      <h3 className="text-sm font-bold mb-3">Flight Mode</h3>
+                      <div className="grid grid-cols-3 gap-1 bg-background/50 p-1 rounded-lg border border-border/50 mb-2">
+                        {(Object.keys(FLIGHT_MODES) as FlightMode[]).map(id => (
+                          <button
+                            key={id}
+                            onClick={() => changeFlightMode(id)}
+                            className={cn("py-1.5 text-xs font-bold rounded-md transition-all", flightMode === id ? "bg-orange-500 text-white" : "text-muted-foreground hover:text-foreground")}
+                          >
+                            {FLIGHT_MODES[id].label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground min-h-[3rem]">{FLIGHT_MODES[flightMode].desc}</p>
+                    </div>
+                  )}
+
                   <div className="flex gap-4">
                     <button 
                       onClick={() => handleManualCommand('takeoff')}
@@ -782,18 +1788,34 @@ vehicle.close()`}
                     </button>
                   </div>
 
+                  {droneType === 'quadplane' && (
+                    <button 
+                      onClick={() => handleManualCommand('transition')}
+                      disabled={!isHovering || flightPhase.startsWith('transition')}
+                      className="w-full py-3 bg-sky-500/20 text-sky-500 border border-sky-500/50 rounded-xl font-bold hover:bg-sky-500/30 disabled:opacity-50 transition-colors"
+                    >
+                      {flightPhase === 'cruise' ? 'BACK-TRANSITION TO HOVER' : flightPhase === 'hover' ? 'TRANSITION TO CRUISE' : 'TRANSITIONING...'}
+                    </button>
+                  )}
+
+                  {/* Hold a button to deflect the stick, like the keys */}
                   <div className="grid grid-cols-3 gap-2 max-w-[250px] mx-auto">
                     <div />
-                    <button onClick={() => handleManualCommand('forward')} disabled={!isHovering} className="p-4 bg-secondary rounded-xl flex items-center justify-center hover:bg-secondary/80 disabled:opacity-50 transition-colors"><ArrowUp /></button>
+                    <StickButton axis="pitch" value={1} cmd="forward" disabled={!isHovering} onMove={moveStick}><ArrowUp /></StickButton>
                     <div />
-                    <button onClick={() => handleManualCommand('left')} disabled={!isHovering} className="p-4 bg-secondary rounded-xl flex items-center justify-center hover:bg-secondary/80 disabled:opacity-50 transition-colors"><ArrowLeft /></button>
-                    <button onClick={() => handleManualCommand('backward')} disabled={!isHovering} className="p-4 bg-secondary rounded-xl flex items-center justify-center hover:bg-secondary/80 disabled:opacity-50 transition-colors"><ArrowDown /></button>
-                    <button onClick={() => handleManualCommand('right')} disabled={!isHovering} className="p-4 bg-secondary rounded-xl flex items-center justify-center hover:bg-secondary/80 disabled:opacity-50 transition-colors"><ArrowRight /></button>
+                    <StickButton axis="roll" value={-1} cmd="left" disabled={!isHovering} onMove={moveStick}><ArrowLeft /></StickButton>
+                    <StickButton axis="pitch" value={-1} cmd="backward" disabled={!isHovering} onMove={moveStick}><ArrowDown /></StickButton>
+                    <StickButton axis="roll" value={1} cmd="right" disabled={!isHovering} onMove={moveStick}><ArrowRight /></StickButton>
+                  </div>
+
+                  <div className="flex justify-center gap-4">
+                    <StickButton axis="yaw" value={-1} cmd="yaw_left" disabled={!isHovering} onMove={moveStick}><RotateCcw className="w-5 h-5" /> Yaw L</StickButton>
+                    <StickButton axis="yaw" value={1} cmd="yaw_right" disabled={!isHovering} onMove={moveStick}>Yaw R <RotateCw className="w-5 h-5" /></StickButton>
                   </div>
 
                   <div className="flex justify-center gap-4">
-                    <button onClick={() => handleManualCommand('yaw_left')} disabled={!isHovering} className="p-4 px-6 bg-secondary rounded-xl flex items-center justify-center gap-2 hover:bg-secondary/80 disabled:opacity-50 transition-colors"><RotateCcw className="w-5 h-5" /> Yaw L</button>
-                    <button onClick={() => handleManualCommand('yaw_right')} disabled={!isHovering} className="p-4 px-6 bg-secondary rounded-xl flex items-center justify-center gap-2 hover:bg-secondary/80 disabled:opacity-50 transition-colors">Yaw R <RotateCw className="w-5 h-5" /></button>
+                    <StickButton axis="throttle" value={1} cmd="forward" disabled={!isHovering} onMove={moveStick}><ChevronsUp className="w-5 h-5" /> Throttle</StickButton>
+                    <StickButton axis="throttle" value={-1} cmd="backward" disabled={!isHovering} onMove={moveStick}>Throttle <ChevronsDown className="w-5 h-5" /></StickButton>
                   </div>
                 </>
               )}
@@ -808,62 +1830,78 @@ vehicle.close()`}
               </div>
 
               <div className="bg-secondary/30 p-5 rounded-xl border border-border/50 space-y-6">
-                <div>
-                  <div className="flex justify-between mb-2">
-                    <label className="text-sm font-bold flex items-center gap-2"><Target className="w-4 h-4 text-purple-500"/> PID Tuning (P-Gain)</label>
-                    <span className="text-sm font-mono text-purple-500">{pGain.toFixed(1)}</span>
-                  </div>
-                  <p className="text-xs text-muted-foreground mb-3">Adjust the Proportional gain. Too low = sluggish/wobble. Too high = rapid oscillation.</p>
-                  <input 
-                    type="range" 
-                    min="0.1" max="2.5" step="0.1" 
-                    value={pGain} 
-                    onChange={(e) => setPGain(parseFloat(e.target.value))}
-                    className="w-full accent-purple-500"
+                <PidTuningPanel gains={gains} onChange={setGains} />
+
+                <div className="border-t border-border/50 pt-6">
+                  <StepResponsePanel canRun={droneType === 'multirotor' && flightMode === 'LOITER' && isHovering && !isRunning && !crashed} onRunTest={runStepTest} />
+                </div>
+
+                <div className="border-t border-border/50 pt-6">
+                  <WindPanel
+                    config={windConfig}
+                    preset={windPreset}
+                    onChange={(config, preset) => { setWindConfig(config); setWindPreset(preset); }}
                   />
                 </div>
 
                 <div className="border-t border-border/50 pt-6">
-                  <div className="flex justify-between mb-2">
-                    <label className="text-sm font-bold flex items-center gap-2"><Wind className="w-4 h-4 text-primary"/> Wind X (Crosswind)</label>
-                    <span className="text-sm font-mono text-primary">{windX.toFixed(1)} m/s</span>
-                  </div>
-                  <input 
-                    type="range" 
-                    min="-5" max="5" step="0.1" 
-                    value={windX} 
-                    onChange={(e) => setWindX(parseFloat(e.target.value))}
-                    className="w-full accent-primary"
+                  <RotorFlowPanel flow={rotorFlow ?? createRotorFlow(airframe)} inducedVelocity={hoverInducedVelocity(airframe)} />
+                </div>
+
+                <div className="border-t border-border/50 pt-6">
+                  <SensorPanel
+                    config={sensorConfig}
+                    preset={sensorPreset}
+                    readings={sensorReadings ?? simRef.current.sensors.readings}
+                    onChange={(config, preset) => { setSensorConfig(config); setSensorPreset(preset); }}
                   />
                 </div>
 
-                <div>
-                  <div className="flex justify-between mb-2">
-                    <label className="text-sm font-bold flex items-center gap-2"><Wind className="w-4 h-4 text-accent"/> Wind Z (Head/Tailwind)</label>
-                    <span className="text-sm font-mono text-accent">{windZ.toFixed(1)} m/s</span>
-                  </div>
-                  <input 
-                    type="range" 
-                    min="-5" max="5" step="0.1" 
-                    value={windZ} 
-                    onChange={(e) => setWindZ(parseFloat(e.target.value))}
-                    className="w-full accent-accent"
+                <div className="border-t border-border/50 pt-6">
+                  <EstimatorPanel
+                    samples={sigmaHistory}
+                    window={SIGMA_WINDOW}
+                    error={estimateView?.error ?? { horizontal: 0, vertical: 0, heading: 0 }}
                   />
                 </div>
-              </div>
 
-              <div className="bg-red-500/5 p-5 rounded-xl border border-red-500/20">
-                <h3 className="text-sm font-bold text-red-500 mb-2 flex items-center gap-2"><Battery className="w-4 h-4"/> Battery Chemistry</h3>
-                <p className="text-xs text-muted-foreground mb-4">
-                  Simulating a 4S LiPo (16.8V max). Notice the voltage sag when throttle increases due to Internal Resistance (IR).
-                </p>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm">Current Voltage:</span>
-                  <span className={cn("font-mono font-bold", batteryVoltage < 14.5 ? "text-red-500" : "text-emerald-500")}>
-                    {batteryVoltage.toFixed(2)}V
-                  </span>
+                <div className="border-t border-border/50 pt-6">
+                  <label className="text-sm font-bold flex items-center gap-2 mb-2"><Dices className="w-4 h-4 text-primary"/> Random Seed</label>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    Turbulence, gusts, sensor noise and ESC desyncs all draw from this seed. Stop resets the drone with it, so the same seed replays the same noise.
+                  </p>
+                  <input
+                    type="number"
+                    min="0" step="1"
+                    value={seed}
+                    disabled={isRunning || isHovering}
+                    onChange={(e) => {
+                      const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                      setSeed(value);
+                      Object.assign(simRef.current, createFlightSim(airframe, batterySpec, value));
+                    }}
+                    className="w-32 bg-secondary text-foreground text-xs font-mono rounded-lg px-2 py-1.5 border border-border/50 focus:outline-none focus:border-primary disabled:opacity-50"
+                  />
                 </div>
               </div>
+
+              <FaultInjectionPanel
+                active={activeFaults}
+                motorCount={airframe.motors.length}
+                quad={droneType === 'multirotor' && airframe.motors.length === 4}
+                onInject={triggerFault}
+                onClear={resolveFault}
+              />
+
+              <FailsafePanel config={failsafes} triggered={failsafesTriggered} onChange={setFailsafes} />
+
+              <BatteryPanel
+                spec={batterySpec}
+                state={battery}
+                canConfigure={!isHovering}
+                onSpecChange={changeBatterySpec}
+                onSwap={() => swapBattery()}
+              />
             </div>
           )}
         </div>
@@ -879,16 +1917,16 @@ vehicle.close()`}
             <pointLight position={[-10, -10, -10]} intensity={0.5} />
             
             <PhysicsEngine 
-              position={dronePos} 
-              setPosition={setDronePos} 
-              rotation={droneRot}
-              setRotation={setDroneRot}
-              isHovering={isHovering} 
-              windX={windX} 
-              windZ={windZ} 
-              isRunning={isRunning || isHovering}
-              pGain={pGain}
+              simRef={simRef}
+              airframe={airframe}
+              windConfig={windConfig}
+              sensorConfig={sensorConfig}
+              gains={gains}
+              batterySpec={batterySpec}
+              obstacles={activeMission === 'hoop' ? HOOP_COURSE : NO_OBSTACLES}
+              failsafes={failsafes}
               crashed={crashed}
+              onUpdate={handlePhysicsUpdate}
             />
 
             <Suspense fallback={
@@ -898,16 +1936,28 @@ vehicle.close()`}
             }>
               <DroneModel 
                 buildState={buildState} 
-                isHovering={isHovering && !crashed} 
+                propRpm={crashed ? [] : motorStats.map((m, i) => m.rpm * (airframe.motors[i]?.spin ?? 1))}
                 position={dronePos}
                 rotation={droneRot}
                 type={droneType}
+                layout={layout}
+                crashed={crashed}
               />
+
+              {isFullyBuilt && estimateView && !crashed && (
+                <GhostDrone position={estimateView.position} rotation={estimateView.rotation} sigma={sigmaHistory[sigmaHistory.length - 1]?.sigma.horizontal ?? 0} />
+              )}
+
+              {isFullyBuilt && <GeofenceWalls fence={failsafes.fence} home={home ?? [dronePos[0], 0, dronePos[2]]} />}
+
+              {windConfig.speed + windConfig.gustStrength + windConfig.turbulence > 0 && (
+                <WindField sample={p => windAt(simRef.current.wind, windConfig, p)} />
+              )}
               
               {/* Mission Objects */}
               {activeMission === 'hoop' && (
-                <mesh position={[0, 3, -5]}>
-                  <torusGeometry args={[1.5, 0.1, 16, 100]} />
+                <mesh position={HOOP.center}>
+                  <torusGeometry args={[HOOP.radius, HOOP.tube, 16, 100]} />
                   <meshStandardMaterial color="#f97316" emissive="#f97316" emissiveIntensity={0.5} />
                   <Html position={[0, 2, 0]} center>
                     <div className="bg-background/80 backdrop-blur px-2 py-1 rounded border border-orange-500/50 text-orange-500 text-xs font-bold whitespace-nowrap">
@@ -919,11 +1969,14 @@ vehicle.close()`}
 
               <Environment preset="city" />
               {/* Grid floor for better spatial awareness */}
-              <gridHelper args={[20, 20, '#3f3f46', '#27272a']} position={[0, -0.01, 0]} />
+              <gridHelper args={droneType !== 'multirotor' ? [GRID_SIZE.winged, 40, '#3f3f46', '#27272a'] : [GRID_SIZE.multirotor, 20, '#3f3f46', '#27272a']} position={[0, -0.01, 0]} />
               <ContactShadows position={[0, 0, 0]} opacity={0.5} scale={20} blur={2} far={4.5} />
             </Suspense>
             
+            {/* A plane leaves the view within seconds, so the camera follows it */}
+            <CameraFollow target={dronePos} enabled={droneType !== 'multirotor'} />
             <OrbitControls 
+              makeDefault
               enablePan={true} 
               enableZoom={true} 
               enableRotate={true}
@@ -932,29 +1985,74 @@ vehicle.close()`}
             />
           </Canvas>
 
+          {buildState.motors && motorStats.length > 0 && <MotorPanel motors={motorStats} specs={airframe.motors} />}
+
           {/* Overlay Telemetry */}
           <div className="absolute top-4 right-4 bg-background/80 backdrop-blur-md border border-border/50 p-4 rounded-xl pointer-events-none min-w-[200px]">
             <h3 className="font-mono text-primary text-sm mb-3 uppercase tracking-wider border-b border-border/50 pb-2">Telemetry</h3>
             <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
               <div className="text-muted-foreground">Status</div>
-              <div className={cn("font-mono text-right", isHovering ? "text-emerald-500" : "text-yellow-500")}>
-                {isHovering ? 'ARMED' : 'DISARMED'}
+              <div className={cn("font-mono text-right", crashed ? "text-red-500" : isHovering ? "text-emerald-500" : "text-yellow-500")}>
+                {crashed ? 'CRASHED' : isHovering ? 'ARMED' : 'DISARMED'}
               </div>
               <div className="text-muted-foreground">Altitude</div>
               <div className="font-mono text-right">{dronePos[1].toFixed(2)}m</div>
               <div className="text-muted-foreground">Heading</div>
-              <div className="font-mono text-right">{((droneRot[1] * 180 / Math.PI) % 360).toFixed(0)}°</div>
+              <div className="font-mono text-right">{(((heading * 180 / Math.PI) % 360 + 360) % 360).toFixed(0)}°</div>
               <div className="text-muted-foreground">Voltage</div>
-              <div className={cn("font-mono text-right", batteryVoltage < 14.5 ? "text-red-500" : "text-emerald-500")}>
-                {batteryVoltage.toFixed(2)}V
+              <div className={cn("font-mono text-right", WARNING_COLORS[batteryWarning(battery, batterySpec)])}>
+                {battery.voltage.toFixed(2)}V
               </div>
+              <div className="text-muted-foreground">Current</div>
+              <div className="font-mono text-right">{battery.current.toFixed(1)}A</div>
+              <div className="text-muted-foreground">Used</div>
+              <div className="font-mono text-right">{battery.usedMah.toFixed(0)}mAh</div>
+              <div className="text-muted-foreground">Remaining</div>
+              <div className="font-mono text-right">{formatDuration(remainingFlightTime(battery, batterySpec))}</div>
               <div className="text-muted-foreground">Throttle</div>
               <div className="font-mono text-right">{(throttle * 100).toFixed(0)}%</div>
-              <div className="text-muted-foreground">Wind Drift</div>
+              <div className="text-muted-foreground">Wind</div>
               <div className="font-mono text-right text-accent">
-                {Math.sqrt(windX*windX + windZ*windZ).toFixed(1)}m/s
+                {length(windAtDrone).toFixed(1)}m/s
               </div>
+              {droneType !== 'fixed-wing' && (
+                <>
+                  <div className="text-muted-foreground">Mode</div>
+                  <div className="font-mono text-right text-orange-500">{flightMode}</div>
+                </>
+              )}
+              {isQuadplane(airframe) && (
+                <>
+                  <div className="text-muted-foreground">Phase</div>
+                  <div className="font-mono text-right text-sky-400">{PHASE_LABELS[flightPhase]}</div>
+                </>
+              )}
+              {airframe.wing && (
+                <>
+                  <div className="text-muted-foreground">Airspeed</div>
+                  <div className="font-mono text-right">{air.airspeed.toFixed(1)}m/s</div>
+                  <div className="text-muted-foreground">AoA</div>
+                  <div className="font-mono text-right">{(air.alpha * 180 / Math.PI).toFixed(1)}°</div>
+                </>
+              )}
             </div>
+            {stalled && (
+              <div className="mt-3 pt-2 border-t border-border/50 text-xs font-bold flex items-center gap-2 animate-pulse text-red-500">
+                <AlertTriangle className="w-4 h-4" /> STALL
+              </div>
+            )}
+            {batteryWarning(battery, batterySpec) !== 'ok' && (
+              <div className={cn("mt-3 pt-2 border-t border-border/50 text-xs font-bold flex items-center gap-2 animate-pulse", WARNING_COLORS[batteryWarning(battery, batterySpec)])}>
+                <AlertTriangle className="w-4 h-4" /> {batteryWarning(battery, batterySpec) === 'low' ? 'LOW BATTERY' : 'BATTERY CRITICAL'}
+              </div>
+            )}
+            {Object.keys(activeFaults).length > 0 && (
+              <div className="mt-3 pt-2 border-t border-border/50 text-xs font-bold text-amber-500 space-y-1">
+                {(Object.keys(activeFaults) as FaultId[]).map(id => (
+                  <div key={id} className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {FAULTS[id].label.toUpperCase()}</div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 